@@ -1,32 +1,78 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { characters as roster, keywords, statusEffects } from "@ua/data";
-import type { Card, Character, Keyword, StatusEffectDefinition } from "@ua/data";
+import type {
+  Card,
+  CardCriteria,
+  Character,
+  Effect,
+  Keyword,
+  StatusEffectDefinition,
+} from "@ua/data";
 import {
   applyAction,
+  applyStatePatch,
+  conditionNeedsTarget,
   createMatchState,
+  createStatePatch,
+  describeCardCriteria,
+  exportTranscript,
+  getAiFallbackAction,
+  getDeckCount,
+  getHandCount,
+  getLegalActions,
   getLegalTargets,
+  getXRangeFromText,
+  isEffectConditionMet,
+  matchesCardCriteria,
+  migrateTranscript,
+  parseCardCriteria,
   parseCost,
+  predictZoneResolution,
+  previewPlayDamage,
+  projectMatchState,
+  replayTranscript,
+  replayTranscriptSteps,
+  resolveEffectScalar,
+  type Action,
+  type AiLevel,
+  type ClashPrediction,
   type CombatResolution,
+  type DamagePreviewTarget,
   type MatchCharacterId,
+  type MatchEvent,
   type MatchState,
+  type MatchTranscript,
   type PlayerId,
+  type ReplayStep,
   type StackEntry,
+  type StatePatch,
   type ZoneName,
 } from "@ua/core";
+import type { AiWorkerRequest, AiWorkerResponse } from "./aiWorker";
 
-type Stage = "setup" | "match";
+type Stage = "setup" | "match" | "replay";
+
+type SeatController = "human" | AiLevel;
+
+type AiRequest = {
+  id: number;
+  state: MatchState;
+  answered: boolean;
+};
 
 type SelectionState = {
   p1: string[];
   p2: string[];
 };
 
-type RelayConnectionStatus = "idle" | "connecting" | "connected";
+type RelayConnectionStatus = "idle" | "connecting" | "connected" | "reconnecting";
 
 type RelayLobbySnapshot = {
   code: string;
   hostId: string;
-  players: { id: string; name: string }[];
+  authoritative?: boolean;
+  seats?: Record<PlayerId, string | null>;
+  players: { id: string; name: string; connected?: boolean; spectator?: boolean }[];
 };
 
 type RelayEventMessage = {
@@ -41,24 +87,129 @@ type SetupSyncPayload = {
   names: { p1: string; p2: string };
 };
 
+type ReplaySession = {
+  fileName: string;
+  steps: ReplayStep[];
+  index: number;
+  error?: string;
+};
+
+type SavedMatch = {
+  version: 1;
+  savedAt: string;
+  selection: SelectionState;
+  controllers: Record<PlayerId, SeatController>;
+  transcript: MatchTranscript;
+};
+
+type UndoEntry = {
+  actionId: number;
+  playerId: PlayerId;
+  state: MatchState;
+};
+
 const defaultRelayUrl = import.meta.env.VITE_RELAY_URL ?? "ws://localhost:8787";
 
-const createClientId = () => {
-  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
-    return crypto.randomUUID();
-  }
-  return `client-${Math.random().toString(36).slice(2)}-${Date.now().toString(36)}`;
+const aiActionDelayMs = 650;
+
+const relayReconnectDelayMs = 2000;
+
+const relayReconnectAttempts = 15;
+
+const undoHistoryLimit = 50;
+
+const savedMatchStorageKey = "ua-saved-match";
+
+const seatControllerValues: SeatController[] = ["human", "greedy", "search"];
+
+const isSeatController = (value: unknown): value is SeatController =>
+  seatControllerValues.includes(value as SeatController);
+
+const isSavedMatch = (value: unknown): value is SavedMatch => {
+  if (!value || typeof value !== "object") return false;
+  const saved = value as Partial<SavedMatch>;
+  return (
+    saved.version === 1 &&
+    typeof saved.transcript === "object" &&
+    Array.isArray(saved.selection?.p1) &&
+    Array.isArray(saved.selection?.p2) &&
+    isSeatController(saved.controllers?.p1) &&
+    isSeatController(saved.controllers?.p2)
+  );
+};
+
+const createSavedMatch = (
+  transcript: MatchTranscript,
+  controllers: Record<PlayerId, SeatController>
+): SavedMatch => ({
+  version: 1,
+  savedAt: new Date().toISOString(),
+  selection: {
+    p1: transcript.players.find((player) => player.id === "p1")?.characterIds ?? [],
+    p2: transcript.players.find((player) => player.id === "p2")?.characterIds ?? [],
+  },
+  controllers,
+  transcript,
+});
+
+const downloadJson = (fileName: string, value: unknown) => {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+const describeReplayAction = (previous: MatchState, step: ReplayStep) => {
+  const action = step.action;
+  if (!action) return "Match start";
+  const teamName = previous.players[action.playerId].name;
+  const describe = () => {
+    if (action.type === "play_card") {
+      const instance = previous.players[action.playerId].hand.find(
+        (entry) => entry.id === action.cardInstanceId
+      );
+      const character = roster.find((entry) => entry.id === instance?.characterId);
+      const cardSlot = instance?.cardSlot ?? action.cardSlot;
+      const card =
+        character?.cards.find((entry) => entry.slot === cardSlot) ??
+        character?.createdCards?.find((entry) => entry.slot === cardSlot);
+      return `plays ${card?.name ?? "a card"} into ${zoneLabel(action.zone)}`;
+    }
+    if (action.type === "move_swap") return "swaps positions";
+    if (action.type === "end_turn") return "ends the turn";
+    if (action.type === "clear_log") return "clears the log";
+    return "passes";
+  };
+  return `${teamName} ${describe()}${step.error ? ` (rejected: ${step.error})` : ""}`;
+};
+const getLobbySeat = (lobby: RelayLobbySnapshot, clientId: string): PlayerId | null => {
+  if (!lobby.seats) return lobby.hostId === clientId ? "p1" : "p2";
+  if (lobby.seats.p1 === clientId) return "p1";
+  if (lobby.seats.p2 === clientId) return "p2";
+  return null;
 };
 
-const getStoredClientId = () => {
-  if (typeof window === "undefined") {
-    return createClientId();
+const getRemoteView = (state: MatchState, lobby: RelayLobbySnapshot, clientId: string) => {
+  const seat = getLobbySeat(lobby, clientId);
+  return projectMatchState(state, seat === "p1" ? "p2" : seat === "p2" ? "p1" : null);
+};
+
+const reconnectTokenStorageKey = "ua-reconnect-token";
+
+const getStoredReconnectToken = () => {
+  if (typeof window === "undefined") return null;
+  return window.sessionStorage.getItem(reconnectTokenStorageKey);
+};
+
+const storeReconnectToken = (token: string | null) => {
+  if (typeof window === "undefined") return;
+  if (token) {
+    window.sessionStorage.setItem(reconnectTokenStorageKey, token);
+  } else {
+    window.sessionStorage.removeItem(reconnectTokenStorageKey);
   }
-  const stored = window.localStorage.getItem("ua-client-id");
-  if (stored) return stored;
-  const next = createClientId();
-  window.localStorage.setItem("ua-client-id", next);
-  return next;
 };
 
 const getStoredSkipCombat = () => {
@@ -66,6 +217,16 @@ const getStoredSkipCombat = () => {
   return window.localStorage.getItem("ua-skip-combat") === "true";
 };
 
+const getStoredMatch = () => {
+  if (typeof window === "undefined") return null;
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(savedMatchStorageKey) ?? "null");
+    return isSavedMatch(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
 const defaultSelection = (): SelectionState => {
   const sorted = sortRoster(roster);
   const p1 = sorted.slice(0, 3).map((entry) => entry.id);
@@ -137,13 +298,13 @@ type SeekState = {
   cards: CardInstance[];
   takeIds?: string[];
   take: number;
-  criteria: string;
+  criteria: CardCriteria;
 };
 
 type SearchState = {
   options: { id: string; label: string }[];
   pickId?: string;
-  criteria: string;
+  criteria: CardCriteria;
 };
 
 type PendingPlay = {
@@ -273,69 +434,6 @@ const getEnergyCostAdjustment = (member: TeamMember) => {
   return strain - focus - bloodFocus;
 };
 
-const getAdjustedEnergyCost = (
-  member: TeamMember,
-  cost: ReturnType<typeof parseCost>,
-  xValue: number,
-  cardInstance?: CardInstance,
-  followUpAdjustment = 0
-) => {
-  const variableEnergy =
-    cost.variable?.type === "energy" ? cost.variable.multiplier * xValue : 0;
-  const base =
-    cost.energy +
-    variableEnergy +
-    getEnergyCostAdjustment(member) +
-    (cardInstance?.costAdjustment ?? 0) +
-    followUpAdjustment;
-  return Math.max(0, base);
-};
-
-const canAffordWithAdjustments = (
-  team: Team,
-  member: TeamMember,
-  cost: ReturnType<typeof parseCost>,
-  xValue: number,
-  cardInstance?: CardInstance,
-  followUpAdjustment = 0
-) => {
-  const energyCost = getAdjustedEnergyCost(
-    member,
-    cost,
-    xValue,
-    cardInstance,
-    followUpAdjustment
-  );
-  const variableUltimate =
-    cost.variable?.type === "ultimate" ? cost.variable.multiplier * xValue : 0;
-  const ultimateCost = Math.max(0, cost.ultimate + variableUltimate);
-  return team.energy >= energyCost && team.ultimate >= ultimateCost;
-};
-
-const getMaxX = (
-  team: Team,
-  member: TeamMember,
-  cost: ReturnType<typeof parseCost>,
-  cardInstance?: CardInstance,
-  followUpAdjustment = 0
-) => {
-  if (!cost.variable) return 0;
-  const ultimateBase = Math.max(0, cost.ultimate);
-  const available =
-    cost.variable.type === "energy"
-      ? team.energy -
-        Math.max(
-          0,
-          cost.energy +
-            getEnergyCostAdjustment(member) +
-            (cardInstance?.costAdjustment ?? 0) +
-            followUpAdjustment
-        )
-      : team.ultimate - ultimateBase;
-  if (available <= 0) return 0;
-  return Math.floor(available / cost.variable.multiplier);
-};
-
 const formatRoles = (roles: string[]) =>
   roles.map((role) => role.replace("role-", "")).join(", ");
 
@@ -360,8 +458,6 @@ const formatStatusList = (statuses: TeamMember["statuses"]) =>
     })
     .filter((entry): entry is [string, string] => entry !== null);
 
-const zoneRank: Record<ZoneName, number> = { slow: 0, normal: 1, fast: 2 };
-
 const zoneLabel = (zone: ZoneName) => zone.charAt(0).toUpperCase() + zone.slice(1);
 
 type StackLifecycle = {
@@ -389,70 +485,6 @@ const getStackLifecycleTag = (
   return { label: "Queued", tone: "queued" };
 };
 
-const getLegalZonesForSpeed = (speed: string): ZoneName[] => {
-  const normalized = speed.trim().toLowerCase();
-  if (normalized.includes("fast")) return ["fast", "normal", "slow"];
-  if (normalized.includes("normal")) return ["normal", "slow"];
-  return ["slow"];
-};
-
-const getSpeedShift = (member: TeamMember) => {
-  const haste = Math.min(2, getStatusStat(member, "Haste", "potency"));
-  const slow = Math.min(2, getStatusStat(member, "Slow", "potency"));
-  return Math.max(-2, Math.min(2, haste - slow));
-};
-
-const getEffectiveSpeed = (
-  speed: string,
-  member: TeamMember
-) => {
-  const shift = getSpeedShift(member);
-  if (shift === 0) return speed;
-  const normalized = speed.trim().toLowerCase();
-  const order = ["slow", "normal", "fast"];
-  const labels = ["Slow", "Normal", "Fast"];
-  const index = order.findIndex((entry) => normalized.includes(entry));
-  if (index === -1) return speed;
-  const nextIndex = Math.max(0, Math.min(order.length - 1, index + shift));
-  return labels[nextIndex];
-};
-
-const getXRangeFromText = (card: Card) => {
-  for (const line of card.effect) {
-    const match = line.match(/Choose X\s*\((\d+)\s*-\s*(\d+)\)/i);
-    if (match) {
-      const min = Number(match[1]);
-      const max = Number(match[2]);
-      if (!Number.isNaN(min) && !Number.isNaN(max)) {
-        return { min, max };
-      }
-    }
-    const spendMatch = line.match(/You may spend X\s*[^()]*\((\d+)\s*-\s*(\d+)\)/i);
-    if (spendMatch) {
-      const min = Number(spendMatch[1]);
-      const max = Number(spendMatch[2]);
-      if (!Number.isNaN(min) && !Number.isNaN(max)) {
-        return { min, max };
-      }
-    }
-    const spendUpToMatch = line.match(/You may spend up to\s+(\d+)/i);
-    if (spendUpToMatch) {
-      const max = Number(spendUpToMatch[1]);
-      if (!Number.isNaN(max)) {
-        return { min: 0, max };
-      }
-    }
-    const spendFixedMatch = line.match(/You may spend\s+(\d+)\b/i);
-    if (spendFixedMatch) {
-      const max = Number(spendFixedMatch[1]);
-      if (!Number.isNaN(max)) {
-        return { min: 0, max };
-      }
-    }
-  }
-  return null;
-};
-
 const getFollowUpCostAdjustment = (card: Card) => {
   for (const line of card.effect) {
     const match = line.match(/On Follow-Up:\s*([+-]\d+)\s+Energy Cost/i);
@@ -493,31 +525,61 @@ const getPendingWindow = (state: MatchState): PendingWindowContext | null => {
   };
 };
 
-const getPlayableZones = (
-  card: Card,
-  state: MatchState,
-  member: TeamMember
-): ZoneName[] => {
-  const effectiveSpeed = getEffectiveSpeed(card.speed, member);
-  const legal = getLegalZonesForSpeed(effectiveSpeed);
-  const pendingWindow = getPendingWindow(state);
-  if (pendingWindow) {
-    return legal.includes(pendingWindow.zone) ? [pendingWindow.zone] : [];
+type PlayCardAction = Extract<Action, { type: "play_card" }>;
+
+const getCardPlayActions = (
+  actions: Action[],
+  sourceId: MatchCharacterId,
+  cardSlot: string,
+  cardInstanceId?: string
+) =>
+  actions.filter(
+    (action): action is PlayCardAction =>
+      action.type === "play_card" &&
+      (cardInstanceId
+        ? action.cardInstanceId === cardInstanceId
+        : !action.cardInstanceId && action.sourceId === sourceId && action.cardSlot === cardSlot)
+  );
+
+const formatAmountRange = (min: number, max: number) =>
+  min === max ? `${max}` : `${min}–${max}`;
+
+const describeDamagePreview = ({ name, min, max }: DamagePreviewTarget) => {
+  if (max.blocked) {
+    return `Expected: 0 to ${name} (${max.blocked === "immune" ? "Immune" : "Invulnerable"})`;
   }
-  if (!state.activeZone) return legal;
-  return legal.filter(
-    (zone) => zone === state.activeZone || zoneRank[zone] > zoneRank[state.activeZone!]
+  const notes = [
+    max.shield > 0 && `Shield absorbs ${formatAmountRange(min.shield, max.shield)}`,
+    max.barrier > 0 && `Barrier absorbs ${formatAmountRange(min.barrier, max.barrier)}`,
+    max.modifier !== 0 &&
+      `${max.modifier > 0 ? "Vulnerable +" : "Fortified "}${formatAmountRange(min.modifier, max.modifier)}`,
+    max.resisted > 0 && `Resist ${formatAmountRange(min.resisted, max.resisted)}`,
+    max.absorbed > 0 && `Absorb ${formatAmountRange(min.absorbed, max.absorbed)}`,
+    max.weakness > 0 && `Weakness +${formatAmountRange(min.weakness, max.weakness)}`,
+  ].filter(Boolean);
+  const range = formatAmountRange(
+    min.shield + min.barrier + min.hpLoss,
+    max.shield + max.barrier + max.hpLoss
   );
+  return `Expected: ${range} to ${name}${notes.length ? ` (${notes.join(", ")})` : ""}`;
 };
 
-const getCardKeywords = (card: Card) => {
-  const flags = { followUp: false, assistAttack: false };
-  card.effect.forEach((line) => {
-    const normalized = line.trim().replace(/\.$/, "").toLowerCase();
-    if (normalized === "follow-up") flags.followUp = true;
-    if (normalized === "assist attack") flags.assistAttack = true;
-  });
-  return flags;
+const formatChance = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeClashOdds = ({ left, right, chance, outcomes }: ClashPrediction) => {
+  const pairing = left ? `${right?.cardName ?? "Card"} vs ${left.cardName}` : right?.cardName ?? "Card";
+  const parts = [
+    outcomes.attack_right && `${right?.cardName ?? "Right"} wins ${formatChance(outcomes.attack_right)}`,
+    outcomes.attack_tie && `Draw ${formatChance(outcomes.attack_tie)}`,
+    outcomes.attack_left && `${left?.cardName ?? "Left"} wins ${formatChance(outcomes.attack_left)}`,
+    outcomes.attack_vs_defense && "Attack vs Defense",
+    outcomes.defense_vs_defense && "Guarding",
+    outcomes.opposed && "Opposed",
+    outcomes.same_team && "Chain Resolve",
+    outcomes.single && "Unopposed",
+  ].filter(Boolean);
+  const reached = chance < 1 ? ` (${formatChance(chance)} to occur)` : "";
+  return `${pairing}${reached}: ${parts.join(" · ")}`;
 };
 
 const getTextChoiceOptions = (card: Card) => {
@@ -557,6 +619,15 @@ const getActiveEffectLines = (card: Card, choiceIndex: number) => {
   });
 };
 
+const findActiveEffect = <T extends Effect["type"]>(card: Card, choiceIndex: number, type: T) => {
+  const effects = card.effects ?? [];
+  const chosen = effects.flatMap((effect) =>
+    effect.type === "choose" ? effect.options[choiceIndex]?.effects ?? [] : []
+  );
+  const effect = [...effects, ...chosen].find((item) => item.type === type);
+  return (effect ?? null) as Extract<Effect, { type: T }> | null;
+};
+
 const parseScryCount = (lines: string[], xValue: number) => {
   for (const line of lines) {
     const match = normalizeText(line).match(/Scry\s+(\d+|X)/i);
@@ -580,7 +651,7 @@ const parseSeekInfo = (lines: string[], xValue: number) => {
     const takeRaw = parts[1]?.trim();
     const take = takeRaw ? Number(takeRaw) : 1;
     if (!criteria || Number.isNaN(take)) continue;
-    return { count, criteria, take };
+    return { count, criteria: parseCardCriteria(criteria), take };
   }
   return null;
 };
@@ -590,7 +661,7 @@ const parseSearchCriteria = (lines: string[]) => {
     const match = normalizeText(line).match(/Search(?:\s+your\s+draw\s+pile)?\s+for\s+(.+)/i);
     if (!match) continue;
     const criteria = match[1].trim().replace(/\.$/, "");
-    return criteria || null;
+    return criteria ? parseCardCriteria(criteria) : null;
   }
   return null;
 };
@@ -631,36 +702,6 @@ const getTopCards = (deck: CardInstance[], count: number) => {
   return deck.slice(Math.max(0, deck.length - count)).reverse();
 };
 
-const matchesSearchCriteria = (card: Card, criteria: string) => {
-  const normalized = normalizeText(criteria).toLowerCase();
-  const nameMatch = normalized.match(/named\s+(.+)/i) ?? normalized.match(/"([^"]+)"/);
-  const nameCriteria = nameMatch ? normalizeText(nameMatch[1]).toLowerCase() : null;
-  if (nameCriteria) {
-    return normalizeText(card.name).toLowerCase() === nameCriteria;
-  }
-
-  const tagKeys = [
-    "basic",
-    "technique",
-    "ultimate",
-    "attack",
-    "defense",
-    "special",
-    "physical",
-    "magical",
-    "melee",
-    "ranged",
-  ];
-  const tags = tagKeys.filter((tag) => normalized.includes(tag));
-  if (tags.length) {
-    return tags.every((tag) => card.types.some((type) => type.toLowerCase() === tag));
-  }
-
-  const cleaned = normalized.replace(/\b(a|an|the|card|cards)\b/g, "").trim();
-  if (!cleaned) return true;
-  return normalizeText(card.name).toLowerCase().includes(cleaned);
-};
-
 const parseCoverScope = (statusName: string) => {
   const normalized = normalizeText(statusName).toLowerCase();
   return normalized.includes("adjacent") ? "adjacent" : "all";
@@ -730,7 +771,7 @@ const buildRedirectOptions = (
     }
   }
 
-  const spec = parseRedirectSpec(lines);
+  const spec = findActiveEffect(card, choiceIndex, "redirect")?.to ?? parseRedirectSpec(lines);
   if (spec) {
     const candidates = getRedirectSpecTargets(state, sourceId, targetId, spec);
     candidates.forEach((candidate) => {
@@ -762,7 +803,8 @@ const buildScryState = (
   previous?: ScryState | null
 ) => {
   const lines = getActiveEffectLines(card, choiceIndex);
-  const count = parseScryCount(lines, xValue);
+  const scry = findActiveEffect(card, choiceIndex, "scry");
+  const count = scry ? resolveEffectScalar(scry.count, xValue) : parseScryCount(lines, xValue);
   if (!count || count <= 0) return null;
   const teamId = getTeamIdFromMatchCharacterId(sourceId);
   if (!teamId) return null;
@@ -788,7 +830,14 @@ const buildSeekState = (
   previous?: SeekState | null
 ) => {
   const lines = getActiveEffectLines(card, choiceIndex);
-  const seek = parseSeekInfo(lines, xValue);
+  const seekEffect = findActiveEffect(card, choiceIndex, "seek");
+  const seek = seekEffect
+    ? {
+        count: resolveEffectScalar(seekEffect.count, xValue),
+        criteria: seekEffect.criteria,
+        take: seekEffect.take ?? 1,
+      }
+    : parseSeekInfo(lines, xValue);
   if (!seek || seek.count <= 0) return null;
   const teamId = getTeamIdFromMatchCharacterId(sourceId);
   if (!teamId) return null;
@@ -806,13 +855,14 @@ const buildSearchState = (
   previous?: SearchState | null
 ) => {
   const lines = getActiveEffectLines(card, choiceIndex);
-  const criteria = parseSearchCriteria(lines);
+  const criteria =
+    findActiveEffect(card, choiceIndex, "search")?.criteria ?? parseSearchCriteria(lines);
   if (!criteria) return null;
   const teamId = getTeamIdFromMatchCharacterId(sourceId);
   if (!teamId) return null;
   const instances = state.players[teamId].deck.filter((instance) => {
     const found = getCardByInstance(instance);
-    return found ? matchesSearchCriteria(found, criteria) : false;
+    return found ? matchesCardCriteria(found, criteria) : false;
   });
   const grouped = new Map<string, { id: string; label: string; count: number }>();
   instances.forEach((instance) => {
@@ -850,7 +900,8 @@ const needsPushDirection = (
   choiceIndex: number
 ) => {
   const lines = getActiveEffectLines(card, choiceIndex);
-  const amount = parsePushAmount(lines, xValue);
+  const push = findActiveEffect(card, choiceIndex, "push");
+  const amount = push ? resolveEffectScalar(push.amount, xValue) : parsePushAmount(lines, xValue);
   if (!amount || amount <= 0) return false;
   const sourceEntry = getMemberById(state, sourceId);
   const targetEntry = getMemberById(state, targetId);
@@ -858,52 +909,6 @@ const needsPushDirection = (
   return sourceEntry.member.position === targetEntry.member.position;
 };
 
-const canReactAfterUse = (
-  state: MatchState,
-  card: Card,
-  sourceId: MatchCharacterId
-) => {
-  const pendingWindow = getPendingWindow(state);
-  if (!pendingWindow || pendingWindow.type !== "after_use") return false;
-  const window = state.afterUseWindow;
-  if (!window || window.validForAction !== state.actionId + 1) return false;
-  const teamId = getTeamIdFromMatchCharacterId(sourceId);
-  if (!teamId || teamId !== pendingWindow.playerId) return false;
-  const ownerEntry = getMemberById(state, sourceId);
-  if (!ownerEntry || ownerEntry.member.defeated) return false;
-  const zones = getPlayableZones(card, state, ownerEntry.member);
-  if (!zones.length) return false;
-  const flags = getCardKeywords(card);
-  let followUpAllowed = flags.followUp;
-  if (!followUpAllowed) {
-    const lastUsed = getMemberById(state, window.lastUsedCharacterId);
-    const timeStop = lastUsed
-      ? isStatusActive(lastUsed.member.statuses["The World: Time Stop"])
-      : false;
-    if (timeStop && card.types.some((type) => type.toLowerCase() === "attack")) {
-      followUpAllowed = true;
-    }
-  }
-  if (followUpAllowed && window.lastUsedCharacterId === sourceId) return true;
-  if (flags.assistAttack && window.lastUsedCharacterId !== sourceId) return true;
-  return false;
-};
-
-const canReactCounter = (state: MatchState, card: Card, sourceId: MatchCharacterId) => {
-  const pendingWindow = getPendingWindow(state);
-  if (!pendingWindow || pendingWindow.type !== "counter") return false;
-  const teamId = getTeamIdFromMatchCharacterId(sourceId);
-  if (!teamId || teamId !== pendingWindow.playerId) return false;
-  const ownerEntry = getMemberById(state, sourceId);
-  if (!ownerEntry || ownerEntry.member.defeated) return false;
-  const zones = getPlayableZones(card, state, ownerEntry.member);
-  if (!zones.length) return false;
-  const targetId = pendingWindow.counterTargetId;
-  if (!targetId) return false;
-  const legalTargets = getLegalTargets(card, sourceId, state, roster);
-  return legalTargets.includes(targetId);
-};
-
 const getReactivePlayers = (state: MatchState) => {
   const pendingWindow = getPendingWindow(state);
   return pendingWindow ? [pendingWindow.playerId] : [];
@@ -947,12 +952,11 @@ type LogGroup = {
 type CombatPlaybackPhase = "pairing" | "roll" | "impact" | "result";
 
 type CombatLogEvent = {
-  kind: "damage" | "shield" | "heal" | "overpower" | "cancelled" | "negate";
-  source?: string;
-  target?: string;
+  kind: "damage" | "shield" | "heal" | "cancelled" | "negate";
+  targetId?: MatchCharacterId;
   amount?: number;
-  cardNames?: string[];
-  line: string;
+  characterIds: MatchCharacterId[];
+  entryId?: string;
 };
 
 type CombatPlayback = {
@@ -1040,62 +1044,47 @@ const groupLogEntries = (entries: string[]): LogGroup[] => {
   return groups;
 };
 
-const parseCombatLogEvent = (line: string): CombatLogEvent | null => {
-  const dealMatch = line.match(/^(.+?) deals (\d+) damage to (.+?)\.$/);
-  if (dealMatch) {
-    const [, source, amount, target] = dealMatch;
-    return { kind: "damage", source, target, amount: Number(amount), line };
-  }
-  const takeMatch = line.match(/^(.+?) takes (\d+) damage from (.+?)\.$/);
-  if (takeMatch) {
-    const [, target, amount, source] = takeMatch;
-    return { kind: "damage", source, target, amount: Number(amount), line };
-  }
-  const healMatch = line.match(/^(.+?) heals (\d+) HP(?: from (.+?))?\.$/);
-  if (healMatch) {
-    const [, target, amount, source] = healMatch;
-    return { kind: "heal", source, target, amount: Number(amount), line };
-  }
-  const shieldMatch = line.match(/^(.+?) gains (\d+) shield\.$/);
-  if (shieldMatch) {
-    const [, target, amount] = shieldMatch;
-    return { kind: "shield", target, amount: Number(amount), line };
-  }
-  const overpowerMatch = line.match(/^(.+?) overpowers (.+?)\.$/);
-  if (overpowerMatch) {
-    const [, winner, loser] = overpowerMatch;
-    return { kind: "overpower", cardNames: [winner, loser], line };
-  }
-  const clashMatch = line.match(/^(.+?) and (.+?) clash and are both cancelled\.$/);
-  if (clashMatch) {
-    const [, left, right] = clashMatch;
-    return { kind: "cancelled", cardNames: [left, right], line };
-  }
-  const negateMatch = line.match(/^(.+?) negates (.+?)\.$/);
-  if (negateMatch) {
-    const [, source, target] = negateMatch;
-    return { kind: "negate", cardNames: [source, target], line };
+const toCombatLogEvent = (event: MatchEvent): CombatLogEvent | null => {
+  switch (event.type) {
+    case "damage":
+      return {
+        kind: "damage",
+        targetId: event.targetId,
+        amount: event.amount,
+        characterIds: event.sourceId ? [event.sourceId, event.targetId] : [event.targetId],
+      };
+    case "heal":
+    case "shield":
+      return {
+        kind: event.type,
+        targetId: event.targetId,
+        amount: event.amount,
+        characterIds: [event.targetId],
+      };
+    case "card_cancelled":
+    case "card_negated":
+      return {
+        kind: event.type === "card_cancelled" ? "cancelled" : "negate",
+        characterIds: [event.sourceId],
+        entryId: event.entryId,
+      };
+    default:
+      return null;
   }
-  return null;
 };
 
-const getStepMatchNames = (
-  state: MatchState,
-  step: CombatResolution["steps"][number]
-) => {
-  const names = new Set<string>();
-  const cardNames = new Set<string>();
+const getStepMatchIds = (step: CombatResolution["steps"][number]) => {
+  const characterIds = new Set<MatchCharacterId>();
+  const entryIds = new Set<string>();
   const addEntry = (entry?: CombatResolution["steps"][number]["left"]) => {
     if (!entry) return;
-    cardNames.add(entry.cardName);
-    const source = getMemberById(state, entry.sourceId);
-    if (source) names.add(source.member.name);
-    const target = getMemberById(state, entry.targetId);
-    if (target) names.add(target.member.name);
+    entryIds.add(entry.id);
+    characterIds.add(entry.sourceId);
+    characterIds.add(entry.targetId);
   };
   addEntry(step.left);
   addEntry(step.right);
-  return { names, cardNames };
+  return { characterIds, entryIds };
 };
 
 const buildCombatStepEvents = (
@@ -1103,21 +1092,17 @@ const buildCombatStepEvents = (
   resolution: CombatResolution
 ) => {
   const stepEvents = resolution.steps.map(() => [] as CombatLogEvent[]);
-  const events = state.log
-    .slice(resolution.logStart, resolution.logEnd)
-    .map((line) => parseCombatLogEvent(line))
+  const events = state.events
+    .slice(resolution.eventStart, resolution.eventEnd)
+    .map((event) => toCombatLogEvent(event))
     .filter((entry): entry is CombatLogEvent => Boolean(entry));
   let cursor = 0;
   events.forEach((event) => {
     for (let index = cursor; index < resolution.steps.length; index += 1) {
-      const step = resolution.steps[index];
-      const { names, cardNames } = getStepMatchNames(state, step);
-      const cardMatch =
-        event.cardNames?.some((name) => cardNames.has(name)) ?? false;
-      const nameMatch =
-        (event.source && names.has(event.source)) ||
-        (event.target && names.has(event.target));
-      if (cardMatch || nameMatch) {
+      const { characterIds, entryIds } = getStepMatchIds(resolution.steps[index]);
+      const entryMatch = event.entryId ? entryIds.has(event.entryId) : false;
+      const characterMatch = event.characterIds.some((id) => characterIds.has(id));
+      if (entryMatch || characterMatch) {
         stepEvents[index].push(event);
         cursor = index;
         return;
@@ -1177,21 +1162,6 @@ const getStatusTurnEnd = (status: StatusEffectDefinition) => {
   return turnEndRules.join(" / ");
 };
 
-const getStatusPrimaryValue = (
-  member: TeamMember,
-  status: string,
-  lookup: Map<string, StatusDisplayInfo>
-) => {
-  const state = member.statuses[status];
-  if (!state) return 0;
-  const primaryStat = lookup.get(normalizeKey(status))?.primaryStat ?? "value";
-  if (primaryStat === "potency") {
-    return state.potency > 0 && state.count > 0 ? state.potency : 0;
-  }
-  if (primaryStat === "stack") return state.stack;
-  return state.value;
-};
-
 type SoundEffect =
   | "click"
   | "confirm"
@@ -1517,47 +1487,65 @@ const App = () => {
     return map;
   }, [statusEffects]);
   const [matchState, setMatchState] = useState<MatchState | null>(null);
+  const legalActions = useMemo<Record<PlayerId, Action[]> | null>(
+    () =>
+      matchState
+        ? {
+            p1: getLegalActions(matchState, "p1", roster),
+            p2: getLegalActions(matchState, "p2", roster),
+          }
+        : null,
+    [matchState]
+  );
+  const damagePreviews = useMemo(() => {
+    const previews = new Map<string, string[]>();
+    if (!matchState || !legalActions) return previews;
+    const seen = new Set<string>();
+    [...legalActions.p1, ...legalActions.p2].forEach((action) => {
+      if (action.type !== "play_card" || !action.cardInstanceId) return;
+      const key = `${action.cardInstanceId}:${action.targetId ?? ""}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      const preview = previewPlayDamage(matchState, action, roster);
+      if (!preview) return;
+      const lines = previews.get(action.cardInstanceId) ?? [];
+      preview.targets.forEach((target) => {
+        const line = describeDamagePreview(target);
+        if (!lines.includes(line)) lines.push(line);
+      });
+      if (lines.length) previews.set(action.cardInstanceId, lines);
+    });
+    return previews;
+  }, [legalActions, matchState]);
+  const clashPredictions = useMemo(() => {
+    const predictions: Partial<Record<ZoneName, string[]>> = {};
+    if (!matchState) return predictions;
+    (["fast", "normal", "slow"] as ZoneName[]).forEach((zone) => {
+      if (matchState.zones[zone].cards.length < 2) return;
+      predictions[zone] = predictZoneResolution(matchState, zone, roster)
+        .filter((prediction) => prediction.left)
+        .map(describeClashOdds);
+    });
+    return predictions;
+  }, [matchState]);
   const resolveCardForDisplay = useCallback(
     (card: Card, sourceId: MatchCharacterId, targetId?: MatchCharacterId) => {
       if (!matchState || !card.transforms?.length) return card;
       const sourceEntry = getMemberById(matchState, sourceId);
       if (!sourceEntry) return card;
-      const targetEntry = targetId ? getMemberById(matchState, targetId) : null;
       const character = getCharacter(roster, sourceEntry.member.characterId);
       if (!character) return card;
       let resolved = card;
 
       card.transforms.forEach((transform) => {
-        const condition = transform.condition;
-        let shouldTransform = false;
-        if (!condition) {
-          shouldTransform = true;
-        } else {
-          switch (condition.kind) {
-            case "self_has_status":
-              shouldTransform =
-                getStatusPrimaryValue(sourceEntry.member, condition.status, statusDetails) >=
-                (condition.min ?? 1);
-              break;
-            case "self_missing_status":
-              shouldTransform =
-                getStatusPrimaryValue(sourceEntry.member, condition.status, statusDetails) <= 0;
-              break;
-            case "target_has_status":
-              if (!targetEntry) return;
-              shouldTransform =
-                getStatusPrimaryValue(targetEntry.member, condition.status, statusDetails) >=
-                (condition.min ?? 1);
-              break;
-            case "target_missing_status":
-              if (!targetEntry) return;
-              shouldTransform =
-                getStatusPrimaryValue(targetEntry.member, condition.status, statusDetails) <= 0;
-              break;
-            default:
-              return;
-          }
-        }
+        if (!targetId && conditionNeedsTarget(transform.condition)) return;
+        const shouldTransform = isEffectConditionMet(
+          matchState,
+          transform.condition,
+          sourceId,
+          targetId ?? sourceId,
+          roster
+        );
         if (!shouldTransform) return;
         const replacement = getCardBySlot(character, transform.cardSlot);
         if (replacement) {
@@ -1567,14 +1555,25 @@ const App = () => {
 
       return resolved;
     },
-    [matchState, statusDetails]
+    [matchState]
   );
   const [stage, setStage] = useState<Stage>("setup");
+  const [replay, setReplay] = useState<ReplaySession | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [undoNeedsConfirm, setUndoNeedsConfirm] = useState(false);
+  const [pendingUndo, setPendingUndo] = useState<PlayerId | null>(null);
+  const [storedMatch, setStoredMatch] = useState<SavedMatch | null>(getStoredMatch);
   const [names, setNames] = useState({ p1: "Player 1", p2: "Player 2" });
+  const [seatControllers, setSeatControllers] = useState<Record<PlayerId, SeatController>>({
+    p1: "human",
+    p2: "human",
+  });
   const [selection, setSelection] = useState<SelectionState>(defaultSelection);
   const [relayUrl, setRelayUrl] = useState(defaultRelayUrl);
   const [relayName, setRelayName] = useState("Player 1");
   const [relayStatus, setRelayStatus] = useState<RelayConnectionStatus>("idle");
+  const [reconnectTick, setReconnectTick] = useState(0);
   const [lobbyCode, setLobbyCode] = useState("");
   const [lobby, setLobby] = useState<RelayLobbySnapshot | null>(null);
   const [message, setMessage] = useState<string | null>(null);
@@ -1593,13 +1592,20 @@ const App = () => {
     pile: PileType;
   } | null>(null);
   const sound = useSoundEffects(soundEnabled, soundVolume);
-  const clientIdRef = useRef(getStoredClientId());
+  const [clientId, setClientId] = useState("");
+  const clientIdRef = useRef(clientId);
   const socketRef = useRef<WebSocket | null>(null);
   const lobbyRef = useRef<RelayLobbySnapshot | null>(null);
   const selectionRef = useRef(selection);
   const namesRef = useRef(names);
   const matchStateRef = useRef<MatchState | null>(null);
+  const aiWorkerRef = useRef<Worker | null>(null);
+  const aiRequestRef = useRef<AiRequest | null>(null);
+  const remoteViewRef = useRef<MatchState | null>(null);
+  const spectatorViewRef = useRef<MatchState | null>(null);
   const syncRequestedRef = useRef(false);
+  const manualCloseRef = useRef(false);
+  const reconnectAttemptsRef = useRef(0);
   const winnerRef = useRef<string | null>(null);
   const deckCountsRef = useRef<Record<PlayerId, number>>({ p1: 0, p2: 0 });
   const logIndexRef = useRef(0);
@@ -1616,12 +1622,17 @@ const App = () => {
     setMessage(text);
     sound.play("error");
   };
-  const clientId = clientIdRef.current;
   const isConnected = relayStatus === "connected";
   const isMultiplayer = Boolean(lobby);
   const isHost = lobby?.hostId === clientId;
-  const localSeat = isMultiplayer ? (isHost ? "p1" : "p2") : null;
-  const hasRemotePlayer = (lobby?.players.length ?? 0) > 1;
+  const isAuthoritative = Boolean(lobby?.authoritative);
+  const localSeat = lobby ? getLobbySeat(lobby, clientId) : null;
+  const isSpectator = Boolean(
+    lobby?.players.find((player) => player.id === clientId)?.spectator
+  );
+  const hasRemotePlayer =
+    (lobby?.players.filter((player) => !player.spectator).length ?? 0) > 1;
+  const lobbyRole = isHost ? "Host" : isSpectator ? "Spectator" : "Guest";
   useEffect(() => {
     selectionRef.current = selection;
   }, [selection]);
@@ -1635,6 +1646,18 @@ const App = () => {
   useEffect(() => {
     matchStateRef.current = matchState;
   }, [matchState]);
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (stage !== "match" || lobby || !matchState?.transcript) return;
+    if (matchState.phase === "finished") {
+      window.localStorage.removeItem(savedMatchStorageKey);
+      return;
+    }
+    window.localStorage.setItem(
+      savedMatchStorageKey,
+      JSON.stringify(createSavedMatch(matchState.transcript, seatControllers))
+    );
+  }, [lobby, matchState, seatControllers, stage]);
   useEffect(() => {
     lobbyRef.current = lobby;
   }, [lobby]);
@@ -1686,6 +1709,44 @@ const App = () => {
     },
     [isHost, isMultiplayer, sendRelay]
   );
+  const sendMatchView = useCallback(
+    (state: MatchState, options?: { full?: boolean; setup?: SetupSyncPayload }) => {
+      const lobbySnapshot = lobbyRef.current;
+      if (!lobbySnapshot || lobbySnapshot.hostId !== clientIdRef.current) return;
+      const sendView = (
+        view: MatchState,
+        previous: MatchState | null,
+        audience: "players" | "spectators"
+      ) => {
+        if (previous && !options?.full) {
+          sendRelay({
+            type: "game_event",
+            event: "state_patch",
+            data: { patch: createStatePatch(previous, view) },
+            audience,
+          });
+          return;
+        }
+        sendRelay({
+          type: "game_event",
+          event: "state_update",
+          data: { state: view, ...options?.setup },
+          audience,
+        });
+      };
+      const view = getRemoteView(state, lobbySnapshot, clientIdRef.current);
+      sendView(view, remoteViewRef.current, "players");
+      remoteViewRef.current = view;
+      if (!lobbySnapshot.players.some((player) => player.spectator)) {
+        spectatorViewRef.current = null;
+        return;
+      }
+      const spectatorView = projectMatchState(state, null);
+      sendView(spectatorView, spectatorViewRef.current, "spectators");
+      spectatorViewRef.current = spectatorView;
+    },
+    [sendRelay]
+  );
   const requestSelectionUpdate = useCallback(
     (playerId: PlayerId, selectionUpdate: string[], nameUpdate: string) => {
       if (!isMultiplayer || isHost) return;
@@ -1730,13 +1791,25 @@ const App = () => {
       const result = applyAction(currentState, action, roster);
       matchStateRef.current = result.state;
       setMatchState(result.state);
-      if (lobbyRef.current && lobbyRef.current.hostId === clientIdRef.current) {
-        sendRelay({ type: "game_event", event: "state_update", data: { state: result.state } });
+      if (!lobbyRef.current && !result.error) {
+        setUndoStack((prev) =>
+          [
+            ...prev,
+            { actionId: currentState.actionId, playerId: action.playerId, state: currentState },
+          ].slice(-undoHistoryLimit)
+        );
+        setRedoStack([]);
+        setPendingUndo(null);
+      }
+      const lobbySnapshot = lobbyRef.current;
+      if (lobbySnapshot && lobbySnapshot.hostId === clientIdRef.current) {
+        sendMatchView(result.state);
         if (result.error) {
           sendRelay({
             type: "game_event",
             event: "action_error",
             data: { message: result.error },
+            audience: "players",
           });
         }
       }
@@ -1768,11 +1841,12 @@ const App = () => {
       }
       winnerRef.current = winnerId;
     },
-    [reportMessage, sendRelay, sound]
+    [reportMessage, sendMatchView, sendRelay, sound]
   );
   const dispatchAction = useCallback(
     (action: Parameters<typeof applyAction>[1]) => {
-      if (isMultiplayer && localSeat && action.playerId !== localSeat) {
+      if (stage === "replay") return;
+      if (isMultiplayer && action.playerId !== localSeat) {
         reportMessage("Not your team.");
         return;
       }
@@ -1780,24 +1854,39 @@ const App = () => {
         applyActionAndSync(action);
         return;
       }
-      if (isHost) {
+      if (isHost && !isAuthoritative) {
         applyActionAndSync(action);
         return;
       }
       sendRelay({ type: "game_event", event: "action_request", data: { action } });
     },
-    [applyActionAndSync, isHost, isMultiplayer, localSeat, reportMessage, sendRelay]
+    [applyActionAndSync, isAuthoritative, isHost, isMultiplayer, localSeat, reportMessage, sendRelay, stage]
   );
   const canEditSetup = (playerId: PlayerId) => {
     if (!isMultiplayer) return true;
+    if (isSpectator) return false;
     if (!hasRemotePlayer) return true;
     return localSeat === playerId;
   };
-  const canControlPlayer = (playerId: PlayerId) => !isMultiplayer || localSeat === playerId;
+  const isComputerSeat = (playerId: PlayerId) =>
+    !isMultiplayer && seatControllers[playerId] !== "human";
+  const canControlPlayer = (playerId: PlayerId) =>
+    stage !== "replay" &&
+    (!isMultiplayer || localSeat === playerId) &&
+    !isComputerSeat(playerId);
+  const spectatorCount = lobby?.players.filter((player) => player.spectator).length ?? 0;
+  const disconnectedPlayers = (lobby?.players ?? []).filter(
+    (player) => player.connected === false && !player.spectator
+  );
+  const reconnectingLabel = disconnectedPlayers.length
+    ? `Waiting for ${disconnectedPlayers.map((player) => player.name).join(", ")} to reconnect...`
+    : null;
   const relayStatusLabel =
     relayStatus === "connecting"
       ? "Connecting"
-      : relayStatus === "connected"
+      : relayStatus === "reconnecting"
+        ? "Reconnecting"
+        : relayStatus === "connected"
         ? isMultiplayer
           ? "In Lobby"
           : "Connected"
@@ -1805,7 +1894,7 @@ const App = () => {
   const handleRelayEvent = useCallback(
     (message: RelayEventMessage) => {
       if (message.type === "lobby_event") {
-        if (message.event === "return_to_lobby" && message.from !== clientId) {
+        if (message.event === "return_to_lobby" && message.from !== clientIdRef.current) {
           setMatchState(null);
           setStage("setup");
           setPendingPlay(null);
@@ -1851,7 +1940,7 @@ const App = () => {
       }
 
       if (message.event === "state_update") {
-        if (message.from === clientId) return;
+        if (message.from === clientIdRef.current) return;
         const data = message.data as
           | { state?: MatchState; selection?: SelectionState; names?: { p1: string; p2: string } }
           | undefined;
@@ -1871,18 +1960,37 @@ const App = () => {
         return;
       }
 
+      if (message.event === "state_patch") {
+        if (message.from === clientIdRef.current) return;
+        const data = message.data as { patch?: StatePatch } | undefined;
+        if (!data?.patch) return;
+        const current = matchStateRef.current;
+        const result = current ? applyStatePatch(current, data.patch) : null;
+        if (!result || result.error) {
+          sendRelay({ type: "game_event", event: "sync_request", data: {} });
+          return;
+        }
+        matchStateRef.current = result.state;
+        setMatchState(result.state);
+        setStage("match");
+        setPendingPlay(null);
+        setMessage(null);
+        return;
+      }
+
       if (message.event === "action_request") {
         const lobbySnapshot = lobbyRef.current;
         if (!lobbySnapshot || lobbySnapshot.hostId !== clientIdRef.current) return;
         const data = message.data as { action?: Parameters<typeof applyAction>[1] } | undefined;
         if (!data?.action) return;
         if (message.from) {
-          const seat = message.from === lobbySnapshot.hostId ? "p1" : "p2";
+          const seat = getLobbySeat(lobbySnapshot, message.from);
           if (data.action.playerId && data.action.playerId !== seat) {
             sendRelay({
               type: "game_event",
               event: "action_error",
               data: { message: "Not your team." },
+              audience: "players",
             });
             return;
           }
@@ -1892,6 +2000,7 @@ const App = () => {
             type: "game_event",
             event: "action_error",
             data: { message: "Match is not running." },
+            audience: "players",
           });
           return;
         }
@@ -1903,14 +2012,9 @@ const App = () => {
         const lobbySnapshot = lobbyRef.current;
         if (!lobbySnapshot || lobbySnapshot.hostId !== clientIdRef.current) return;
         if (matchStateRef.current) {
-          sendRelay({
-            type: "game_event",
-            event: "state_update",
-            data: {
-              state: matchStateRef.current,
-              selection: selectionRef.current,
-              names: namesRef.current,
-            },
+          sendMatchView(matchStateRef.current, {
+            full: true,
+            setup: { selection: selectionRef.current, names: namesRef.current },
           });
         } else {
           sendRelay({
@@ -1923,14 +2027,21 @@ const App = () => {
       }
 
       if (message.event === "action_error") {
-        if (message.from === clientId) return;
+        if (message.from === clientIdRef.current) return;
         const data = message.data as { message?: string } | undefined;
         if (data?.message) {
           reportMessage(data.message);
         }
       }
     },
-    [applyActionAndSync, broadcastSelectionState, clientId, reportMessage, resetVisualState, sendRelay]
+    [
+      applyActionAndSync,
+      broadcastSelectionState,
+      reportMessage,
+      resetVisualState,
+      sendMatchView,
+      sendRelay,
+    ]
   );
   const handleRelayMessage = useCallback(
     (raw: string) => {
@@ -1943,7 +2054,36 @@ const App = () => {
       }
       if (!parsed || typeof parsed !== "object") return;
       const message = parsed as { type?: string; [key: string]: unknown };
-      if (message.type === "hello_ack") return;
+      if (message.type === "hello_ack") {
+        const reclaimed = typeof message.lobbyCode === "string";
+        if (typeof message.id === "string") {
+          clientIdRef.current = message.id;
+          setClientId(message.id);
+        }
+        if (!reclaimed) storeReconnectToken(null);
+        if (!lobbyRef.current) return;
+        if (!reclaimed) {
+          setLobby(null);
+          setMatchState(null);
+          setStage("setup");
+          setPendingPlay(null);
+          resetVisualState();
+          reportMessage("Your lobby seat expired.");
+          return;
+        }
+        setMessage(null);
+        if (lobbyRef.current.hostId === clientIdRef.current && matchStateRef.current) {
+          sendMatchView(matchStateRef.current, {
+            full: true,
+            setup: { selection: selectionRef.current, names: namesRef.current },
+          });
+        }
+        return;
+      }
+      if (message.type === "reconnect_token" && typeof message.token === "string") {
+        storeReconnectToken(message.token);
+        return;
+      }
       if (message.type === "error" && typeof message.message === "string") {
         reportMessage(message.message);
         return;
@@ -1952,7 +2092,7 @@ const App = () => {
         const snapshot = message.lobby as RelayLobbySnapshot | undefined;
         if (!snapshot) return;
         setLobby(snapshot);
-        if (snapshot.hostId !== clientId && !syncRequestedRef.current) {
+        if (snapshot.hostId !== clientIdRef.current && !syncRequestedRef.current) {
           syncRequestedRef.current = true;
           sendRelay({ type: "game_event", event: "sync_request", data: {} });
         }
@@ -1961,6 +2101,7 @@ const App = () => {
       if (message.type === "lobby_closed") {
         const reason =
           typeof message.reason === "string" ? message.reason : "Lobby closed.";
+        storeReconnectToken(null);
         setLobby(null);
         syncRequestedRef.current = false;
         setMatchState(null);
@@ -1974,34 +2115,48 @@ const App = () => {
         handleRelayEvent(message as RelayEventMessage);
       }
     },
-    [clientId, handleRelayEvent, reportMessage, resetVisualState, sendRelay]
+    [handleRelayEvent, reportMessage, resetVisualState, sendMatchView, sendRelay]
   );
-  const connectRelay = useCallback(() => {
-    if (relayStatus !== "idle") return;
+  const openRelaySocket = useCallback(() => {
     const target = relayUrl.trim();
     if (!target) {
       reportMessage("Relay URL is required.");
       return;
     }
-    setRelayStatus("connecting");
     const socket = new WebSocket(target);
     socketRef.current = socket;
     socket.onopen = () => {
       setRelayStatus("connected");
+      reconnectAttemptsRef.current = 0;
+      setReconnectTick(0);
       syncRequestedRef.current = false;
       const name = relayName.trim() || "Player";
-      sendRelay({ type: "hello", clientId, name });
+      sendRelay({ type: "hello", name, reconnectToken: getStoredReconnectToken() });
     };
     socket.onmessage = (event) => {
       handleRelayMessage(event.data);
     };
     socket.onerror = () => {
+      if (reconnectAttemptsRef.current) return;
       reportMessage("Relay connection failed.");
     };
     socket.onclose = () => {
-      setRelayStatus("idle");
       socketRef.current = null;
       syncRequestedRef.current = false;
+      if (
+        lobbyRef.current &&
+        !manualCloseRef.current &&
+        reconnectAttemptsRef.current < relayReconnectAttempts
+      ) {
+        reconnectAttemptsRef.current += 1;
+        setRelayStatus("reconnecting");
+        setReconnectTick(reconnectAttemptsRef.current);
+        return;
+      }
+      manualCloseRef.current = false;
+      reconnectAttemptsRef.current = 0;
+      setReconnectTick(0);
+      setRelayStatus("idle");
       if (lobbyRef.current) {
         setLobby(null);
         setMatchState(null);
@@ -2010,15 +2165,38 @@ const App = () => {
         resetVisualState();
       }
     };
-  }, [clientId, handleRelayMessage, relayName, relayStatus, relayUrl, reportMessage, resetVisualState, sendRelay]);
+  }, [handleRelayMessage, relayName, relayUrl, reportMessage, resetVisualState, sendRelay]);
+  const connectRelay = useCallback(() => {
+    if (relayStatus !== "idle") return;
+    setRelayStatus("connecting");
+    openRelaySocket();
+  }, [openRelaySocket, relayStatus]);
+  useEffect(() => {
+    if (!reconnectTick) return;
+    const timeoutId = window.setTimeout(openRelaySocket, relayReconnectDelayMs);
+    return () => window.clearTimeout(timeoutId);
+  }, [openRelaySocket, reconnectTick]);
   const disconnectRelay = useCallback(() => {
     const socket = socketRef.current;
-    if (!socket) return;
+    if (!socket) {
+      if (!reconnectAttemptsRef.current) return;
+      reconnectAttemptsRef.current = 0;
+      setReconnectTick(0);
+      setRelayStatus("idle");
+      setLobby(null);
+      setMatchState(null);
+      setStage("setup");
+      setPendingPlay(null);
+      resetVisualState();
+      return;
+    }
+    manualCloseRef.current = true;
     if (lobbyRef.current) {
       sendRelay({ type: "leave_lobby" });
+      storeReconnectToken(null);
     }
     socket.close();
-  }, [sendRelay]);
+  }, [resetVisualState, sendRelay]);
   const createLobby = useCallback(() => {
     if (!isConnected) {
       reportMessage("Connect to the relay first.");
@@ -2027,7 +2205,7 @@ const App = () => {
     if (isMultiplayer) return;
     sendRelay({ type: "create_lobby" });
   }, [isConnected, isMultiplayer, reportMessage, sendRelay]);
-  const joinLobby = useCallback(() => {
+  const joinLobby = useCallback((spectate = false) => {
     if (!isConnected) {
       reportMessage("Connect to the relay first.");
       return;
@@ -2038,11 +2216,12 @@ const App = () => {
       reportMessage("Enter a lobby code.");
       return;
     }
-    sendRelay({ type: "join_lobby", code });
+    sendRelay({ type: "join_lobby", code, spectate });
   }, [isConnected, isMultiplayer, lobbyCode, reportMessage, sendRelay]);
   const leaveLobby = useCallback(() => {
     if (!isConnected || !lobby) return;
     sendRelay({ type: "leave_lobby" });
+    storeReconnectToken(null);
     setLobby(null);
     syncRequestedRef.current = false;
     setMatchState(null);
@@ -2127,28 +2306,207 @@ const App = () => {
         return;
       }
       resetVisualState();
-      const state = createMatchState(roster, [
-        { id: "p1", name: names.p1.trim() || "Player 1", characterIds: selection.p1 },
-        { id: "p2", name: names.p2.trim() || "Player 2", characterIds: selection.p2 },
-      ]);
+      const matchNames = { p1: names.p1.trim() || "Player 1", p2: names.p2.trim() || "Player 2" };
+      if (isMultiplayer && isAuthoritative) {
+        winnerRef.current = null;
+        sound.play("confirm");
+        sendRelay({
+          type: "lobby_event",
+          event: "start_match",
+          data: { selection, names: matchNames },
+        });
+        return;
+      }
+      const state = createMatchState(
+        roster,
+        [
+          { id: "p1", name: matchNames.p1, characterIds: selection.p1 },
+          { id: "p2", name: matchNames.p2, characterIds: selection.p2 },
+        ],
+        { enableTranscript: true }
+      );
+      clearUndoHistory();
       setMatchState(state);
       setStage("match");
       setMessage(null);
       winnerRef.current = null;
       sound.play("confirm");
       if (isMultiplayer && isHost) {
-        sendRelay({
-          type: "game_event",
-          event: "state_update",
-          data: { state, selection, names },
-        });
+        sendMatchView(state, { full: true, setup: { selection, names } });
       }
     } catch (error) {
       reportMessage(error instanceof Error ? error.message : "Failed to start match.");
     }
   };
 
+  const loadReplayFile = async (file: File) => {
+    try {
+      const { transcript, error } = migrateTranscript(JSON.parse(await file.text()));
+      if (!transcript) {
+        reportMessage(error ?? "File is not a match transcript.");
+        return;
+      }
+      const timeline = replayTranscriptSteps(roster, transcript);
+      const notice =
+        timeline.error ??
+        (timeline.dataChanged
+          ? "Character data changed since this transcript was recorded; the replay still matches."
+          : null);
+      resetVisualState();
+      setPendingPlay(null);
+      setReplay({ fileName: file.name, steps: timeline.steps, index: 0, error: timeline.error });
+      setMatchState(timeline.steps[0].state);
+      setStage("replay");
+      setMessage(notice);
+    } catch (error) {
+      reportMessage(error instanceof Error ? error.message : "Failed to load replay.");
+    }
+  };
+
+  const seekReplay = (index: number) => {
+    if (!replay) return;
+    const nextIndex = Math.max(0, Math.min(replay.steps.length - 1, index));
+    if (nextIndex < replay.index) {
+      resetVisualState();
+      lastResolutionRef.current = replay.steps[nextIndex].state.lastResolution?.actionId ?? null;
+    }
+    setReplay({ ...replay, index: nextIndex });
+    setMatchState(replay.steps[nextIndex].state);
+  };
+
+  const closeReplay = () => {
+    setReplay(null);
+    setMatchState(null);
+    setStage("setup");
+    setMessage(null);
+    resetVisualState();
+  };
+
+  const saveTranscript = () => {
+    const transcript = matchState ? exportTranscript(matchState) : null;
+    if (!transcript) {
+      reportMessage("This match has no transcript.");
+      return;
+    }
+    downloadJson(`ua-transcript-${transcript.seed}.json`, transcript);
+  };
+
+  const saveMatchFile = () => {
+    const transcript = matchState ? exportTranscript(matchState) : null;
+    if (!transcript) {
+      reportMessage("This match has no transcript.");
+      return;
+    }
+    downloadJson(`ua-match-${transcript.seed}.json`, createSavedMatch(transcript, seatControllers));
+  };
+
+  const resumeSavedMatch = (saved: SavedMatch) => {
+    try {
+      const { transcript, error } = migrateTranscript(saved.transcript);
+      if (!transcript) {
+        reportMessage(error ?? "Saved match has no transcript.");
+        return;
+      }
+      const result = replayTranscript(roster, transcript);
+      if (result.error) {
+        reportMessage(`Saved match failed verification: ${result.error}`);
+        return;
+      }
+      const state: MatchState = { ...result.state, transcript };
+      const playerName = (playerId: PlayerId) =>
+        transcript.players.find((player) => player.id === playerId)?.name ?? playerId;
+      resetVisualState();
+      clearUndoHistory();
+      setPendingPlay(null);
+      setSelection(saved.selection);
+      setNames({ p1: playerName("p1"), p2: playerName("p2") });
+      setSeatControllers(saved.controllers);
+      lastResolutionRef.current = state.lastResolution?.actionId ?? null;
+      winnerRef.current = state.winnerId ?? null;
+      setMatchState(state);
+      setStage("match");
+      setMessage(null);
+      sound.play("confirm");
+    } catch (error) {
+      reportMessage(error instanceof Error ? error.message : "Failed to resume match.");
+    }
+  };
+
+  const loadMatchFile = async (file: File) => {
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      if (!isSavedMatch(parsed)) {
+        reportMessage("File is not a saved match.");
+        return;
+      }
+      resumeSavedMatch(parsed);
+    } catch (error) {
+      reportMessage(error instanceof Error ? error.message : "Failed to load match.");
+    }
+  };
+
+  const undoIndex = undoStack
+    .map((entry) => seatControllers[entry.playerId] === "human")
+    .lastIndexOf(true);
+  const canUndo = stage === "match" && !isMultiplayer && undoIndex >= 0;
+  const canRedo = stage === "match" && !isMultiplayer && redoStack.length > 0;
+
+  const restoreHistoryState = (state: MatchState) => {
+    resetVisualState();
+    setPendingPlay(null);
+    setPendingUndo(null);
+    lastResolutionRef.current = state.lastResolution?.actionId ?? null;
+    winnerRef.current = state.winnerId ?? null;
+    matchStateRef.current = state;
+    setMatchState(state);
+    setMessage(null);
+    sound.play("click");
+  };
+
+  const undoLastAction = () => {
+    const current = matchStateRef.current;
+    const entry = undoStack[undoIndex];
+    if (!current || !entry) return;
+    setUndoStack(undoStack.slice(0, undoIndex));
+    setRedoStack([
+      ...redoStack,
+      { actionId: current.actionId, playerId: entry.playerId, state: current },
+    ]);
+    restoreHistoryState(entry.state);
+  };
+
+  const requestUndo = () => {
+    const entry = undoStack[undoIndex];
+    if (!entry) return;
+    const opponentId: PlayerId = entry.playerId === "p1" ? "p2" : "p1";
+    if (undoNeedsConfirm && seatControllers[opponentId] === "human") {
+      setPendingUndo(entry.playerId);
+      return;
+    }
+    undoLastAction();
+  };
+
+  const redoLastAction = () => {
+    const current = matchStateRef.current;
+    const entry = redoStack[redoStack.length - 1];
+    if (!current || !entry) return;
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack([
+      ...undoStack,
+      { actionId: current.actionId, playerId: entry.playerId, state: current },
+    ]);
+    restoreHistoryState(entry.state);
+  };
+
+  const clearUndoHistory = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+    setPendingUndo(null);
+  };
+
   const resetMatch = () => {
+    clearUndoHistory();
+    setStoredMatch(getStoredMatch());
     setMatchState(null);
     setStage("setup");
     setMessage(null);
@@ -2175,8 +2533,8 @@ const App = () => {
     }
     const players: PlayerId[] = ["p1", "p2"];
     const nextDeckCounts = {
-      p1: matchState.players.p1.deck.length,
-      p2: matchState.players.p2.deck.length,
+      p1: getDeckCount(matchState, "p1"),
+      p2: getDeckCount(matchState, "p2"),
     };
     const isFirstSync = !matchSyncRef.current;
     if (isFirstSync) {
@@ -2257,6 +2615,58 @@ const App = () => {
     }
   }, [skipCombat, stopCombatPlayback]);
 
+  useEffect(() => {
+    if (stage !== "match" || !matchState || isMultiplayer || combatPlayback) return;
+    if (matchState.phase === "finished") return;
+    const actorId = getPendingWindow(matchState)?.playerId ?? matchState.activePlayerId;
+    const controller = seatControllers[actorId];
+    if (controller === "human") return;
+    if (aiRequestRef.current?.state === matchState) return;
+    const timeoutId = window.setTimeout(() => {
+      if (aiRequestRef.current && !aiRequestRef.current.answered) {
+        aiWorkerRef.current?.terminate();
+        aiWorkerRef.current = null;
+      }
+      const worker =
+        aiWorkerRef.current ??
+        new Worker(new URL("./aiWorker.ts", import.meta.url), { type: "module" });
+      aiWorkerRef.current = worker;
+      const request: AiRequest = {
+        id: (aiRequestRef.current?.id ?? 0) + 1,
+        state: matchState,
+        answered: false,
+      };
+      aiRequestRef.current = request;
+      worker.onmessage = (event: MessageEvent<AiWorkerResponse>) => {
+        if (event.data.requestId !== request.id) return;
+        request.answered = true;
+        if (matchStateRef.current !== matchState) return;
+        const action = event.data.action ?? getAiFallbackAction(matchState, actorId, roster);
+        if (action) {
+          applyActionAndSync(action);
+        }
+        if (!event.data.action) {
+          const seatName = matchState.players[actorId].name;
+          reportMessage(
+            action
+              ? `${seatName} (Computer) found no move and ${action.type === "pass" ? "passed" : "ended the turn"}.`
+              : `${seatName} (Computer) has no legal action; the match is stalled.`
+          );
+        }
+      };
+      const message: AiWorkerRequest = {
+        requestId: request.id,
+        state: projectMatchState(matchState, actorId),
+        playerId: actorId,
+        level: controller,
+      };
+      worker.postMessage(message);
+    }, aiActionDelayMs);
+    return () => window.clearTimeout(timeoutId);
+  }, [applyActionAndSync, combatPlayback, isMultiplayer, matchState, seatControllers, stage]);
+
+  useEffect(() => () => aiWorkerRef.current?.terminate(), []);
+
   useEffect(() => {
     if (!combatPlayback) return;
     const { phase, resolution, stepIndex } = combatPlayback;
@@ -2429,13 +2839,14 @@ const App = () => {
         needsPushDirection: false,
       };
     }
-    const member = ownerEntry.member;
-    const team = matchState!.players[base.playerId];
-    const cardInstance = base.cardInstanceId
-      ? team.hand.find((instance) => instance.id === base.cardInstanceId)
-      : undefined;
     const card = resolveCardForDisplay(base.baseCard, base.sourceId, base.targetId);
-    const zones = getPlayableZones(card, matchState!, member);
+    const plays = getCardPlayActions(
+      legalActions?.[base.playerId] ?? [],
+      base.sourceId,
+      base.baseCardSlot,
+      base.cardInstanceId
+    ).filter((action) => action.targetId === base.targetId);
+    const zones = Array.from(new Set(plays.map((action) => action.zone)));
     const safeZones = zones.length > 0 ? zones : previous?.zones ?? ["normal"];
     const zone = safeZones.includes(base.zone ?? safeZones[0])
       ? (base.zone ?? safeZones[0])
@@ -2445,24 +2856,15 @@ const App = () => {
       choices.length === 0
         ? 0
         : Math.min(base.choiceIndex ?? 0, Math.max(choices.length - 1, 0));
-    const xRange = getXRangeFromText(card);
-    const cost = parseCost(card.cost);
-    const pendingWindow = getPendingWindow(matchState!);
-    const isAfterUse =
-      pendingWindow?.type === "after_use" &&
-      matchState!.afterUseWindow &&
-      matchState!.afterUseWindow.validForAction === matchState!.actionId + 1;
-    const isFollowUpPlay =
-      Boolean(isAfterUse) && matchState!.afterUseWindow?.lastUsedCharacterId === base.sourceId;
-    const followUpAdjustment = isFollowUpPlay ? getFollowUpCostAdjustment(card) : 0;
-    const max = cost.variable
-      ? getMaxX(team, member, cost, cardInstance, followUpAdjustment)
-      : 0;
-    let xValue = base.xValue ?? (xRange ? xRange.max : max);
+    const xValues = plays
+      .map((action) => action.xValue)
+      .filter((value): value is number => value !== undefined);
+    const xRange = xValues.length
+      ? { min: Math.min(...xValues), max: Math.max(...xValues) }
+      : null;
+    let xValue = base.xValue ?? (xRange ? xRange.max : 0);
     if (xRange) {
       xValue = Math.max(xRange.min, Math.min(xRange.max, xValue));
-    } else if (cost.variable) {
-      xValue = Math.max(0, Math.min(max, xValue));
     }
 
     return buildPendingMeta(
@@ -2515,7 +2917,7 @@ const App = () => {
     cardInstanceId?: string
   ) => {
     if (!matchState) return;
-    if (isMultiplayer && !canControlPlayer(playerId)) {
+    if (!canControlPlayer(playerId)) {
       reportMessage("Not your team.");
       return;
     }
@@ -2523,59 +2925,29 @@ const App = () => {
       reportMessage("Movement Round in progress.");
       return;
     }
-    const team = matchState.players[playerId];
     const ownerEntry = getMemberById(matchState, sourceId);
     if (!ownerEntry || ownerEntry.teamId !== playerId) {
       reportMessage("Card source not found.");
       return;
     }
-    const member = ownerEntry.member;
-    let targets = getLegalTargets(card, sourceId, matchState, roster).map((targetId) => ({
-      id: targetId,
-      label: formatMemberLabel(matchState, targetId),
-    }));
-    if (!targets.length) {
-      reportMessage("No legal targets.");
+    const plays = getCardPlayActions(
+      legalActions?.[playerId] ?? [],
+      sourceId,
+      card.slot,
+      cardInstanceId
+    );
+    if (!plays.length) {
+      reportMessage("No legal plays for this card.");
       return;
     }
-    const pendingWindow = getPendingWindow(matchState);
-    if (pendingWindow?.type === "counter" && pendingWindow.counterTargetId) {
-      targets = targets.filter((target) => target.id === pendingWindow.counterTargetId);
-      if (!targets.length) {
-        reportMessage("Counter must target the attacker.");
-        return;
-      }
-    }
+    let targets = Array.from(new Set(plays.map((action) => action.targetId ?? sourceId))).map(
+      (targetId) => ({
+        id: targetId,
+        label: formatMemberLabel(matchState, targetId),
+      })
+    );
     const initialTargetId = targets[0].id;
     const playCard = resolveCardForDisplay(card, sourceId, initialTargetId);
-    const zones = getPlayableZones(playCard, matchState, member);
-    if (!zones.length) {
-      reportMessage("No legal zones available.");
-      return;
-    }
-    const cardInstance = cardInstanceId
-      ? team.hand.find((instance) => instance.id === cardInstanceId)
-      : undefined;
-    const cost = parseCost(playCard.cost);
-    const xRange = getXRangeFromText(playCard);
-    const isAfterUse =
-      pendingWindow?.type === "after_use" &&
-      matchState.afterUseWindow &&
-      matchState.afterUseWindow.validForAction === matchState.actionId + 1;
-    const isFollowUpPlay =
-      Boolean(isAfterUse) && matchState.afterUseWindow?.lastUsedCharacterId === sourceId;
-    const followUpAdjustment = isFollowUpPlay ? getFollowUpCostAdjustment(playCard) : 0;
-    const max = cost.variable
-      ? getMaxX(team, member, cost, cardInstance, followUpAdjustment)
-      : 0;
-    const baseAffordable = canAffordWithAdjustments(
-      team,
-      member,
-      cost,
-      0,
-      cardInstance,
-      followUpAdjustment
-    );
     const choices = getCardChoices(playCard);
     const targetText = playCard.target.toLowerCase();
     if (targetText.includes("all enemies") || targetText.includes("all allies")) {
@@ -2590,8 +2962,6 @@ const App = () => {
         sourceId,
         targets,
         targetId: initialTargetId,
-        zone: zones[0],
-        xValue: xRange ? xRange.max : max,
         choiceIndex: 0,
       },
       null
@@ -2603,34 +2973,18 @@ const App = () => {
       pendingWithMeta.redirectOptions.length > 1 ||
       pendingWithMeta.needsPushDirection;
     const needsModal =
-      zones.length > 1 ||
-      cost.variable ||
+      pendingWithMeta.zones.length > 1 ||
       choices.length > 0 ||
-      Boolean(xRange) ||
+      Boolean(pendingWithMeta.xRange) ||
       targets.length > 1 ||
       needsMetaModal;
-    if (cost.variable && !baseAffordable) {
-      reportMessage("Insufficient resources.");
-      return;
-    }
-    if (!cost.variable && xRange && !baseAffordable) {
-      reportMessage("Insufficient resources.");
-      return;
-    }
-    if (xRange && xRange.max < xRange.min) {
-      reportMessage("Invalid X range.");
-      return;
-    }
     if (!needsModal) {
-      dispatchAction({
-        type: "play_card",
-        playerId,
-        cardInstanceId,
-        cardSlot: card.slot,
-        sourceId,
-        targetId: targets[0].id,
-        zone: zones[0],
-      });
+      const play =
+        plays.find(
+          (action) =>
+            action.targetId === initialTargetId && action.zone === pendingWithMeta.zone
+        ) ?? plays[0];
+      dispatchAction(play);
       return;
     }
     sound.play("open");
@@ -2778,6 +3132,42 @@ const App = () => {
             <input type="checkbox" checked={skipCombat} onChange={toggleSkipCombat} />
             Skip Combat
           </label>
+          {storedMatch && !isMultiplayer && (
+            <button
+              className="ua-button ua-button--ghost"
+              onClick={() => resumeSavedMatch(storedMatch)}
+            >
+              Resume Match
+            </button>
+          )}
+          <label className="ua-button ua-button--ghost">
+            Load Match
+            <input
+              type="file"
+              accept="application/json,.json"
+              hidden
+              disabled={isMultiplayer}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) void loadMatchFile(file);
+              }}
+            />
+          </label>
+          <label className="ua-button ua-button--ghost">
+            Load Replay
+            <input
+              type="file"
+              accept="application/json,.json"
+              hidden
+              disabled={isMultiplayer}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) void loadReplayFile(file);
+              }}
+            />
+          </label>
           <div className="ua-badge">Prototype Engine</div>
         </div>
       </header>
@@ -2825,7 +3215,7 @@ const App = () => {
           </button>
           <button
             className="ua-button ua-button--ghost"
-            disabled={!isConnected}
+            disabled={relayStatus !== "connected" && relayStatus !== "reconnecting"}
             onClick={disconnectRelay}
           >
             Disconnect
@@ -2840,10 +3230,17 @@ const App = () => {
           <button
             className="ua-button"
             disabled={!isConnected || isMultiplayer || !lobbyCode.trim()}
-            onClick={joinLobby}
+            onClick={() => joinLobby()}
           >
             Join Lobby
           </button>
+          <button
+            className="ua-button ua-button--ghost"
+            disabled={!isConnected || isMultiplayer || !lobbyCode.trim()}
+            onClick={() => joinLobby(true)}
+          >
+            Watch Lobby
+          </button>
           <button
             className="ua-button ua-button--ghost"
             disabled={!isMultiplayer}
@@ -2854,8 +3251,13 @@ const App = () => {
         </div>
         {isMultiplayer ? (
           <p className="ua-zone-status">
-            Lobby {lobby?.code} • {isHost ? "Host (P1)" : "Guest (P2)"} • Players:{" "}
-            {lobby?.players.map((player) => player.name).join(", ")}
+            Lobby {lobby?.code} • {lobbyRole} ({localSeat?.toUpperCase() ?? "No seat"})
+            {isAuthoritative && " • Relay authoritative"} • Players:{" "}
+            {lobby?.players
+              .filter((player) => !player.spectator)
+              .map((player) => (player.connected === false ? `${player.name} (reconnecting)` : player.name))
+              .join(", ")}
+            {spectatorCount > 0 && ` • Spectators: ${spectatorCount}`}
           </p>
         ) : (
           <p className="ua-zone-status">
@@ -2887,6 +3289,24 @@ const App = () => {
                       }
                     />
                   </label>
+                {!isMultiplayer && (
+                  <label className="ua-label">
+                    Controller
+                    <select
+                      value={seatControllers[playerId]}
+                      onChange={(event) =>
+                        setSeatControllers((prev) => ({
+                          ...prev,
+                          [playerId]: event.target.value as SeatController,
+                        }))
+                      }
+                    >
+                      <option value="human">Human</option>
+                      <option value="greedy">Computer (Greedy)</option>
+                      <option value="search">Computer (Search)</option>
+                    </select>
+                  </label>
+                )}
                 <div className="ua-team-selects">
                   {selected.map((selectionId, index) => (
                     <label key={`${playerId}-${index}`} className="ua-label">
@@ -3029,7 +3449,9 @@ const App = () => {
       : "";
   const inspectNote = inspectPile
     ? isDeckPile
-      ? "Order is hidden. Counts are grouped by card."
+      ? matchState.hidden && inspectPile.playerId !== matchState.hidden.viewerId
+        ? "Deck contents are hidden in multiplayer."
+        : "Order is hidden. Counts are grouped by card."
       : "Top is most recent. List shows actual order."
     : "";
   const sortedMovementMembers = [...activeTeam.characters].sort(
@@ -3067,6 +3489,7 @@ const App = () => {
       zone,
       cards,
       nextPair,
+      odds: clashPredictions[zone] ?? [],
       isActive: matchState.activeZone === zone,
       isPaused: matchState.pausedZones.includes(zone),
     };
@@ -3278,10 +3701,10 @@ const App = () => {
                   (event.kind === "damage" ||
                     event.kind === "shield" ||
                     event.kind === "heal") &&
-                  event.target === side.member.name
+                  event.targetId === side.member.id
               )
               .map((event, index) => ({
-                id: `${event.kind}-${event.target}-${index}`,
+                id: `${event.kind}-${event.targetId}-${index}`,
                 kind: event.kind,
                 amount: event.amount ?? 0,
               }));
@@ -3373,15 +3796,24 @@ const App = () => {
       <header className="ua-header">
         <div>
           <p className="ua-kicker">Universal Arena</p>
-          <h1>{isMultiplayer ? "Multiplayer Match" : "Local Match"}</h1>
+          <h1>
+            {stage === "replay" ? "Replay" : isMultiplayer ? "Multiplayer Match" : "Local Match"}
+          </h1>
           <p className="ua-subtitle">
             Turn {matchState.turn} • Active: {activeTeam.name}
+            {isComputerSeat(activeTeam.id) && " (Computer)"}
           </p>
           {isMultiplayer && lobby && (
             <p className="ua-zone-status">
-              Lobby {lobby.code} • {isHost ? "Host (P1)" : "Guest (P2)"}
+              Lobby {lobby.code} • {lobbyRole} ({localSeat?.toUpperCase() ?? "No seat"})
+              {isAuthoritative && " • Relay authoritative"}
+              {isSpectator && " • Watching (read-only)"}
+              {spectatorCount > 0 && ` • Spectators: ${spectatorCount}`}
             </p>
           )}
+          {isMultiplayer && reconnectingLabel && (
+            <p className="ua-zone-status">{reconnectingLabel}</p>
+          )}
         </div>
           <div className="ua-header__actions">
             {soundControls}
@@ -3389,10 +3821,38 @@ const App = () => {
               <input type="checkbox" checked={skipCombat} onChange={toggleSkipCombat} />
               Skip Combat
             </label>
+            {stage === "match" && !isMultiplayer && (
+              <>
+                <button className="ua-button ua-button--ghost" disabled={!canUndo} onClick={requestUndo}>
+                  Undo
+                </button>
+                <button className="ua-button ua-button--ghost" disabled={!canRedo} onClick={redoLastAction}>
+                  Redo
+                </button>
+                <label className="ua-toggle">
+                  <input
+                    type="checkbox"
+                    checked={undoNeedsConfirm}
+                    onChange={(event) => setUndoNeedsConfirm(event.target.checked)}
+                  />
+                  Confirm Undo
+                </label>
+              </>
+            )}
+            {stage === "match" && !isMultiplayer && matchState.transcript && (
+              <button className="ua-button ua-button--ghost" onClick={saveMatchFile}>
+                Save Match
+              </button>
+            )}
+            {stage === "match" && matchState.transcript && (
+              <button className="ua-button ua-button--ghost" onClick={saveTranscript}>
+                Save Transcript
+              </button>
+            )}
             <button
               className="ua-button ua-button--ghost"
               disabled={isMultiplayer && !isHost}
-              onClick={resetMatch}
+              onClick={stage === "replay" ? closeReplay : resetMatch}
             >
               Back to Setup
             </button>
@@ -3401,6 +3861,62 @@ const App = () => {
 
       {message && <div className="ua-toast">{message}</div>}
 
+      {stage === "replay" && replay && (
+        <section className="ua-panel ua-panel--wide">
+          <div className="ua-panel__header">
+            <h2>Replay Timeline</h2>
+            <span className="ua-pill">
+              Action {replay.index} / {replay.steps.length - 1}
+            </span>
+          </div>
+          <p className="ua-zone-status">
+            {replay.fileName} •{" "}
+            {describeReplayAction(
+              replay.steps[Math.max(0, replay.index - 1)].state,
+              replay.steps[replay.index]
+            )}
+          </p>
+          <div className="ua-help-row">
+            <button
+              className="ua-button ua-button--ghost"
+              disabled={replay.index === 0}
+              onClick={() => seekReplay(0)}
+            >
+              First
+            </button>
+            <button
+              className="ua-button ua-button--ghost"
+              disabled={replay.index === 0}
+              onClick={() => seekReplay(replay.index - 1)}
+            >
+              Back
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={replay.steps.length - 1}
+              value={replay.index}
+              onChange={(event) => seekReplay(Number(event.target.value))}
+              aria-label="Replay position"
+            />
+            <button
+              className="ua-button ua-button--ghost"
+              disabled={replay.index === replay.steps.length - 1}
+              onClick={() => seekReplay(replay.index + 1)}
+            >
+              Forward
+            </button>
+            <button
+              className="ua-button ua-button--ghost"
+              disabled={replay.index === replay.steps.length - 1}
+              onClick={() => seekReplay(replay.steps.length - 1)}
+            >
+              Last
+            </button>
+          </div>
+        </section>
+      )}
+
       <section className="ua-panel ua-panel--wide ua-zone-banner">
         <div>
           <p className="ua-zone-banner__title">Active Zone: {activeZoneLabel}</p>
@@ -3436,6 +3952,11 @@ const App = () => {
                 )}
               </div>
               {zone.nextPair && <div className="ua-rail__next">{zone.nextPair}</div>}
+              {zone.odds.map((line) => (
+                <div key={line} className="ua-rail__odds">
+                  {line}
+                </div>
+              ))}
             </div>
           ))}
         </div>
@@ -3527,7 +4048,7 @@ const App = () => {
                   </div>
                   <div>
                     <span>Hand</span>
-                    <strong>{team.hand.length}</strong>
+                    <strong>{getHandCount(matchState, playerId)}</strong>
                   </div>
                   <button
                     type="button"
@@ -3535,7 +4056,7 @@ const App = () => {
                     onClick={() => openPile(playerId, "deck")}
                   >
                     <span>Deck</span>
-                    <strong>{team.deck.length}</strong>
+                    <strong>{getDeckCount(matchState, playerId)}</strong>
                   </button>
                   <button
                     type="button"
@@ -3728,7 +4249,7 @@ const App = () => {
               const displayCard = resolveCardForDisplay(card, owner.id);
               const cost = parseCost(displayCard.cost);
               const isVariable = Boolean(cost.variable);
-              const xRange = getXRangeFromText(displayCard);
+              const xRange = getXRangeFromText(displayCard.effect);
               const isAfterUse =
                 pendingWindow?.type === "after_use" &&
                 matchState.afterUseWindow &&
@@ -3739,24 +4260,15 @@ const App = () => {
               const followUpAdjustment = isFollowUpPlay
                 ? getFollowUpCostAdjustment(displayCard)
                 : 0;
-              const baseAffordable = canAffordWithAdjustments(
-                activeTeam,
-                owner,
-                cost,
-                0,
-                instance,
-                followUpAdjustment
-              );
-                const canReact = pendingWindow
-                  ? pendingWindow.type === "counter"
-                    ? canReactCounter(matchState, displayCard, owner.id)
-                    : canReactAfterUse(matchState, displayCard, owner.id)
-                  : false;
-                const canAct = pendingWindow
-                  ? canReact
-                  : matchState.activePlayerId === activeTeam.id;
-                const canControl = canControlPlayer(activeTeam.id);
-                const disabled = !canControl || !canAct || !baseAffordable || owner.defeated;
+              const canPlay =
+                getCardPlayActions(
+                  legalActions?.[activeTeam.id] ?? [],
+                  owner.id,
+                  card.slot,
+                  instance.id
+                ).length > 0;
+              const canControl = canControlPlayer(activeTeam.id);
+              const disabled = !canControl || !canPlay;
               const adjustment =
                 getEnergyCostAdjustment(owner) +
                 (instance.costAdjustment ?? 0) +
@@ -3792,6 +4304,12 @@ const App = () => {
                       renderEffectLine(line, `${instance.id}-${index}`)
                     )}
                   </div>
+                  {!disabled &&
+                    damagePreviews.get(instance.id)?.map((line) => (
+                      <div key={line} className="ua-card__preview">
+                        {line}
+                      </div>
+                    ))}
                   {isVariable && <span className="ua-card__tag">X Cost</span>}
                   {xRange && <span className="ua-card__tag">Choose X</span>}
                 </button>
@@ -3808,34 +4326,14 @@ const App = () => {
                   const displayCard = resolveCardForDisplay(card, member.id);
                   const cost = parseCost(displayCard.cost);
                   const isVariable = Boolean(cost.variable);
-                  const isAfterUse =
-                    pendingWindow?.type === "after_use" &&
-                    matchState.afterUseWindow &&
-                    matchState.afterUseWindow.validForAction === matchState.actionId + 1;
-                  const isFollowUpPlay =
-                    Boolean(isAfterUse) &&
-                    matchState.afterUseWindow?.lastUsedCharacterId === member.id;
-                  const followUpAdjustment = isFollowUpPlay
-                    ? getFollowUpCostAdjustment(displayCard)
-                    : 0;
-                  const baseAffordable = canAffordWithAdjustments(
-                    activeTeam,
-                    member,
-                    cost,
-                    0,
-                    undefined,
-                    followUpAdjustment
-                  );
-                    const canReact = pendingWindow
-                      ? pendingWindow.type === "counter"
-                        ? canReactCounter(matchState, displayCard, member.id)
-                        : canReactAfterUse(matchState, displayCard, member.id)
-                      : false;
-                    const canAct = pendingWindow
-                      ? canReact
-                      : matchState.activePlayerId === activeTeam.id;
-                    const canControl = canControlPlayer(activeTeam.id);
-                    const disabled = !canControl || !canAct || !baseAffordable || member.defeated;
+                  const canPlay =
+                    getCardPlayActions(
+                      legalActions?.[activeTeam.id] ?? [],
+                      member.id,
+                      card.slot
+                    ).length > 0;
+                  const canControl = canControlPlayer(activeTeam.id);
+                  const disabled = !canControl || !canPlay;
                   return (
                     <button
                       key={`${member.id}-${card.slot}`}
@@ -3892,7 +4390,7 @@ const App = () => {
                 const displayCard = resolveCardForDisplay(card, owner.id);
                 const cost = parseCost(displayCard.cost);
                 const isVariable = Boolean(cost.variable);
-                const xRange = getXRangeFromText(displayCard);
+                const xRange = getXRangeFromText(displayCard.effect);
                 const isAfterUse =
                   pendingWindow?.type === "after_use" &&
                   matchState.afterUseWindow &&
@@ -3903,21 +4401,15 @@ const App = () => {
                 const followUpAdjustment = isFollowUpPlay
                   ? getFollowUpCostAdjustment(displayCard)
                   : 0;
-                const baseAffordable = canAffordWithAdjustments(
-                  team,
-                  owner,
-                  cost,
-                  0,
-                  instance,
-                  followUpAdjustment
-                );
-                  const canReact = pendingWindow
-                    ? pendingWindow.type === "counter"
-                      ? canReactCounter(matchState, displayCard, owner.id)
-                      : canReactAfterUse(matchState, displayCard, owner.id)
-                    : false;
-                  const canControl = canControlPlayer(playerId);
-                  const disabled = !canControl || !canReact || !baseAffordable || owner.defeated;
+                const canReact =
+                  getCardPlayActions(
+                    legalActions?.[playerId] ?? [],
+                    owner.id,
+                    card.slot,
+                    instance.id
+                  ).length > 0;
+                const canControl = canControlPlayer(playerId);
+                const disabled = !canControl || !canReact;
                 const adjustment =
                   getEnergyCostAdjustment(owner) +
                   (instance.costAdjustment ?? 0) +
@@ -3969,31 +4461,14 @@ const App = () => {
                     const displayCard = resolveCardForDisplay(card, member.id);
                     const cost = parseCost(displayCard.cost);
                     const isVariable = Boolean(cost.variable);
-                    const isAfterUse =
-                      pendingWindow?.type === "after_use" &&
-                      matchState.afterUseWindow &&
-                      matchState.afterUseWindow.validForAction === matchState.actionId + 1;
-                    const isFollowUpPlay =
-                      Boolean(isAfterUse) &&
-                      matchState.afterUseWindow?.lastUsedCharacterId === member.id;
-                    const followUpAdjustment = isFollowUpPlay
-                      ? getFollowUpCostAdjustment(displayCard)
-                      : 0;
-                    const baseAffordable = canAffordWithAdjustments(
-                      team,
-                      member,
-                      cost,
-                      0,
-                      undefined,
-                      followUpAdjustment
-                    );
-                    const canReact = pendingWindow
-                      ? pendingWindow.type === "counter"
-                        ? canReactCounter(matchState, displayCard, member.id)
-                        : canReactAfterUse(matchState, displayCard, member.id)
-                      : false;
+                    const canReact =
+                      getCardPlayActions(
+                        legalActions?.[playerId] ?? [],
+                        member.id,
+                        card.slot
+                      ).length > 0;
                     const canControl = canControlPlayer(playerId);
-                    const disabled = !canControl || !canReact || !baseAffordable || member.defeated;
+                    const disabled = !canControl || !canReact;
                     return (
                       <button
                         key={`${member.id}-${card.slot}`}
@@ -4030,6 +4505,32 @@ const App = () => {
         );
       })}
 
+      {pendingUndo && (
+        <div className="ua-modal">
+          <div className="ua-modal__content">
+            <h3>Undo Request</h3>
+            <p className="ua-modal__note">
+              {matchState.players[pendingUndo].name} wants to take back their last action.{" "}
+              {matchState.players[pendingUndo === "p1" ? "p2" : "p1"].name}, do you allow it?
+            </p>
+            <div className="ua-modal__controls">
+              <button className="ua-button ua-button--primary" onClick={undoLastAction}>
+                Allow
+              </button>
+              <button
+                className="ua-button ua-button--ghost"
+                onClick={() => {
+                  sound.play("click");
+                  setPendingUndo(null);
+                }}
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {pendingPlay && (
         <div className="ua-modal">
           <div className="ua-modal__content">
@@ -4242,7 +4743,8 @@ const App = () => {
             {pendingPlay.seek && pendingPlay.seek.cards.length > 0 && (
               <div className="ua-modal__zones">
                 <p>
-                  Seek ({pendingPlay.seek.criteria}, take up to {pendingPlay.seek.take}):
+                  Seek ({describeCardCriteria(pendingPlay.seek.criteria)}, take up to{" "}
+                  {pendingPlay.seek.take}):
                 </p>
                 <p className="ua-modal__subnote">
                   Selected:{" "}
@@ -4256,7 +4758,7 @@ const App = () => {
                     const ownerLabel = owner ? owner.name : instance.characterId;
                     const label = cardEntry?.name ?? instance.cardSlot;
                     const matches = cardEntry
-                      ? matchesSearchCriteria(cardEntry, pendingPlay.seek!.criteria)
+                      ? matchesCardCriteria(cardEntry, pendingPlay.seek!.criteria)
                       : false;
                     const isSelected = pendingPlay.seek?.takeIds?.includes(instance.id) ?? false;
                     return (
@@ -4288,7 +4790,7 @@ const App = () => {
             )}
             {pendingPlay.search && (
               <div className="ua-modal__zones">
-                <p>Search ({pendingPlay.search.criteria}):</p>
+                <p>Search ({describeCardCriteria(pendingPlay.search.criteria)}):</p>
                 <p className="ua-modal__subnote">Auto picks the first matching card.</p>
                 {pendingPlay.search.options.length === 0 ? (
                   <p>No matching cards in the draw pile.</p>
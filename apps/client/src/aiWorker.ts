@@ -0,0 +1,23 @@
+import { chooseAiAction, type Action, type AiLevel, type MatchState, type PlayerId } from "@ua/core";
+import { characters as roster } from "@ua/data";
+
+export type AiWorkerRequest = {
+  requestId: number;
+  state: MatchState;
+  playerId: PlayerId;
+  level: AiLevel;
+};
+
+export type AiWorkerResponse = {
+  requestId: number;
+  action: Action | null;
+};
+
+self.addEventListener("message", (event: MessageEvent<AiWorkerRequest>) => {
+  const { requestId, state, playerId, level } = event.data;
+  const response: AiWorkerResponse = {
+    requestId,
+    action: chooseAiAction(state, playerId, roster, { level }),
+  };
+  self.postMessage(response);
+});
@@ -1,8 +1,15 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
+import { characters, formatDataIssue, keywords, statusEffects, validateCharacters } from "@ua/data";
 import App from "./App";
 import "./styles.css";
 
+if (import.meta.env.DEV) {
+  validateCharacters(characters, { statusEffects, keywords }).forEach((issue) =>
+    console.warn(`Character data: ${formatDataIssue(issue)}`)
+  );
+}
+
 const root = document.getElementById("root");
 if (root) {
   ReactDOM.createRoot(root).render(
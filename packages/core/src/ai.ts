@@ -0,0 +1,181 @@
+import type { Character } from "@ua/data";
+import {
+  applyAction,
+  estimatePlayAction,
+  getLegalActions,
+  projectMatchState,
+  type Action,
+  type MatchState,
+  type PlayerId,
+} from "./index.ts";
+import { createRngState } from "./rng.ts";
+
+export type AiLevel = "greedy" | "search";
+
+export type AiOptions = {
+  level?: AiLevel;
+  breadth?: number;
+  depth?: number;
+  samples?: number;
+};
+
+const winScore = 100000;
+
+const getOpponent = (playerId: PlayerId): PlayerId => (playerId === "p1" ? "p2" : "p1");
+
+const isEnemyTarget = (state: MatchState, playerId: PlayerId, targetId?: string) =>
+  Boolean(targetId) &&
+  state.players[getOpponent(playerId)].characters.some((member) => member.id === targetId);
+
+const getOpposingEntry = (state: MatchState, playerId: PlayerId) => {
+  if (!state.activeZone) return null;
+  const cards = state.zones[state.activeZone].cards;
+  const top = cards[cards.length - 1];
+  return top && top.playedBy !== playerId ? top : null;
+};
+
+const scoreAction = (state: MatchState, action: Action, characters: Character[]) => {
+  if (action.type === "move_swap") return -5;
+  if (action.type !== "play_card") return 0;
+  const estimate = estimatePlayAction(state, action, characters);
+  if (!estimate) return -Infinity;
+
+  let score = isEnemyTarget(state, action.playerId, action.targetId) ? estimate.damage * 2 : 0;
+  const opposing = getOpposingEntry(state, action.playerId);
+  const opposingIsAttack = opposing?.types.some((type) => type.toLowerCase() === "attack");
+  if (opposing && opposingIsAttack && estimate.actionType !== "special") {
+    const margin = estimate.power - (opposing.rolledPower ?? 0);
+    score += margin * 1.5 + (margin > 0 ? 10 : 0);
+  } else if (estimate.actionType === "attack") {
+    score += estimate.power * 0.5;
+  } else if (estimate.actionType === "defense") {
+    score += estimate.power * 0.2;
+  } else {
+    score += 4;
+  }
+  return score - estimate.energy * 2;
+};
+
+const chooseGreedyAction = (
+  state: MatchState,
+  actions: Action[],
+  characters: Character[]
+) => {
+  let best: Action | null = null;
+  let bestScore = -Infinity;
+  for (const action of actions) {
+    const score = scoreAction(state, action, characters);
+    if (score > bestScore) {
+      best = action;
+      bestScore = score;
+    }
+  }
+  const fallback = actions.find((action) => action.type === "pass" || action.type === "end_turn");
+  if (fallback && (!best || bestScore <= 0)) return fallback;
+  return best;
+};
+
+const getActingPlayerId = (state: MatchState, characters: Character[]) => {
+  const active = state.activePlayerId;
+  if (getLegalActions(state, active, characters).length) return active;
+  return getOpponent(active);
+};
+
+const evaluateState = (state: MatchState, playerId: PlayerId) => {
+  if (state.winnerId) return state.winnerId === playerId ? winScore : -winScore;
+  const teamScore = (id: PlayerId) => {
+    const team = state.players[id];
+    const vitality = team.characters.reduce(
+      (total, member) => (member.defeated ? total : total + 30 + member.hp + member.shield * 0.5),
+      0
+    );
+    return vitality + team.energy * 2 + team.ultimate + team.hand.length * 3;
+  };
+  return teamScore(playerId) - teamScore(getOpponent(playerId));
+};
+
+const rollout = (
+  state: MatchState,
+  action: Action,
+  playerId: PlayerId,
+  characters: Character[],
+  depth: number,
+  seed: number
+) => {
+  const sim: MatchState = {
+    ...state,
+    log: [],
+    events: [],
+    transcript: undefined,
+    hidden: undefined,
+    rng: createRngState(seed),
+  };
+  const result = applyAction(sim, action, characters);
+  if (result.error) return -winScore;
+  let current = result.state;
+  for (let step = 0; step < depth && current.phase !== "finished"; step += 1) {
+    const actor = getActingPlayerId(current, characters);
+    const next = chooseGreedyAction(current, getLegalActions(current, actor, characters), characters);
+    if (!next) break;
+    current = applyAction(current, next, characters).state;
+  }
+  return evaluateState(current, playerId);
+};
+
+export const chooseAiAction = (
+  state: MatchState,
+  playerId: PlayerId,
+  characters: Character[],
+  options: AiOptions = {}
+): Action | null => {
+  const view = state.hidden ? state : projectMatchState(state, playerId);
+  const actions = getLegalActions(view, playerId, characters);
+  if (!actions.length) return null;
+  if (actions.length === 1) return actions[0];
+
+  if ((options.level ?? "greedy") === "greedy") {
+    return chooseGreedyAction(view, actions, characters);
+  }
+
+  const breadth = options.breadth ?? 6;
+  const depth = options.depth ?? 6;
+  const samples = options.samples ?? 2;
+  const ranked = actions
+    .map((action) => ({ action, score: scoreAction(view, action, characters) }))
+    .filter((entry) => entry.score > -Infinity)
+    .sort((left, right) => right.score - left.score);
+  const candidates = ranked.slice(0, breadth).map((entry) => entry.action);
+  actions
+    .filter((action) => action.type === "pass" || action.type === "end_turn")
+    .forEach((action) => {
+      if (!candidates.includes(action)) candidates.push(action);
+    });
+
+  let best = candidates[0] ?? actions[0];
+  let bestValue = -Infinity;
+  candidates.forEach((action) => {
+    let total = 0;
+    for (let sample = 0; sample < samples; sample += 1) {
+      const seed = (view.actionId * 0x85ebca6b + (sample + 1) * 0x9e3779b1) >>> 0;
+      total += rollout(view, action, playerId, characters, depth, seed);
+    }
+    const value = total / samples;
+    if (value > bestValue) {
+      best = action;
+      bestValue = value;
+    }
+  });
+  return best;
+};
+
+export const getAiFallbackAction = (
+  state: MatchState,
+  playerId: PlayerId,
+  characters: Character[]
+): Action | null => {
+  const fallbacks: Action[] = [
+    { type: "pass", playerId },
+    { type: "end_turn", playerId },
+  ];
+  return fallbacks.find((action) => !applyAction(state, action, characters).error) ?? null;
+};
@@ -0,0 +1,128 @@
+import { characters as roster } from "@ua/data";
+import type { Character } from "@ua/data";
+import {
+  getCardEffectCoverage,
+  type EffectLineCoverage,
+  type EffectLineHandler,
+} from "./index.ts";
+
+export type CoverageLine = EffectLineCoverage & {
+  characterId: string;
+  cardSlot: string;
+  cardName: string;
+};
+
+export type CharacterCoverage = {
+  characterId: string;
+  name: string;
+  counts: Record<EffectLineHandler, number>;
+  lines: CoverageLine[];
+};
+
+export type CoverageReport = {
+  characters: CharacterCoverage[];
+  unhandled: CoverageLine[];
+};
+
+const handlers: EffectLineHandler[] = ["structured", "text", "keyword", "unhandled"];
+
+export const buildCoverageReport = (characters: Character[] = roster): CoverageReport => {
+  const entries = characters.map((character) => {
+    const counts: Record<EffectLineHandler, number> = {
+      structured: 0,
+      text: 0,
+      keyword: 0,
+      unhandled: 0,
+    };
+    const lines = [...character.cards, ...(character.createdCards ?? [])].flatMap((card) =>
+      getCardEffectCoverage(card).map((coverage) => {
+        counts[coverage.handler] += 1;
+        return {
+          ...coverage,
+          characterId: character.id,
+          cardSlot: card.slot,
+          cardName: card.name,
+        };
+      })
+    );
+    return {
+      characterId: character.id,
+      name: `${character.name} (${character.version})`,
+      counts,
+      lines,
+    };
+  });
+  return {
+    characters: entries,
+    unhandled: entries.flatMap((entry) => entry.lines.filter((line) => line.handler === "unhandled")),
+  };
+};
+
+export const formatCoverageTable = (report: CoverageReport, verbose = false) => {
+  const nameWidth = Math.max(9, ...report.characters.map((entry) => entry.name.length));
+  const row = (label: string, values: (string | number)[]) =>
+    [label.padEnd(nameWidth), ...values.map((value) => String(value).padStart(10))].join("  ");
+  const lines = [
+    row("Character", handlers),
+    row("-".repeat(nameWidth), handlers.map(() => "-".repeat(10))),
+  ];
+  report.characters.forEach((entry) => {
+    lines.push(row(entry.name, handlers.map((handler) => entry.counts[handler])));
+    if (!verbose) return;
+    entry.lines.forEach((line) => {
+      const sources = line.sources.length ? ` [${line.sources.join(", ")}]` : "";
+      lines.push(`    ${line.handler.padEnd(10)} ${line.cardName}: ${line.line}${sources}`);
+    });
+  });
+  if (report.unhandled.length) {
+    lines.push("", `Unhandled lines (${report.unhandled.length}):`);
+    report.unhandled.forEach((line) => {
+      lines.push(`  ${line.characterId} slot ${line.cardSlot} (${line.cardName}): ${line.line}`);
+    });
+  }
+  return lines;
+};
+
+const parseArgs = (args: string[]) => {
+  const values = new Map<string, string>();
+  const flags = new Set<string>();
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (!arg?.startsWith("--")) continue;
+    const [key, inline] = arg.slice(2).split("=");
+    if (!key) continue;
+    if (key === "verbose") {
+      flags.add(key);
+      continue;
+    }
+    const value = inline ?? args[index + 1];
+    if (inline === undefined) index += 1;
+    if (value !== undefined) values.set(key, value);
+  }
+  return {
+    character: values.get("character"),
+    format: values.get("format") === "json" ? "json" : "table",
+    verbose: flags.has("verbose"),
+  };
+};
+
+if (process.argv[1]?.includes("coverage")) {
+  const options = parseArgs(process.argv.slice(2));
+  const selected = options.character
+    ? roster.filter((character) => character.id === options.character)
+    : roster;
+  if (!selected.length) {
+    console.error(`Unknown character "${options.character}".`);
+    process.exitCode = 1;
+  } else {
+    const report = buildCoverageReport(selected);
+    if (options.format === "json") {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      formatCoverageTable(report, options.verbose).forEach((line) => console.log(line));
+    }
+    if (report.unhandled.length) {
+      process.exitCode = 1;
+    }
+  }
+}
@@ -0,0 +1,367 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { characters as roster } from "@ua/data";
+import type { Character } from "@ua/data";
+import {
+  applyAction,
+  createMatchState,
+  exportTranscript,
+  getLegalActions,
+  getStateChecksum,
+  replayTranscript,
+  type Action,
+  type MatchRules,
+  type MatchState,
+  type MatchTranscript,
+  type PlayerId,
+} from "./index.ts";
+import { createRngState, nextInt, type RngState } from "./rng.ts";
+
+export type FuzzInvariant = "hp" | "resources" | "cards" | "defeated_cards" | "replay" | "error";
+
+export type FuzzViolation = {
+  invariant: FuzzInvariant;
+  message: string;
+};
+
+export type FuzzOptions = {
+  seeds: number;
+  seed: number;
+  maxActions: number;
+  rules?: Partial<MatchRules>;
+};
+
+export type FuzzCase = FuzzViolation & {
+  seed: number;
+  step: number;
+  transcript: MatchTranscript;
+};
+
+export type FuzzCaseResult =
+  | { status: "passed" }
+  | { status: "violated"; violation: FuzzViolation }
+  | { status: "diverged"; step: number; message: string };
+
+export type FuzzReport = {
+  runs: number;
+  actions: number;
+  failures: FuzzCase[];
+};
+
+type FuzzPlayers = MatchTranscript["players"];
+
+const defaultMaxActions = 400;
+
+export const fuzzCaseDir = new URL("../fuzz-cases/", import.meta.url);
+
+const getCardLocations = (state: MatchState) => {
+  const locations = new Map<string, string[]>();
+  const add = (id: string, location: string) => {
+    locations.set(id, [...(locations.get(id) ?? []), location]);
+  };
+  (["p1", "p2"] as const).forEach((playerId) => {
+    const team = state.players[playerId];
+    const piles = {
+      deck: team.deck,
+      hand: team.hand,
+      discard: team.discard,
+      exhausted: team.exhausted,
+      defeated: team.defeated,
+    };
+    Object.entries(piles).forEach(([pile, cards]) => {
+      cards.forEach((instance) => add(instance.id, `${playerId} ${pile}`));
+    });
+  });
+  Object.values(state.zones).forEach((zone) => {
+    zone.cards.forEach((entry) => {
+      if (entry.cardInstance) add(entry.cardInstance.id, `${zone.zone} zone`);
+    });
+  });
+  return locations;
+};
+
+export const checkInvariants = (
+  state: MatchState,
+  previous?: MatchState
+): FuzzViolation | null => {
+  for (const playerId of ["p1", "p2"] as const) {
+    const team = state.players[playerId];
+    if (team.energy < 0 || team.ultimate < 0) {
+      return {
+        invariant: "resources",
+        message: `${playerId} has negative resources (Energy ${team.energy}, Ultimate ${team.ultimate}).`,
+      };
+    }
+    for (const member of team.characters) {
+      if (member.hp < 0 || member.hp > state.rules.maxHp) {
+        return {
+          invariant: "hp",
+          message: `${member.name} has ${member.hp} HP (max ${state.rules.maxHp}).`,
+        };
+      }
+      if (!member.defeated) continue;
+      const owned = [...team.deck, ...team.hand, ...team.discard, ...team.exhausted].find(
+        (instance) => instance.ownerId === member.id
+      );
+      if (owned) {
+        return {
+          invariant: "defeated_cards",
+          message: `Defeated ${member.name} still owns card ${owned.id} (${owned.cardSlot}).`,
+        };
+      }
+    }
+  }
+
+  const locations = getCardLocations(state);
+  for (const [id, places] of locations) {
+    if (places.length > 1) {
+      return { invariant: "cards", message: `Card ${id} is in ${places.join(", ")}.` };
+    }
+  }
+  if (previous) {
+    for (const [id, places] of getCardLocations(previous)) {
+      if (!locations.has(id)) {
+        return { invariant: "cards", message: `Card ${id} vanished from ${places.join(", ")}.` };
+      }
+    }
+  }
+  return null;
+};
+
+const checkReplay = (state: MatchState, characters: Character[]): FuzzViolation | null => {
+  const transcript = exportTranscript(state);
+  if (!transcript) return null;
+  const replay = replayTranscript(characters, transcript);
+  if (replay.error) return { invariant: "replay", message: replay.error };
+  const expected = getStateChecksum({ ...state, transcript: undefined });
+  const actual = getStateChecksum({ ...replay.state, transcript: undefined });
+  if (expected !== actual) {
+    return { invariant: "replay", message: "Replayed state does not match the recorded state." };
+  }
+  return null;
+};
+
+const pickPlayers = (rng: RngState, characters: Character[], teamSize: number): FuzzPlayers => {
+  const pool = characters.map((character) => character.id);
+  for (let index = pool.length - 1; index > 0; index -= 1) {
+    const swap = nextInt(rng, 0, index);
+    [pool[index], pool[swap]] = [pool[swap], pool[index]];
+  }
+  const shared = pool.length < teamSize * 2;
+  return [
+    { id: "p1", name: "Fuzz A", characterIds: pool.slice(0, teamSize) },
+    {
+      id: "p2",
+      name: "Fuzz B",
+      characterIds: shared ? pool.slice(0, teamSize) : pool.slice(teamSize, teamSize * 2),
+    },
+  ];
+};
+
+const chooseRandomAction = (state: MatchState, rng: RngState, characters: Character[]) => {
+  const actions = (["p1", "p2"] as PlayerId[]).flatMap((playerId) =>
+    getLegalActions(state, playerId, characters)
+  );
+  return actions.length ? actions[nextInt(rng, 0, actions.length - 1)] : null;
+};
+
+const runActions = (
+  characters: Character[],
+  seed: number,
+  players: FuzzPlayers,
+  rules: Partial<MatchRules> | undefined,
+  actions: Action[]
+) => {
+  let state = createMatchState(characters, players, { seed, enableTranscript: true, rules });
+  for (let step = 0; step < actions.length; step += 1) {
+    const result = applyAction(state, actions[step], characters);
+    if (result.error) {
+      const violation: FuzzViolation = { invariant: "error", message: result.error };
+      return { state: result.state, step, violation };
+    }
+    const violation = checkInvariants(result.state, state);
+    state = result.state;
+    if (violation) return { state, step, violation };
+  }
+  return { state, step: actions.length, violation: checkReplay(state, characters) };
+};
+
+const getTranscriptActions = (transcript: MatchTranscript) =>
+  transcript.actions.map((entry) => entry.action);
+
+export const shrinkFuzzCase = (failure: FuzzCase, characters: Character[] = roster): FuzzCase => {
+  const { seed, transcript } = failure;
+  const reproduces = (actions: Action[]) => {
+    const result = runActions(characters, seed, transcript.players, transcript.rules, actions);
+    return result.violation?.invariant === failure.invariant ? result : null;
+  };
+  let actions = getTranscriptActions(transcript).slice(0, failure.step + 1);
+  for (let size = Math.floor(actions.length / 2); size >= 1; size = Math.floor(size / 2)) {
+    for (let start = actions.length - size; start >= 0; start -= size) {
+      const candidate = [...actions.slice(0, start), ...actions.slice(start + size)];
+      if (reproduces(candidate)) actions = candidate;
+    }
+  }
+  const result = reproduces(actions);
+  if (!result?.violation) return failure;
+  return {
+    ...result.violation,
+    seed,
+    step: result.step,
+    transcript: exportTranscript(result.state) ?? transcript,
+  };
+};
+
+export const runFuzzSeed = (
+  seed: number,
+  options: Pick<FuzzOptions, "maxActions" | "rules">,
+  characters: Character[] = roster
+): { actions: number; failure: FuzzCase | null } => {
+  const rng = createRngState(seed);
+  const teamSize = options.rules?.teamSize ?? 3;
+  const players = pickPlayers(rng, characters, teamSize);
+  let state = createMatchState(characters, players, {
+    seed,
+    enableTranscript: true,
+    rules: options.rules,
+  });
+  const fail = (violation: FuzzViolation, step: number) => ({
+    actions: step + 1,
+    failure: {
+      ...violation,
+      seed,
+      step,
+      transcript: exportTranscript(state) as MatchTranscript,
+    },
+  });
+  const initial = checkInvariants(state);
+  if (initial) return fail(initial, 0);
+
+  let step = 0;
+  for (; step < options.maxActions && state.phase !== "finished"; step += 1) {
+    const action = chooseRandomAction(state, rng, characters);
+    if (!action) break;
+    const result = applyAction(state, action, characters);
+    const previous = state;
+    state = result.state;
+    if (result.error) return fail({ invariant: "error" as const, message: result.error }, step);
+    const violation = checkInvariants(state, previous);
+    if (violation) return fail(violation, step);
+  }
+  const replay = checkReplay(state, characters);
+  if (replay) return fail(replay, Math.max(0, step - 1));
+  return { actions: step, failure: null };
+};
+
+export const runFuzz = (options: FuzzOptions, characters: Character[] = roster): FuzzReport => {
+  const report: FuzzReport = { runs: 0, actions: 0, failures: [] };
+  for (let offset = 0; offset < options.seeds; offset += 1) {
+    const result = runFuzzSeed(options.seed + offset, options, characters);
+    report.runs += 1;
+    report.actions += result.actions;
+    if (result.failure) report.failures.push(shrinkFuzzCase(result.failure, characters));
+  }
+  return report;
+};
+
+export const loadFuzzCases = (): { file: string; fuzzCase: FuzzCase }[] => {
+  if (!existsSync(fuzzCaseDir)) return [];
+  return readdirSync(fuzzCaseDir)
+    .filter((file: string) => file.endsWith(".json"))
+    .sort()
+    .map((file: string) => ({
+      file,
+      fuzzCase: JSON.parse(readFileSync(new URL(file, fuzzCaseDir), "utf8")) as FuzzCase,
+    }));
+};
+
+export const checkFuzzCase = (
+  fuzzCase: FuzzCase,
+  characters: Character[] = roster
+): FuzzCaseResult => {
+  const { seed, transcript } = fuzzCase;
+  const actions = getTranscriptActions(transcript);
+  const { step, violation } = runActions(characters, seed, transcript.players, transcript.rules, actions);
+  if (!violation) return { status: "passed" };
+  const reproducedError = fuzzCase.invariant === "error" && step === actions.length - 1;
+  if (violation.invariant === "error" && !reproducedError) {
+    return { status: "diverged", step, message: violation.message };
+  }
+  return { status: "violated", violation };
+};
+
+const saveFuzzCase = (fuzzCase: FuzzCase) => {
+  mkdirSync(fuzzCaseDir, { recursive: true });
+  const file = `seed-${fuzzCase.seed}-${fuzzCase.invariant}.json`;
+  writeFileSync(new URL(file, fuzzCaseDir), `${JSON.stringify(fuzzCase, null, 2)}\n`);
+  return file;
+};
+
+const usage = [
+  "Usage: pnpm fuzz [--seeds N] [--seed N] [--max-actions N] [--team-size N] [--save]",
+].join("\n");
+
+const parseArgs = (
+  args: string[]
+): { options?: FuzzOptions & { save: boolean }; error?: string } => {
+  const values = new Map<string, string>();
+  let save = false;
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === "--") continue;
+    if (arg === "--save") {
+      save = true;
+      continue;
+    }
+    if (!arg?.startsWith("--")) return { error: `Unexpected argument "${arg}".` };
+    const [key, inline] = arg.slice(2).split("=");
+    const value = inline ?? args[index + 1];
+    if (inline === undefined) index += 1;
+    if (!key || value === undefined) return { error: `Missing value for "${arg}".` };
+    values.set(key, value);
+  }
+  const errors: string[] = [];
+  const known = new Set(["seeds", "seed", "max-actions", "team-size"]);
+  [...values.keys()]
+    .filter((key) => !known.has(key))
+    .forEach((key) => errors.push(`Unknown option "--${key}".`));
+  const readInt = (key: string, fallback: number, min: number) => {
+    const raw = values.get(key);
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) {
+      errors.push(`--${key} must be a whole number of at least ${min} (got "${raw}").`);
+    }
+    return value;
+  };
+  const options = {
+    seeds: readInt("seeds", 25, 1),
+    seed: readInt("seed", 1, 0),
+    maxActions: readInt("max-actions", defaultMaxActions, 1),
+    rules: values.has("team-size") ? { teamSize: readInt("team-size", 3, 1) } : undefined,
+    save,
+  };
+  return errors.length ? { error: errors.join("\n") } : { options };
+};
+
+if (process.argv[1]?.includes("fuzz")) {
+  const { options, error } = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(error);
+    console.error(usage);
+    process.exitCode = 1;
+  } else {
+    const report = runFuzz(options);
+    console.log(
+      `Fuzzed ${report.runs} seed(s) from ${options.seed}: ${report.actions} actions, ${report.failures.length} failure(s).`
+    );
+    report.failures.forEach((failure) => {
+      const saved = options.save ? ` -> fuzz-cases/${saveFuzzCase(failure)}` : "";
+      console.log(
+        `FAIL seed ${failure.seed} [${failure.invariant}] after ${failure.transcript.actions.length} action(s): ${failure.message}${saved}`
+      );
+    });
+    if (report.failures.length) {
+      process.exitCode = 1;
+    }
+  }
+}
@@ -1,15 +1,41 @@
-import type { Character } from "@ua/data";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import {
+  characters as roster,
+  formatDataIssue,
+  keywords,
+  statusEffects,
+  validateCharacters,
+} from "@ua/data";
+import type { Character, Effect, EffectCondition } from "@ua/data";
 import {
   applyAction,
+  applyStatePatch,
+  chooseAiAction,
+  conditionNeedsTarget,
   createMatchState,
+  createStatePatch,
   exportTranscript,
+  getAiFallbackAction,
+  getCardEffectCoverage,
+  getLegalActions,
+  isEffectConditionMet,
+  migrateTranscript,
+  predictZoneResolution,
+  previewPlayDamage,
+  projectMatchState,
   replayTranscript,
+  replayTranscriptSteps,
   type Action,
+  type AiLevel,
+  type CardInstance,
+  type ClashPrediction,
   type MatchCharacterId,
   type MatchState,
   type PlayerId,
+  type StatePatch,
   type ZoneName,
-} from "./index.js";
+} from "./index.ts";
+import { checkFuzzCase, loadFuzzCases } from "./fuzz.ts";
 
 type GoldenResult = {
   label: string;
@@ -17,6 +43,24 @@ type GoldenResult = {
   details?: string;
 };
 
+export type GoldenTestResult = GoldenResult & {
+  name: string;
+  durationMs: number;
+};
+
+type GoldenFormat = "text" | "json" | "junit";
+
+type GoldenOptions = {
+  test?: string;
+  format: GoldenFormat;
+  output?: string;
+  update: boolean;
+  list: boolean;
+};
+
+const snapshotDir = new URL("../snapshots/", import.meta.url);
+const snapshotSettings = { update: false, updated: [] as string[] };
+
 const goldenSeed = 424242;
 const movementPassActions = [
   { action: { type: "pass", playerId: "p1" } },
@@ -273,13 +317,6 @@ const potencyStatus = (potency: number, count: number) => ({
   value: 0,
 });
 
-const stackStatus = (stack: number) => ({
-  potency: 0,
-  count: 0,
-  stack,
-  value: 0,
-});
-
 const playFromHand = (
   state: MatchState,
   playerId: PlayerId,
@@ -383,9 +420,40 @@ const runReplaySnapshot = (characters: Character[], state: MatchState) => {
   return replay.state;
 };
 
-const assertSnapshot = (label: string, actual: unknown, expected: unknown) => {
+const getSnapshotUrl = (label: string) =>
+  new URL(
+    `${label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")}.json`,
+    snapshotDir
+  );
+
+const readStoredSnapshot = (label: string, actualJson: string) => {
+  const url = getSnapshotUrl(label);
+  const stored = existsSync(url)
+    ? JSON.stringify(JSON.parse(readFileSync(url, "utf8")), null, 2)
+    : undefined;
+  if (snapshotSettings.update) {
+    if (stored !== actualJson) {
+      mkdirSync(snapshotDir, { recursive: true });
+      writeFileSync(url, `${actualJson}\n`);
+      snapshotSettings.updated.push(label);
+    }
+    return actualJson;
+  }
+  if (stored === undefined) {
+    throw new Error(`${label} has no stored snapshot. Run pnpm golden --update to record it.`);
+  }
+  return stored;
+};
+
+const assertSnapshot = (label: string, actual: unknown, expected?: unknown) => {
   const actualJson = JSON.stringify(actual, null, 2);
-  const expectedJson = JSON.stringify(expected, null, 2);
+  const expectedJson =
+    expected === undefined
+      ? readStoredSnapshot(label, actualJson)
+      : JSON.stringify(expected, null, 2);
   if (actualJson !== expectedJson) {
     throw new Error(`${label} mismatch.\nExpected:\n${expectedJson}\nActual:\n${actualJson}`);
   }
@@ -408,35 +476,16 @@ const runInterruptChainTest = (): GoldenResult => {
     pausedZones: [...state.pausedZones],
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    activeZone: "fast",
-    pausedZones: ["slow", "normal"],
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players: goldenPlayers,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "slow", hasCardInstance: true } },
-        { action: { type: "play_card", playerId: "p2", zone: "normal", hasCardInstance: true } },
-        { action: { type: "play_card", playerId: "p1", zone: "fast", hasCardInstance: true } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     activeZone: replayState.activeZone,
     pausedZones: [...replayState.pausedZones],
   };
-  const expectedReplay = {
-    activeZone: "fast",
-    pausedZones: ["slow", "normal"],
-  };
 
   try {
-    assertSnapshot("Interrupt chain snapshot", snapshot, expected);
-    assertSnapshot("Interrupt chain replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Interrupt chain snapshot", snapshot);
+    assertSnapshot("Interrupt chain replay", replaySnapshot);
     return { label: "Fast interrupt chain is deterministic", ok: true };
   } catch (error) {
     return { label: "Fast interrupt chain is deterministic", ok: false, details: String(error) };
@@ -460,31 +509,6 @@ const runCancelledAlwaysTest = (): GoldenResult => {
     transcript: snapshotTranscript(state),
   };
 
-  const expected = {
-    activeZone: null,
-    cancelledLog: true,
-    p1Statuses: {
-      "Always Buff": { potency: 0, count: 0, stack: 0, value: 1 },
-      "OnUse Buff": { potency: 0, count: 0, stack: 0, value: 0 },
-    },
-    p2Statuses: {
-      "Always Buff": { potency: 0, count: 0, stack: 0, value: 1 },
-      "OnUse Buff": { potency: 0, count: 0, stack: 0, value: 0 },
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players: goldenPlayers,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "play_card", playerId: "p2", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "pass", playerId: "p2" } },
-      ],
-    },
-  };
-
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     activeZone: replayState.activeZone,
@@ -492,16 +516,10 @@ const runCancelledAlwaysTest = (): GoldenResult => {
     p1Statuses: snapshotStatuses(replayState, "p1", ["Always Buff", "OnUse Buff"]),
     p2Statuses: snapshotStatuses(replayState, "p2", ["Always Buff", "OnUse Buff"]),
   };
-  const expectedReplay = {
-    activeZone: null,
-    cancelledLog: true,
-    p1Statuses: expected.p1Statuses,
-    p2Statuses: expected.p2Statuses,
-  };
 
   try {
-    assertSnapshot("Cancelled vs Always snapshot", snapshot, expected);
-    assertSnapshot("Cancelled vs Always replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Cancelled vs Always snapshot", snapshot);
+    assertSnapshot("Cancelled vs Always replay", replaySnapshot);
     return { label: "Cancelled vs Always applies only always effects", ok: true };
   } catch (error) {
     return {
@@ -614,14 +632,9 @@ const runCannotPlayTest = (): GoldenResult => {
     activeZone: blockedAttempt.state.activeZone,
     p1Locks: blockedAttempt.state.playLocks.p1.length,
   };
-  const expected = {
-    error: "Cannot play cards this combat round.",
-    activeZone: "normal",
-    p1Locks: 1,
-  };
 
   try {
-    assertSnapshot("Cannot play snapshot", snapshot, expected);
+    assertSnapshot("Cannot play snapshot", snapshot);
     return { label: "Cannot play cards blocks plays during combat", ok: true };
   } catch (error) {
     return { label: "Cannot play cards blocks plays during combat", ok: false, details: String(error) };
@@ -751,35 +764,6 @@ const runTimingWindowsTest = (): GoldenResult => {
     afterResolve,
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    activeZone: null,
-    afterPlay: {
-      Windup: valueStatus(1),
-      "Before Buff": valueStatus(0),
-      "Use Buff": valueStatus(0),
-      "Hit Buff": valueStatus(0),
-      "After Buff": valueStatus(0),
-    },
-    afterResolve: {
-      Windup: valueStatus(1),
-      "Before Buff": valueStatus(1),
-      "Use Buff": valueStatus(1),
-      "Hit Buff": valueStatus(0),
-      "After Buff": valueStatus(1),
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "play_card", playerId: "p2", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "pass", playerId: "p2" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
@@ -792,14 +776,10 @@ const runTimingWindowsTest = (): GoldenResult => {
       "After Buff",
     ]),
   };
-  const expectedReplay = {
-    activeZone: null,
-    p1Statuses: expected.afterResolve,
-  };
 
   try {
-    assertSnapshot("Timing window snapshot", snapshot, expected);
-    assertSnapshot("Timing window replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Timing window snapshot", snapshot);
+    assertSnapshot("Timing window replay", replaySnapshot);
     return { label: "Timing windows apply at the expected phases", ok: true };
   } catch (error) {
     return {
@@ -896,49 +876,16 @@ const runStatusExpiryTest = (): GoldenResult => {
     afterEnd,
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    afterResolve: {
-      p2Hp: 100,
-      burn: {
-        Burn: potencyStatus(2, 1),
-      },
-    },
-    afterEnd: {
-      turn: 2,
-      p2Hp: 98,
-      burn: {
-        Burn: potencyStatus(0, 0),
-      },
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "end_turn", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     p2Hp: getPrimary(replayState, "p2").hp,
     burn: snapshotStatuses(replayState, "p2", ["Burn"]),
   };
-  const expectedReplay = {
-    p2Hp: 98,
-    burn: {
-      Burn: potencyStatus(0, 0),
-    },
-  };
 
   try {
-    assertSnapshot("Status expiry snapshot", snapshot, expected);
-    assertSnapshot("Status expiry replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Status expiry snapshot", snapshot);
+    assertSnapshot("Status expiry replay", replaySnapshot);
     return { label: "Status expiry applies turn-end damage and decay", ok: true };
   } catch (error) {
     return {
@@ -1017,24 +964,6 @@ const runCostSpeedModifierTest = (): GoldenResult => {
     p1Statuses: snapshotStatuses(state, "p1", ["Haste", "Strain"]),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    activeZone: "fast",
-    p1Energy: 3,
-    p1Ultimate: 2,
-    p1Statuses: {
-      Haste: potencyStatus(1, 1),
-      Strain: potencyStatus(1, 1),
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "fast", hasCardInstance: true } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
@@ -1042,15 +971,10 @@ const runCostSpeedModifierTest = (): GoldenResult => {
     p1Energy: replayState.players.p1.energy,
     p1Ultimate: replayState.players.p1.ultimate,
   };
-  const expectedReplay = {
-    activeZone: "fast",
-    p1Energy: 3,
-    p1Ultimate: 2,
-  };
 
   try {
-    assertSnapshot("Cost and speed snapshot", snapshot, expected);
-    assertSnapshot("Cost and speed replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Cost and speed snapshot", snapshot);
+    assertSnapshot("Cost and speed replay", replaySnapshot);
     return { label: "Cost and speed modifiers apply to play legality and spend", ok: true };
   } catch (error) {
     return {
@@ -1131,35 +1055,16 @@ const runMitigationStackingTest = (): GoldenResult => {
     p2Hp: getPrimary(state, "p2").hp,
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    activeZone: null,
-    p2Hp: 96,
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     activeZone: replayState.activeZone,
     p2Hp: getPrimary(replayState, "p2").hp,
   };
-  const expectedReplay = {
-    activeZone: null,
-    p2Hp: 96,
-  };
 
   try {
-    assertSnapshot("Mitigation stacking snapshot", snapshot, expected);
-    assertSnapshot("Mitigation stacking replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Mitigation stacking snapshot", snapshot);
+    assertSnapshot("Mitigation stacking replay", replaySnapshot);
     return { label: "Mitigation stacking resolves in a deterministic order", ok: true };
   } catch (error) {
     return {
@@ -1244,8 +1149,6 @@ const runSpendFlowTest = (): GoldenResult => {
   if (!cardInstanceId) {
     return { label: "Spend and hand flow stays consistent", ok: false, details: "Card missing." };
   }
-  const handBefore = state.players.p1.hand.length;
-  const discardBefore = state.players.p1.discard.length;
 
   state = applyOrThrow(
     state,
@@ -1263,26 +1166,6 @@ const runSpendFlowTest = (): GoldenResult => {
     p1Ammo: snapshotStatuses(state, "p1", ["Test Ammo"]),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    activeZone: null,
-    p2Hp: 95,
-    p1Hand: handBefore - 1,
-    p1Discard: discardBefore + 1,
-    p1Ammo: {
-      "Test Ammo": valueStatus(1),
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
@@ -1291,18 +1174,10 @@ const runSpendFlowTest = (): GoldenResult => {
     p1Discard: replayState.players.p1.discard.length,
     p1Ammo: snapshotStatuses(replayState, "p1", ["Test Ammo"]),
   };
-  const expectedReplay = {
-    p2Hp: 95,
-    p1Hand: handBefore - 1,
-    p1Discard: discardBefore + 1,
-    p1Ammo: {
-      "Test Ammo": valueStatus(1),
-    },
-  };
 
   try {
-    assertSnapshot("Spend flow snapshot", snapshot, expected);
-    assertSnapshot("Spend flow replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Spend flow snapshot", snapshot);
+    assertSnapshot("Spend flow replay", replaySnapshot);
     return { label: "Spend and hand flow stays consistent", ok: true };
   } catch (error) {
     return {
@@ -1451,59 +1326,16 @@ const runHealingReductionTest = (): GoldenResult => {
     afterEnd,
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    afterResolve: {
-      p1Hp: 63,
-      p1Statuses: {
-        Wound: stackStatus(3),
-        Wither: stackStatus(20),
-        Regen: potencyStatus(10, 1),
-        Renewal: potencyStatus(10, 1),
-      },
-    },
-    afterEnd: {
-      turn: 2,
-      p1Hp: 73,
-      p1Statuses: {
-        Wound: stackStatus(2),
-        Wither: stackStatus(19),
-        Regen: potencyStatus(0, 0),
-        Renewal: potencyStatus(0, 0),
-      },
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "end_turn", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     p1Hp: getPrimary(replayState, "p1").hp,
     p1Statuses: snapshotStatuses(replayState, "p1", ["Wound", "Wither", "Regen", "Renewal"]),
   };
-  const expectedReplay = {
-    p1Hp: 73,
-    p1Statuses: expected.afterEnd.p1Statuses,
-  };
 
   try {
-    assertSnapshot("Healing reduction snapshot", snapshot, expected);
-    assertSnapshot("Healing reduction replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Healing reduction snapshot", snapshot);
+    assertSnapshot("Healing reduction replay", replaySnapshot);
     return { label: "Healing reduction applies to heals and Regen/Renewal", ok: true };
   } catch (error) {
     return {
@@ -1593,42 +1425,16 @@ const runThornsOnHitTest = (): GoldenResult => {
     p2Thorns: snapshotStatuses(state, "p2", ["Thorns"]),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    p1Hp: 97,
-    p2Hp: 90,
-    p2Thorns: {
-      Thorns: potencyStatus(3, 1),
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "slow", hasCardInstance: true } },
-        { action: { type: "play_card", playerId: "p2", zone: "fast", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     p1Hp: getPrimary(replayState, "p1").hp,
     p2Hp: getPrimary(replayState, "p2").hp,
   };
-  const expectedReplay = {
-    p1Hp: 97,
-    p2Hp: 90,
-  };
 
   try {
-    assertSnapshot("Thorns on-hit snapshot", snapshot, expected);
-    assertSnapshot("Thorns on-hit replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Thorns on-hit snapshot", snapshot);
+    assertSnapshot("Thorns on-hit replay", replaySnapshot);
     return { label: "Thorns deals damage on hit", ok: true };
   } catch (error) {
     return { label: "Thorns deals damage on hit", ok: false, details: String(error) };
@@ -1818,36 +1624,6 @@ const runTurnEndDecayTest = (): GoldenResult => {
     ]),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    turn: 2,
-    p1Statuses: {
-      Barrier: valueStatus(2),
-      Invulnerable: valueStatus(1),
-      Thorns: potencyStatus(2, 1),
-      Disarm: stackStatus(1),
-      Root: stackStatus(1),
-      Seal: stackStatus(1),
-      Silence: stackStatus(1),
-      Stagger: stackStatus(1),
-      Taunt: stackStatus(1),
-      Wound: stackStatus(1),
-      Wither: stackStatus(1),
-      Cover: valueStatus(0),
-      Stun: stackStatus(0),
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "end_turn", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
@@ -1868,14 +1644,10 @@ const runTurnEndDecayTest = (): GoldenResult => {
       "Stun",
     ]),
   };
-  const expectedReplay = {
-    turn: 2,
-    p1Statuses: expected.p1Statuses,
-  };
 
   try {
-    assertSnapshot("Turn End decay snapshot", snapshot, expected);
-    assertSnapshot("Turn End decay replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Turn End decay snapshot", snapshot);
+    assertSnapshot("Turn End decay replay", replaySnapshot);
     return { label: "Turn End decay applies to newly added statuses", ok: true };
   } catch (error) {
     return {
@@ -1962,21 +1734,6 @@ const runCreatedCardDestinationTest = (): GoldenResult => {
     createdInHand,
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    createdInDiscard: 1,
-    createdInHand: false,
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
@@ -1985,14 +1742,10 @@ const runCreatedCardDestinationTest = (): GoldenResult => {
     ).length,
     createdInHand: replayState.players.p1.hand.some((card) => card.cardSlot === "token"),
   };
-  const expectedReplay = {
-    createdInDiscard: expected.createdInDiscard,
-    createdInHand: expected.createdInHand,
-  };
 
   try {
-    assertSnapshot("Created card destination snapshot", snapshot, expected);
-    assertSnapshot("Created card destination replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Created card destination snapshot", snapshot);
+    assertSnapshot("Created card destination replay", replaySnapshot);
     return { label: "Created cards default to discard when no destination is specified", ok: true };
   } catch (error) {
     return {
@@ -2072,23 +1825,6 @@ const runNegatedTest = (): GoldenResult => {
     p2Shield: state.players.p2.characters[0]?.shield ?? 0,
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    negatedLog: true,
-    p2Hp: 100,
-    p2Shield: 8,
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "play_card", playerId: "p2", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "pass", playerId: "p2" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
@@ -2096,15 +1832,10 @@ const runNegatedTest = (): GoldenResult => {
     p2Hp: replayState.players.p2.characters[0]?.hp ?? 0,
     p2Shield: replayState.players.p2.characters[0]?.shield ?? 0,
   };
-  const expectedReplay = {
-    negatedLog: expected.negatedLog,
-    p2Hp: expected.p2Hp,
-    p2Shield: expected.p2Shield,
-  };
 
   try {
-    assertSnapshot("Negated snapshot", snapshot, expected);
-    assertSnapshot("Negated replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Negated snapshot", snapshot);
+    assertSnapshot("Negated replay", replaySnapshot);
     return { label: "Negated cards skip all effects", ok: true };
   } catch (error) {
     return { label: "Negated cards skip all effects", ok: false, details: String(error) };
@@ -2184,40 +1915,16 @@ const runRedirectTest = (): GoldenResult => {
     ),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    redirectLog: true,
-    sourceStrength: {
-      Strength: { potency: 1, count: 1, stack: 0, value: 0 },
-    },
-    allyStrength: Object.fromEntries(
-      state.players.p1.characters.slice(1).map((member) => [member.id, 0])
-    ),
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     redirectLog: replayState.log.some((line) => line.includes("redirects")),
     sourceStrength: snapshotStatuses(replayState, "p1", ["Strength"]),
   };
-  const expectedReplay = {
-    redirectLog: expected.redirectLog,
-    sourceStrength: expected.sourceStrength,
-  };
 
   try {
-    assertSnapshot("Redirect snapshot", snapshot, expected);
-    assertSnapshot("Redirect replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Redirect snapshot", snapshot);
+    assertSnapshot("Redirect replay", replaySnapshot);
     return { label: "Redirect retargets single-target effects when legal", ok: true };
   } catch (error) {
     return {
@@ -2365,17 +2072,9 @@ const runRedirectChoiceTest = (): GoldenResult => {
     coverLeftHp: finalCoverLeft?.hp ?? 0,
     coverRightHp: finalCoverRight?.hp ?? 0,
   };
-  const expected = {
-    redirectLog: true,
-    targetHp: 100,
-    coverLeftStatus: 1,
-    coverRightStatus: 0,
-    coverLeftHp: 100,
-    coverRightHp: 95,
-  };
 
   try {
-    assertSnapshot("Redirect choice snapshot", snapshot, expected);
+    assertSnapshot("Redirect choice snapshot", snapshot);
     return { label: "Redirect choice honors the selected Cover target", ok: true };
   } catch (error) {
     return {
@@ -2684,18 +2383,9 @@ const runDeckManipulationTest = (): GoldenResult => {
     searchHandSlots,
     searchDeckSlots,
   };
-  const expected = {
-    scryBeforeDeck: ["2", "3", "4", "5"],
-    scryAfterDeck: ["2", "3", "4", "5"],
-    seekHandSlots: ["2", "3"],
-    seekDiscardSlots: ["5"],
-    seekDeckSlots: ["4"],
-    searchHandSlots: ["2"],
-    searchDeckSlots: ["3", "4", "5"],
-  };
 
   try {
-    assertSnapshot("Deck manipulation snapshot", snapshot, expected);
+    assertSnapshot("Deck manipulation snapshot", snapshot);
     return { label: "Scry/Seek/Search manipulate the deck deterministically", ok: true };
   } catch (error) {
     return {
@@ -2829,13 +2519,9 @@ const runScryChoiceTest = (): GoldenResult => {
     deckSlots: state.players.p1.deck.map((card) => card.cardSlot),
     discardSlots: state.players.p1.discard.map((card) => card.cardSlot).sort(),
   };
-  const expected = {
-    deckSlots: ["2", "3", "5"],
-    discardSlots: ["1", "4"],
-  };
 
   try {
-    assertSnapshot("Scry choice snapshot", snapshot, expected);
+    assertSnapshot("Scry choice snapshot", snapshot);
     return { label: "Scry choice applies discard and reorder selections", ok: true };
   } catch (error) {
     return {
@@ -2968,14 +2654,9 @@ const runSeekChoiceTest = (): GoldenResult => {
     discardSlots: state.players.p1.discard.map((card) => card.cardSlot).sort(),
     deckSlots: state.players.p1.deck.map((card) => card.cardSlot).sort(),
   };
-  const expected = {
-    handSlots: ["5"],
-    discardSlots: ["1", "3", "4"],
-    deckSlots: ["2"],
-  };
 
   try {
-    assertSnapshot("Seek choice snapshot", snapshot, expected);
+    assertSnapshot("Seek choice snapshot", snapshot);
     return { label: "Seek choice honors the selected take list", ok: true };
   } catch (error) {
     return {
@@ -3097,13 +2778,9 @@ const runSearchChoiceTest = (): GoldenResult => {
     handSlots: state.players.p1.hand.map((card) => card.cardSlot).sort(),
     deckSlots: state.players.p1.deck.map((card) => card.cardSlot).sort(),
   };
-  const expected = {
-    handSlots: ["3"],
-    deckSlots: ["2", "4"],
-  };
 
   try {
-    assertSnapshot("Search choice snapshot", snapshot, expected);
+    assertSnapshot("Search choice snapshot", snapshot);
     return { label: "Search choice honors the selected card", ok: true };
   } catch (error) {
     return {
@@ -3210,42 +2887,14 @@ const runPositioningTest = (): GoldenResult => {
   swapState = applyOrThrow(swapState, { type: "pass", playerId: "p1" }, characters);
   const swapPositions = snapshotPositions(swapState, "p1");
 
-  const pushTargetId = pushState.players.p2.characters[1]?.id ?? pushState.players.p2.characters[0].id;
-  const pushSwapId = pushState.players.p2.characters[2]?.id ?? pushState.players.p2.characters[0].id;
-  const pullTargetId = pullState.players.p2.characters[2]?.id ?? pullState.players.p2.characters[0].id;
-  const pullSwapId = pullState.players.p2.characters[1]?.id ?? pullState.players.p2.characters[0].id;
-  const swapSourceId = swapState.players.p1.characters[0]?.id ?? "";
-  const swapTargetId = swapState.players.p1.characters[2]?.id ?? "";
-
-  const expected = {
-    push: {
-      [pushTargetId]: 2,
-      [pushSwapId]: 1,
-    },
-    pull: {
-      [pullTargetId]: 1,
-      [pullSwapId]: 2,
-    },
-    swap: {
-      [swapSourceId]: 2,
-      [swapTargetId]: 0,
-    },
-  };
-
   const snapshot = {
     pushPositions,
     pullPositions,
     swapPositions,
   };
 
-  const expectedSnapshot = {
-    pushPositions: { ...pushPositions, ...expected.push },
-    pullPositions: { ...pullPositions, ...expected.pull },
-    swapPositions: { ...swapPositions, ...expected.swap },
-  };
-
   try {
-    assertSnapshot("Positioning snapshot", snapshot, expectedSnapshot);
+    assertSnapshot("Positioning snapshot", snapshot);
     return { label: "Push/Pull/Swap move characters along the line", ok: true };
   } catch (error) {
     return {
@@ -3324,16 +2973,9 @@ const runPushDirectionChoiceTest = (): GoldenResult => {
   const snapshot = {
     positions: snapshotPositions(state, "p2"),
   };
-  const expected = {
-    positions: {
-      [state.players.p2.characters[0].id]: 1,
-      [state.players.p2.characters[1].id]: 0,
-      [state.players.p2.characters[2].id]: 2,
-    },
-  };
 
   try {
-    assertSnapshot("Push direction snapshot", snapshot, expected);
+    assertSnapshot("Push direction snapshot", snapshot);
     return { label: "Push direction choice moves opposed targets as selected", ok: true };
   } catch (error) {
     return {
@@ -3417,20 +3059,25 @@ const runCounterTest = (): GoldenResult => {
   state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
   state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
 
+  const counterEventStart = state.events.length;
   state = applyOrThrow(state, playFromHand(state, "p2", "2", "normal"), characters);
-  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
-  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
 
   const snapshot = {
     counterLog: state.log.some((line) => line.includes("can Counter")),
     p1Hp: state.players.p1.characters[0]?.hp ?? 0,
+    counterPlayed: state.events
+      .slice(counterEventStart)
+      .flatMap((event) =>
+        event.type === "card_played" ? [`${event.playerId} ${event.cardName} ${event.zone}`] : []
+      ),
     transcript: snapshotTranscript(state),
   };
   const expected = {
     counterLog: true,
     p1Hp: 93,
+    counterPlayed: ["p2 Counter Slash normal"],
     transcript: {
-      version: 2,
+      version: 4,
       seed: goldenSeed,
       players,
       actions: [
@@ -3440,8 +3087,6 @@ const runCounterTest = (): GoldenResult => {
         { action: { type: "pass", playerId: "p1" } },
         { action: { type: "pass", playerId: "p2" } },
         { action: { type: "play_card", playerId: "p2", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p1" } },
-        { action: { type: "pass", playerId: "p2" } },
       ],
     },
   };
@@ -3578,12 +3223,6 @@ const runPurgeKeywordTest = (): GoldenResult => {
   state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
   const afterPurge = snapshotStatuses(state, "p1", ["Burn", "Strength"]);
 
-  const playPassSequence = [
-    { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-    { action: { type: "pass", playerId: "p2" } },
-    { action: { type: "pass", playerId: "p1" } },
-  ] as const;
-
   const snapshot = {
     afterBurn,
     afterStrength,
@@ -3592,53 +3231,15 @@ const runPurgeKeywordTest = (): GoldenResult => {
     afterPurge,
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    afterBurn: {
-      Burn: { potency: 3, count: 1, stack: 0, value: 0 },
-      Strength: { potency: 0, count: 0, stack: 0, value: 0 },
-    },
-    afterStrength: {
-      Burn: { potency: 3, count: 1, stack: 0, value: 0 },
-      Strength: { potency: 2, count: 1, stack: 0, value: 0 },
-    },
-    afterCleanse: {
-      Burn: { potency: 1, count: 1, stack: 0, value: 0 },
-      Strength: { potency: 2, count: 1, stack: 0, value: 0 },
-    },
-    afterDispel: {
-      Burn: { potency: 1, count: 1, stack: 0, value: 0 },
-      Strength: { potency: 0, count: 0, stack: 0, value: 0 },
-    },
-    afterPurge: {
-      Burn: { potency: 0, count: 0, stack: 0, value: 0 },
-      Strength: { potency: 0, count: 0, stack: 0, value: 0 },
-    },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        ...playPassSequence,
-        ...playPassSequence,
-        ...playPassSequence,
-        ...playPassSequence,
-        ...playPassSequence,
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     afterPurge: snapshotStatuses(replayState, "p1", ["Burn", "Strength"]),
   };
-  const expectedReplay = {
-    afterPurge: expected.afterPurge,
-  };
 
   try {
-    assertSnapshot("Cleanse/Dispel/Purge snapshot", snapshot, expected);
-    assertSnapshot("Cleanse/Dispel/Purge replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Cleanse/Dispel/Purge snapshot", snapshot);
+    assertSnapshot("Cleanse/Dispel/Purge replay", replaySnapshot);
     return { label: "Cleanse/Dispel/Purge reduce only the intended status types", ok: true };
   } catch (error) {
     return {
@@ -3649,6 +3250,351 @@ const runPurgeKeywordTest = (): GoldenResult => {
   }
 };
 
+const runStructuredKeywordEffectsTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Structured", characterIds: withFillersIds("structured-a") },
+    { id: "p2" as const, name: "Targets", characterIds: withFillersIds("structured-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "structured-a",
+      name: "Structured Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Structured keyword effect coverage.",
+      art: "structured-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Structured Scry",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "Self",
+          speed: "Normal",
+          effect: ["Look at the top 3 cards of your draw pile."],
+          effects: [{ timing: "on_use", type: "scry", count: 3 }],
+        },
+        {
+          slot: "6",
+          name: "Spare Strike",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Basic", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage."],
+        },
+        {
+          slot: "2",
+          name: "Structured Push",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Shove the target aside."],
+          effects: [{ timing: "on_use", type: "push", amount: 1 }],
+        },
+        {
+          slot: "3",
+          name: "Scorch Self",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "Self",
+          speed: "Normal",
+          effect: ["Inflict 3 Burn."],
+        },
+        {
+          slot: "4",
+          name: "Structured Cleanse",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "Self",
+          speed: "Normal",
+          effect: ["Soothe your burns."],
+          effects: [{ timing: "on_use", type: "cleanse", status: "Burn", amount: 2 }],
+        },
+        {
+          slot: "5",
+          name: "Structured Redirect",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "1 Ally",
+          speed: "Normal",
+          effect: ["Bless an ally, or yourself instead."],
+          effects: [
+            { timing: "before_use", type: "redirect", to: "self" },
+            {
+              timing: "on_use",
+              type: "inflict_status",
+              status: "Strength",
+              amount: { kind: "flat", value: 1 },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: "structured-b",
+      name: "Structured Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Structured keyword effect coverage.",
+      art: "structured-bravo.png",
+      innates: [],
+      cards: [],
+    },
+  ];
+
+  const seededCharacters = withFillers(characters);
+  const resolvePlay = (current: MatchState, action: Action) => {
+    let updated = applyOrThrow(current, action, seededCharacters);
+    updated = applyOrThrow(updated, { type: "pass", playerId: "p2" }, seededCharacters);
+    return applyOrThrow(updated, { type: "pass", playerId: "p1" }, seededCharacters);
+  };
+
+  let state = createSeededCombatState(characters, players);
+  const scryCardId = ensureCardInHand(state, "p1", "1");
+  if (!scryCardId) {
+    throw new Error("Missing card instance for structured scry.");
+  }
+  const p1 = state.players.p1;
+  p1.deck.push(...p1.hand.filter((card) => card.id !== scryCardId));
+  p1.hand = p1.hand.filter((card) => card.id === scryCardId);
+  p1.deck.sort((left, right) => left.cardSlot.localeCompare(right.cardSlot));
+  const [first, second, third] = p1.deck.slice(-3).reverse();
+  if (!first || !second || !third) {
+    throw new Error("Structured scry needs three cards in the draw pile.");
+  }
+  state = resolvePlay(state, {
+    type: "play_card",
+    playerId: "p1",
+    cardInstanceId: scryCardId,
+    zone: "normal",
+    scryDiscardIds: [first.id],
+    scryOrderIds: [third.id, second.id],
+  });
+  const afterScry = {
+    discardSlots: state.players.p1.discard.map((card) => card.cardSlot),
+    topSlots: state.players.p1.deck.slice(-2).reverse().map((card) => card.cardSlot),
+  };
+
+  const pushTarget = state.players.p2.characters[0];
+  const pushCardId = ensureCardInHand(state, "p1", "2");
+  if (!pushCardId) {
+    throw new Error("Missing card instance for structured push.");
+  }
+  state = resolvePlay(state, {
+    type: "play_card",
+    playerId: "p1",
+    cardInstanceId: pushCardId,
+    zone: "normal",
+    targetId: pushTarget.id,
+    pushDirection: "right",
+  });
+  const afterPush = snapshotPositions(state, "p2");
+
+  state = resolvePlay(state, playFromHand(state, "p1", "3", "normal"));
+  state = resolvePlay(state, playFromHand(state, "p1", "4", "normal"));
+  const afterCleanse = snapshotStatuses(state, "p1", ["Burn"]);
+
+  const allyTarget = state.players.p1.characters[1]?.id ?? state.players.p1.characters[0].id;
+  state = resolvePlay(state, playFromHandAtTarget(state, "p1", "5", "normal", allyTarget));
+  const afterRedirect = {
+    sourceStrength: snapshotStatuses(state, "p1", ["Strength"]),
+    redirectLog: state.log.some((line) => line.includes("redirects")),
+  };
+
+  const snapshot = {
+    afterScry,
+    afterPush,
+    afterCleanse,
+    afterRedirect,
+    transcript: snapshotTranscript(state),
+  };
+
+  try {
+    assertSnapshot("Structured keyword effects snapshot", snapshot);
+    return { label: "Structured scry, push, cleanse and redirect effects resolve", ok: true };
+  } catch (error) {
+    return {
+      label: "Structured scry, push, cleanse and redirect effects resolve",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runCardCriteriaTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Criteria", characterIds: withFillersIds("criteria-a") },
+    { id: "p2" as const, name: "Witness", characterIds: withFillersIds("criteria-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "criteria-a",
+      name: "Criteria Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Typed seek and search criteria coverage.",
+      art: "criteria-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Structured Seek",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "Self",
+          speed: "Normal",
+          effect: ["Look at the top 3 cards of your draw pile and keep up to 2 strikes."],
+          effects: [
+            { timing: "on_use", type: "seek", count: 3, criteria: { types: ["Attack"] }, take: 2 },
+          ],
+        },
+        {
+          slot: "2",
+          name: "Structured Search",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "Self",
+          speed: "Normal",
+          effect: ["Find your plan."],
+          effects: [{ timing: "on_use", type: "search", criteria: { name: "Attack Plan" } }],
+        },
+        {
+          slot: "3",
+          name: "Attack Plan",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "Self",
+          speed: "Normal",
+          effect: ["Draw 1 card."],
+        },
+        {
+          slot: "4",
+          name: "Spare Strike",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Basic", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage."],
+        },
+        {
+          slot: "5",
+          name: "Spare Guard",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Basic", "Defense", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage."],
+        },
+        {
+          slot: "6",
+          name: "Second Strike",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Basic", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage."],
+        },
+      ],
+    },
+    {
+      id: "criteria-b",
+      name: "Criteria Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Typed seek and search criteria coverage.",
+      art: "criteria-bravo.png",
+      innates: [],
+      cards: [],
+    },
+  ];
+
+  const seededCharacters = withFillers(characters);
+  const resolvePlay = (current: MatchState, action: Action) => {
+    let updated = applyOrThrow(current, action, seededCharacters);
+    updated = applyOrThrow(updated, { type: "pass", playerId: "p2" }, seededCharacters);
+    return applyOrThrow(updated, { type: "pass", playerId: "p1" }, seededCharacters);
+  };
+
+  let state = createSeededCombatState(characters, players);
+  const p1 = state.players.p1;
+  const seekCardId = ensureCardInHand(state, "p1", "1");
+  const searchCardId = ensureCardInHand(state, "p1", "2");
+  if (!seekCardId || !searchCardId) {
+    throw new Error("Missing card instances for typed criteria.");
+  }
+  const all = [...p1.hand, ...p1.deck];
+  const bySlot = (slot: string) =>
+    all.find((card) => card.characterId === "criteria-a" && card.cardSlot === slot);
+  const deckOrder = ["3", "5", "6", "4"].map(bySlot);
+  if (deckOrder.some((card) => !card)) {
+    throw new Error("Typed criteria needs every card in the pile.");
+  }
+  p1.hand = all.filter((card) => card.id === seekCardId || card.id === searchCardId);
+  p1.deck = [
+    ...all.filter((card) => !p1.hand.includes(card) && !deckOrder.includes(card)),
+    ...(deckOrder as CardInstance[]),
+  ];
+  const nameOf = (instance: CardInstance) =>
+    seededCharacters
+      .find((character) => character.id === instance.characterId)
+      ?.cards.find((card) => card.slot === instance.cardSlot)?.name ?? instance.cardSlot;
+
+  state = resolvePlay(state, {
+    type: "play_card",
+    playerId: "p1",
+    cardInstanceId: seekCardId,
+    zone: "normal",
+  });
+  const afterSeek = {
+    hand: state.players.p1.hand.map(nameOf),
+    discard: state.players.p1.discard.map(nameOf),
+  };
+
+  state = resolvePlay(state, {
+    type: "play_card",
+    playerId: "p1",
+    cardInstanceId: searchCardId,
+    zone: "normal",
+  });
+  const afterSearch = { hand: state.players.p1.hand.map(nameOf) };
+
+  const snapshot = { afterSeek, afterSearch };
+
+  try {
+    assertSnapshot("Card criteria snapshot", snapshot);
+    return { label: "Structured seek and search match typed card criteria", ok: true };
+  } catch (error) {
+    return {
+      label: "Structured seek and search match typed card criteria",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
 const runDeckReshuffleTest = (): GoldenResult => {
   const players = [
     { id: "p1" as const, name: "Alpha", characterIds: withFillersIds("shuffle-a") },
@@ -3740,16 +3686,6 @@ const runDeckReshuffleTest = (): GoldenResult => {
     p1Discard: state.players.p1.discard.length,
     shuffleLogs,
   };
-  const expected = {
-    turn: 2,
-    p1Hand: 2,
-    p1Deck: 0,
-    p1Discard: 0,
-    shuffleLogs: [
-      "Bravo shuffles their discard into the draw pile.",
-      "Alpha shuffles their discard into the draw pile.",
-    ],
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replayShuffleLogs = replayState.log.filter((entry) =>
@@ -3761,16 +3697,10 @@ const runDeckReshuffleTest = (): GoldenResult => {
     p1Discard: replayState.players.p1.discard.length,
     shuffleLogs: replayShuffleLogs,
   };
-  const expectedReplay = {
-    p1Hand: expected.p1Hand,
-    p1Deck: expected.p1Deck,
-    p1Discard: expected.p1Discard,
-    shuffleLogs: expected.shuffleLogs,
-  };
 
   try {
-    assertSnapshot("Deck reshuffle snapshot", snapshot, expected);
-    assertSnapshot("Deck reshuffle replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Deck reshuffle snapshot", snapshot);
+    assertSnapshot("Deck reshuffle replay", replaySnapshot);
     return { label: "Draw reshuffles discard when deck is empty", ok: true };
   } catch (error) {
     return {
@@ -3836,30 +3766,15 @@ const runAoeMultiTargetTest = (): GoldenResult => {
     p2Hp: state.players.p2.characters.map((member) => member.hp),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    p2Hp: [93, 93, 93],
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     p2Hp: replayState.players.p2.characters.map((member) => member.hp),
   };
-  const expectedReplay = { p2Hp: expected.p2Hp };
 
   try {
-    assertSnapshot("AoE snapshot", snapshot, expected);
-    assertSnapshot("AoE replay", replaySnapshot, expectedReplay);
+    assertSnapshot("AoE snapshot", snapshot);
+    assertSnapshot("AoE replay", replaySnapshot);
     return { label: "AoE hits all legal targets", ok: true };
   } catch (error) {
     return { label: "AoE hits all legal targets", ok: false, details: String(error) };
@@ -3926,30 +3841,15 @@ const runSplashAdjacencyTest = (): GoldenResult => {
     p2Hp: state.players.p2.characters.map((member) => member.hp),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    p2Hp: [92, 92, 100],
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [
-        ...movementPassActions,
-        { action: { type: "play_card", playerId: "p1", zone: "normal", hasCardInstance: true } },
-        { action: { type: "pass", playerId: "p2" } },
-        { action: { type: "pass", playerId: "p1" } },
-      ],
-    },
-  };
 
   const replayState = runReplaySnapshot(characters, state);
   const replaySnapshot = {
     p2Hp: replayState.players.p2.characters.map((member) => member.hp),
   };
-  const expectedReplay = { p2Hp: expected.p2Hp };
 
   try {
-    assertSnapshot("Splash snapshot", snapshot, expected);
-    assertSnapshot("Splash replay", replaySnapshot, expectedReplay);
+    assertSnapshot("Splash snapshot", snapshot);
+    assertSnapshot("Splash replay", replaySnapshot);
     return { label: "Splash hits adjacent targets", ok: true };
   } catch (error) {
     return { label: "Splash hits adjacent targets", ok: false, details: String(error) };
@@ -4074,80 +3974,2027 @@ const runTransformTargetExclusionTest = (): GoldenResult => {
     p2Slots: countCardSlots(state.players.p2),
     transcript: snapshotTranscript(state),
   };
-  const expected = {
-    p1Slots: { "1": 1, "3": 1 },
-    p2Slots: { "1": 1, "3": 1 },
-    transcript: {
-      version: 2,
-      seed: goldenSeed,
-      players,
-      actions: [],
+
+  const replayState = runReplaySnapshot(characters, state);
+  const replaySnapshot = {
+    p1Slots: countCardSlots(replayState.players.p1),
+    p2Slots: countCardSlots(replayState.players.p2),
+  };
+
+  try {
+    assertSnapshot("Transform target exclusion snapshot", snapshot);
+    assertSnapshot("Transform target exclusion replay", replaySnapshot);
+    return { label: "Transform target cards are excluded from deck and hand", ok: true };
+  } catch (error) {
+    return {
+      label: "Transform target cards are excluded from deck and hand",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runStatusTriggerTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Trigger", characterIds: withFillersIds("trigger-a") },
+    { id: "p2" as const, name: "Doomed", characterIds: withFillersIds("trigger-b") },
+  ];
+  const revCard = (slot: string) => ({
+    slot,
+    name: "Rev",
+    cost: "0 Energy",
+    power: "-",
+    types: ["Basic", "Special"],
+    target: "Self",
+    speed: "Normal",
+    effect: ["Innate."],
+  });
+  const characters: Character[] = [
+    {
+      id: "trigger-a",
+      name: "Trigger Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Status trigger coverage.",
+      art: "trigger-alpha.png",
+      innates: [],
+      statusEffects: [
+        {
+          name: "Overdrive",
+          lines: ["Type: Unique.", "Potency: Max 4.", "Count: Max 4."],
+          triggers: [
+            {
+              id: "overdrive-rev",
+              event: "card_played",
+              oncePerTurn: true,
+              conditions: [{ kind: "card_name", name: "Rev" }],
+              effects: [
+                { type: "gain_status", status: "Heat", amount: { kind: "status", stat: "potency" } },
+              ],
+            },
+            {
+              id: "overdrive-drain",
+              event: "turn_end",
+              effects: [
+                { type: "adjust_status", stat: "count", amount: { kind: "flat", value: -1 } },
+                {
+                  type: "status_damage",
+                  amount: { kind: "hp_percent", percent: 10, stat: "potency" },
+                },
+              ],
+            },
+          ],
+        },
+        {
+          name: "Heat",
+          lines: ["Type: Unique.", "Max Value: 9."],
+        },
+      ],
+      cards: [revCard("1"), revCard("2")],
+    },
+    {
+      id: "trigger-b",
+      name: "Trigger Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Status trigger coverage.",
+      art: "trigger-bravo.png",
+      innates: [],
+      statusEffects: [
+        {
+          name: "Doom",
+          lines: ["Type: Unique.", "Max Value: 3."],
+          persistent: true,
+          triggers: [
+            {
+              id: "doom-countdown",
+              event: "turn_end",
+              effects: [
+                { type: "adjust_status", stat: "value", amount: { kind: "flat", value: -1 } },
+              ],
+            },
+            {
+              id: "doom-defeat",
+              event: "turn_end",
+              conditions: [{ kind: "status_max", stat: "value", max: 0 }],
+              effects: [{ type: "defeat" }],
+              log: "{name} is claimed by Doom.",
+            },
+          ],
+        },
+      ],
+      cards: [
+        {
+          slot: "1",
+          name: "Idle",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Basic", "Special"],
+          target: "Self",
+          speed: "Fast",
+          effect: ["Innate."],
+        },
+      ],
+    },
+  ];
+
+  let state = createSeededCombatState(characters, players);
+  getPrimary(state, "p1").statuses["Overdrive"] = potencyStatus(2, 2);
+  getPrimary(state, "p2").statuses["Doom"] = valueStatus(1);
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "normal"), characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+  state = applyOrThrow(state, playFromHand(state, "p1", "2", "normal"), characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+  const heatBeforeTurnEnd = getPrimary(state, "p1").statuses["Heat"]?.value ?? 0;
+  state = applyOrThrow(state, { type: "end_turn", playerId: "p1" }, characters);
+
+  const p1 = getPrimary(state, "p1");
+  const p2 = getPrimary(state, "p2");
+  const snapshot = {
+    heatBeforeTurnEnd,
+    p1Hp: p1.hp,
+    p1Statuses: snapshotStatuses(state, "p1", ["Overdrive", "Heat"]),
+    p1TurnTriggers: p1.turnTriggers,
+    p2Defeated: p2.defeated,
+    doomLogged: state.log.includes("Trigger Bravo Golden is claimed by Doom."),
+  };
+
+  try {
+    assertSnapshot("Status trigger snapshot", snapshot);
+    return { label: "Data-driven status triggers fire with once-per-turn limits", ok: true };
+  } catch (error) {
+    return {
+      label: "Data-driven status triggers fire with once-per-turn limits",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runProjectionTest = (): GoldenResult => {
+  const characters = goldenCharacters();
+  const state = createSeededCombatState(characters, goldenPlayers);
+  (["p1", "p2"] as const).forEach((playerId) => {
+    const team = state.players[playerId];
+    const card = team.hand.pop();
+    if (card) team.deck.push(card);
+  });
+  const projected = projectMatchState(state, "p2");
+  const snapshot = {
+    p1Hand: projected.players.p1.hand.length,
+    p2Hand: projected.players.p2.hand.map((card) => card.id),
+    p1Deck: projected.players.p1.deck.length,
+    p2Deck: projected.players.p2.deck.map((card) => card.id),
+    counts: projected.hidden?.counts,
+    rng: projected.rng,
+    transcript: projected.transcript ?? null,
+    applyError: applyAction(projected, { type: "pass", playerId: "p2" }, characters).error,
+  };
+
+  try {
+    assertSnapshot("Projection snapshot", snapshot);
+    return { label: "Projected state hides opponent hand and deck and RNG", ok: true };
+  } catch (error) {
+    return {
+      label: "Projected state hides opponent hand and deck and RNG",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runStatePatchTest = (): GoldenResult => {
+  const characters = goldenCharacters();
+  const start = createSeededState(characters, goldenPlayers);
+  const combat = completeMovementRound(start, characters);
+  const baseView = projectMatchState(start, "p2");
+  const nextView = projectMatchState(combat, "p2");
+  const patch = createStatePatch(baseView, nextView);
+  const applied = applyStatePatch(baseView, patch);
+  const stale = applyStatePatch(nextView, patch);
+  const tampered = applyStatePatch(baseView, { ...patch, checksum: "00000000" });
+  const withOps = (ops: StatePatch["ops"]) => applyStatePatch(baseView, { ...patch, ops });
+  const protoPath = withOps([{ op: "set", path: ["__proto__", "polluted"], value: true }]);
+  const constructorPath = withOps([
+    { op: "set", path: ["players", "constructor", "prototype", "polluted"], value: true },
+  ]);
+  const inheritedPath = withOps([{ op: "append", path: ["players", "hasOwnProperty"], values: [1] }]);
+  const snapshot = {
+    baseActionId: patch.baseActionId,
+    actionId: patch.actionId,
+    applied: applied.error ?? JSON.stringify(applied.state) === JSON.stringify(nextView),
+    stale: stale.error,
+    tampered: tampered.error,
+    protoPath: protoPath.error,
+    constructorPath: constructorPath.error,
+    inheritedPath: inheritedPath.error,
+    prototypeClean: !("polluted" in {}),
+  };
+
+  try {
+    assertSnapshot("State patch snapshot", snapshot);
+    return { label: "State patches round-trip and reject stale or mismatched bases", ok: true };
+  } catch (error) {
+    return {
+      label: "State patches round-trip and reject stale or mismatched bases",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runReplayStepsTest = (): GoldenResult => {
+  const characters = withFillers(goldenCharacters());
+  let state = createSeededState(characters, goldenPlayers);
+  state = completeMovementRound(state, characters);
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "slow"), characters);
+  state = applyOrThrow(state, playFromHand(state, "p2", "2", "normal"), characters);
+  const transcript = exportTranscript(state);
+  if (!transcript) {
+    throw new Error("Transcript missing.");
+  }
+  const timeline = replayTranscriptSteps(characters, transcript);
+  const final = timeline.steps[timeline.steps.length - 1];
+  const snapshot = {
+    error: timeline.error ?? null,
+    steps: timeline.steps.length,
+    actionIds: timeline.steps.map((step) => step.state.actionId),
+    actions: timeline.steps.map((step) => step.action?.type ?? null),
+    logGrows: timeline.steps.every(
+      (step, index) => index === 0 || step.state.log.length >= timeline.steps[index - 1].state.log.length
+    ),
+    final: JSON.stringify(final.state) === JSON.stringify(replayTranscript(characters, transcript).state),
+  };
+
+  try {
+    assertSnapshot("Replay steps snapshot", snapshot);
+    return { label: "Replay steps expose the state after every transcript action", ok: true };
+  } catch (error) {
+    return {
+      label: "Replay steps expose the state after every transcript action",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runMatchEventsTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Striker", characterIds: withFillersIds("event-a") },
+    { id: "p2" as const, name: "Guardian", characterIds: withFillersIds("event-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "event-a",
+      name: "Event Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Structured event coverage.",
+      art: "event-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Strike",
+          cost: "1 Energy",
+          power: "10-10",
+          types: ["Basic", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Slow",
+          effect: ["Innate.", "Deal Power damage."],
+          effects: [{ timing: "on_use", type: "deal_damage", amount: { kind: "power" } }],
+        },
+      ],
+    },
+    {
+      id: "event-b",
+      name: "Event Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Structured event coverage.",
+      art: "event-bravo.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Guard",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Basic", "Special"],
+          target: "Self",
+          speed: "Fast",
+          effect: ["Innate.", "Gain 4 shield and 2 Strength."],
+          effects: [
+            { timing: "on_use", type: "gain_shield", amount: { kind: "flat", value: 4 } },
+            {
+              timing: "on_use",
+              type: "gain_status",
+              status: "Strength",
+              amount: { kind: "flat", value: 2 },
+            },
+          ],
+        },
+      ],
+    },
+  ];
+
+  let state = createSeededCombatState(characters, players);
+  const eventStart = state.events.length;
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "slow"), characters);
+  state = applyOrThrow(state, playFromHand(state, "p2", "1", "fast"), characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+
+  const snapshot = state.events
+    .slice(eventStart)
+    .filter((event) => event.type !== "draw")
+    .map((event) => {
+      if (event.type === "damage") {
+        return {
+          type: event.type,
+          targetId: event.targetId,
+          amount: event.amount,
+          breakdown: event.breakdown,
+        };
+      }
+      if (event.type === "shield") {
+        return { type: event.type, targetId: event.targetId, amount: event.amount };
+      }
+      if (event.type === "status_gained" || event.type === "status_expired") {
+        return { type: event.type, targetId: event.targetId, status: event.status };
+      }
+      if (
+        event.type === "card_played" ||
+        event.type === "card_used" ||
+        event.type === "card_cancelled" ||
+        event.type === "card_negated"
+      ) {
+        return { type: event.type, sourceId: event.sourceId, cardName: event.cardName };
+      }
+      return { type: event.type };
+    });
+
+  try {
+    assertSnapshot("Match events snapshot", snapshot);
+    return { label: "Structured match events record plays, uses, shield, statuses and damage", ok: true };
+  } catch (error) {
+    return {
+      label: "Structured match events record plays, uses, shield, statuses and damage",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runMatchRulesTest = (): GoldenResult => {
+  const characters = withFillers(
+    goldenCharacters().map((character) => ({
+      ...character,
+      cards: character.cards.map((card) => ({
+        ...card,
+        effect: card.effect.filter((line) => line !== "Innate."),
+      })),
+    }))
+  );
+  const players = [
+    { id: "p1" as const, name: "Alpha", characterIds: ["golden-a"] },
+    { id: "p2" as const, name: "Bravo", characterIds: ["golden-b"] },
+  ];
+  const rules = { teamSize: 1, startingHp: 40, maxHp: 60, energyPerTurn: 3, handSize: 2, freeSwaps: 0 };
+  let state = createMatchState(characters, players, {
+    seed: goldenSeed,
+    enableTranscript: true,
+    rules,
+  });
+  state = completeMovementRound(state, characters);
+  const transcript = exportTranscript(state);
+  if (!transcript) {
+    throw new Error("Transcript missing.");
+  }
+  let renewal = completeMovementRound(
+    createMatchState(characters, players, { seed: goldenSeed, rules }),
+    characters
+  );
+  getPrimary(renewal, "p1").hp = 10;
+  getPrimary(renewal, "p1").statuses["Renewal"] = potencyStatus(50, 1);
+  renewal = applyOrThrow(renewal, { type: "end_turn", playerId: "p1" }, characters);
+  const rejects = (options: Parameters<typeof createMatchState>[2], ids = ["golden-a"]) => {
+    try {
+      createMatchState(
+        characters,
+        players.map((player) => ({ ...player, characterIds: ids })),
+        options
+      );
+      return null;
+    } catch (error) {
+      return String(error instanceof Error ? error.message : error);
+    }
+  };
+  const snapshot = {
+    lineSize: state.lineSize,
+    hp: [getPrimary(state, "p1").hp, getPrimary(state, "p2").hp],
+    energy: [state.players.p1.energy, state.players.p2.energy],
+    freeSwaps: state.players.p1.movementFreeSwapsRemaining,
+    handSizes: [state.players.p1.hand.length, state.players.p2.hand.length],
+    transcriptRules: transcript.rules ?? null,
+    replayMatches:
+      JSON.stringify(replayTranscript(characters, transcript).state) ===
+      JSON.stringify({ ...state, transcript: undefined }),
+    oversized: rejects({ rules: { teamSize: 6 } }),
+    wrongCount: rejects({ rules: { teamSize: 2 } }),
+    badHp: rejects({ rules: { teamSize: 1, startingHp: 80, maxHp: 60 } }),
+    renewalHp: getPrimary(renewal, "p1").hp,
+  };
+
+  try {
+    assertSnapshot("Match rules snapshot", snapshot);
+    return { label: "Match rules configure team size, HP, energy and hand size", ok: true };
+  } catch (error) {
+    return {
+      label: "Match rules configure team size, HP, energy and hand size",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runRichConditionsTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Finisher", characterIds: withFillersIds("conditions-a") },
+    { id: "p2" as const, name: "Target", characterIds: withFillersIds("conditions-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "conditions-a",
+      name: "Conditions Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Rich effect condition coverage.",
+      art: "conditions-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Slow Finisher",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Basic", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Slow",
+          effect: [
+            "Deal Power damage.",
+            "If the target is below 50% HP and this resolves in the Slow zone: Deal 10 damage.",
+            "If the target has no Shield: Gain 3 Shield.",
+          ],
+          effects: [
+            { timing: "on_use", type: "deal_damage", amount: { kind: "power" } },
+            {
+              timing: "on_use",
+              type: "deal_damage",
+              amount: { kind: "flat", value: 10 },
+              condition: {
+                kind: "and",
+                conditions: [
+                  { kind: "hp_below", percent: 50, subject: "target" },
+                  { kind: "zone", zone: "slow" },
+                ],
+              },
+            },
+            {
+              timing: "on_use",
+              type: "gain_shield",
+              amount: { kind: "flat", value: 3 },
+              condition: { kind: "not", condition: { kind: "has_shield", subject: "target" } },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: "conditions-b",
+      name: "Conditions Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Rich effect condition coverage.",
+      art: "conditions-bravo.png",
+      innates: [],
+      cards: [],
+    },
+  ];
+
+  let state = createSeededCombatState(characters, players);
+  const source = getPrimary(state, "p1");
+  const target = getPrimary(state, "p2");
+  const evaluate = (condition: EffectCondition, zone?: ZoneName) =>
+    isEffectConditionMet(state, condition, source.id, target.id, characters, zone);
+  const probes: [string, EffectCondition, ZoneName?][] = [
+    ["hp_below_full", { kind: "hp_below", percent: 100, subject: "target" }],
+    ["hp_at_least_full", { kind: "hp_at_least", percent: 100 }],
+    ["target_opposed", { kind: "target_opposed" }],
+    ["target_adjacent", { kind: "target_adjacent" }],
+    ["distance_0_1", { kind: "distance", min: 0, max: 1 }],
+    ["hand_size_1", { kind: "hand_size", min: 1 }],
+    ["deck_size_max_0", { kind: "deck_size", max: 0, subject: "target" }],
+    ["energy_1", { kind: "energy", min: 1 }],
+    ["allies_defeated_0", { kind: "allies_defeated", max: 0 }],
+    ["zone_slow_in_fast", { kind: "zone", zone: "slow" }, "fast"],
+    ["zone_slow_in_slow", { kind: "zone", zone: "slow" }, "slow"],
+    [
+      "or_not",
+      {
+        kind: "or",
+        conditions: [
+          { kind: "has_shield", subject: "target" },
+          { kind: "not", condition: { kind: "ultimate", min: 99 } },
+        ],
+      },
+    ],
+  ];
+  const evaluated = Object.fromEntries(
+    probes.map(([label, condition, zone]) => [label, evaluate(condition, zone)])
+  );
+
+  target.hp = Math.floor(state.rules.maxHp / 2) - 1;
+  const hpBefore = target.hp;
+  const shieldBefore = source.shield;
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "slow"), characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+
+  const snapshot = {
+    evaluated,
+    needsTarget: Object.fromEntries(
+      probes.map(([label, condition]) => [label, conditionNeedsTarget(condition)])
+    ),
+    hpLoss: hpBefore - getPrimary(state, "p2").hp,
+    shieldGained: getPrimary(state, "p1").shield - shieldBefore,
+  };
+
+  try {
+    assertSnapshot("Rich conditions snapshot", snapshot);
+    return { label: "Rich effect conditions gate structured effects", ok: true };
+  } catch (error) {
+    return {
+      label: "Rich effect conditions gate structured effects",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runScalingAmountsTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Scaler", characterIds: withFillersIds("scaling-a") },
+    { id: "p2" as const, name: "Target", characterIds: withFillersIds("scaling-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "scaling-a",
+      name: "Scaling Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Scaling effect amount coverage.",
+      art: "scaling-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Scaling Guard",
+          cost: "2 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "1 Enemy",
+          speed: "Slow",
+          effect: ["Gain Shield for each scaling source."],
+          effects: [
+            {
+              timing: "on_use",
+              type: "gain_shield",
+              amount: { kind: "status_stat", status: "Bleed", subject: "target", value: 2 },
+            },
+            {
+              timing: "on_use",
+              type: "gain_shield",
+              amount: { kind: "missing_hp", per: 10, max: 3 },
+            },
+            { timing: "on_use", type: "gain_shield", amount: { kind: "allies_alive", value: 10 } },
+            { timing: "on_use", type: "gain_shield", amount: { kind: "enemies_alive", value: 100 } },
+            { timing: "on_use", type: "gain_shield", amount: { kind: "hand_size", min: 50 } },
+            { timing: "on_use", type: "gain_shield", amount: { kind: "energy_spent", value: 7 } },
+          ],
+        },
+      ],
+    },
+    {
+      id: "scaling-b",
+      name: "Scaling Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Scaling effect amount coverage.",
+      art: "scaling-bravo.png",
+      innates: [],
+      cards: [],
+    },
+  ];
+
+  let state = createSeededCombatState(characters, players);
+  const source = getPrimary(state, "p1");
+  const ally = state.players.p1.characters[1];
+  source.hp = state.rules.maxHp - 45;
+  ally.hp = 0;
+  ally.defeated = true;
+  getPrimary(state, "p2").statuses["Bleed"] = potencyStatus(3, 2);
+  const eventStart = state.events.length;
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "slow"), characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+
+  const snapshot = {
+    shieldGains: state.events
+      .slice(eventStart)
+      .flatMap((event) => (event.type === "shield" ? [event.amount] : [])),
+  };
+
+  try {
+    assertSnapshot("Scaling amounts snapshot", snapshot);
+    return { label: "Scaling effect amounts read match state and clamp", ok: true };
+  } catch (error) {
+    return {
+      label: "Scaling effect amounts read match state and clamp",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runRosterSpendTest = (): GoldenResult => {
+  const characters = withFillers(roster);
+  const players = [
+    { id: "p1" as const, name: "Vampire", characterIds: withFillersIds("dio-brando-part-3") },
+    { id: "p2" as const, name: "Ninja", characterIds: withFillersIds("naruto-uzumaki-pre-timeskip") },
+  ];
+
+  let timeStop = createSeededCombatState(characters, players);
+  timeStop.players.p1.energy = 20;
+  getPrimary(timeStop, "p1").statuses["Stolen Blood"] = valueStatus(7);
+  const timeStopPlay = playFromHand(timeStop, "p1", "5", "fast");
+  const missingX = applyAction(timeStop, timeStopPlay, characters).error ?? null;
+  const overRange = applyAction(timeStop, { ...timeStopPlay, xValue: 6 }, characters).error ?? null;
+  timeStop = applyOrThrow(timeStop, { ...timeStopPlay, xValue: 3 }, characters);
+  timeStop = applyOrThrow(timeStop, { type: "pass", playerId: "p2" }, characters);
+  timeStop = applyOrThrow(timeStop, { type: "pass", playerId: "p1" }, characters);
+
+  let roadRoller = createSeededCombatState(characters, players);
+  const roadRollerTarget = getPrimary(roadRoller, "p2").id;
+  roadRoller.players.p1.ultimate = 40;
+  getPrimary(roadRoller, "p1").statuses["The World: Time Stop"] = potencyStatus(1, 1);
+  getPrimary(roadRoller, "p1").statuses["Stolen Blood"] = valueStatus(7);
+  const roadRollerEventStart = roadRoller.events.length;
+  roadRoller = applyOrThrow(
+    roadRoller,
+    {
+      type: "play_card",
+      playerId: "p1",
+      cardSlot: "ultimate",
+      sourceId: getPrimary(roadRoller, "p1").id,
+      zone: "fast",
+      xValue: 4,
+    },
+    characters
+  );
+  roadRoller = applyOrThrow(roadRoller, { type: "pass", playerId: "p2" }, characters);
+  roadRoller = applyOrThrow(roadRoller, { type: "pass", playerId: "p1" }, characters);
+
+  let defend = createSeededCombatState(characters, players);
+  getPrimary(defend, "p2").statuses["Shadow Clones"] = { ...valueStatus(0), stack: 3 };
+  defend = applyOrThrow(defend, playFromHand(defend, "p1", "1-1", "normal"), characters);
+  defend = applyOrThrow(defend, playFromHand(defend, "p2", "2", "normal"), characters);
+  defend = applyOrThrow(defend, { type: "pass", playerId: "p1" }, characters);
+  defend = applyOrThrow(defend, { type: "pass", playerId: "p2" }, characters);
+
+  const snapshot = {
+    timeStop: {
+      missingX,
+      overRange,
+      stolenBlood: getPrimary(timeStop, "p1").statuses["Stolen Blood"]?.value ?? 0,
+      timeStopCount: getPrimary(timeStop, "p1").statuses["The World: Time Stop"]?.count ?? 0,
+    },
+    roadRoller: {
+      stolenBlood: getPrimary(roadRoller, "p1").statuses["Stolen Blood"]?.value ?? 0,
+      targetDamage: roadRoller.events
+        .slice(roadRollerEventStart)
+        .flatMap((event) =>
+          event.type === "damage" && event.targetId === roadRollerTarget ? [event.amount] : []
+        ),
+    },
+    defend: {
+      shadowClones: getPrimary(defend, "p2").statuses["Shadow Clones"]?.stack ?? 0,
+    },
+  };
+
+  try {
+    assertSnapshot("Roster spend snapshot", snapshot);
+    return { label: "Roster Spend X cards prompt for X and fixed spends pay 1", ok: true };
+  } catch (error) {
+    return {
+      label: "Roster Spend X cards prompt for X and fixed spends pay 1",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runRosterAfterUseTest = (): GoldenResult => {
+  const characters = withFillers(roster);
+  const players = [
+    { id: "p1" as const, name: "Vampire", characterIds: withFillersIds("dio-brando-part-3") },
+    { id: "p2" as const, name: "Ninja", characterIds: withFillersIds("naruto-uzumaki-pre-timeskip") },
+  ];
+  const playUltimate = (
+    state: MatchState,
+    playerId: PlayerId,
+    cardSlot: string,
+    zone: "fast" | "normal"
+  ) =>
+    applyOrThrow(
+      state,
+      {
+        type: "play_card",
+        playerId,
+        cardSlot,
+        sourceId: getPrimary(state, playerId).id,
+        zone,
+        xValue: 0,
+      },
+      characters
+    );
+
+  let roadRoller = createSeededCombatState(characters, players);
+  roadRoller.players.p1.ultimate = 40;
+  getPrimary(roadRoller, "p1").statuses["The World: Time Stop"] = potencyStatus(1, 3);
+  roadRoller = playUltimate(roadRoller, "p1", "ultimate", "fast");
+  roadRoller = applyOrThrow(roadRoller, { type: "pass", playerId: "p2" }, characters);
+  roadRoller = applyOrThrow(roadRoller, { type: "pass", playerId: "p1" }, characters);
+
+  let rasengan = createSeededCombatState(characters, [
+    { id: "p1", name: "Ninja", characterIds: withFillersIds("naruto-uzumaki-pre-timeskip") },
+    { id: "p2", name: "Vampire", characterIds: withFillersIds("dio-brando-part-3") },
+  ]);
+  rasengan.players.p1.ultimate = 30;
+  const naruto = getPrimary(rasengan, "p1");
+  naruto.statuses["One-Tail Cloak"] = { ...valueStatus(0), stack: 2 };
+  naruto.statuses["Shadow Clones"] = { ...valueStatus(0), stack: 3 };
+  naruto.statuses["Kyuubi Chakra"] = potencyStatus(1, 4);
+  rasengan = playUltimate(rasengan, "p1", "ultimate-2", "normal");
+  rasengan = applyOrThrow(rasengan, { type: "pass", playerId: "p2" }, characters);
+  rasengan = applyOrThrow(rasengan, { type: "pass", playerId: "p1" }, characters);
+
+  const snapshot = {
+    timeStopCount: getPrimary(roadRoller, "p1").statuses["The World: Time Stop"]?.count ?? 0,
+    kyuubiChakraCount: getPrimary(rasengan, "p1").statuses["Kyuubi Chakra"]?.count ?? 0,
+    shadowClones: getPrimary(rasengan, "p1").statuses["Shadow Clones"]?.stack ?? 0,
+  };
+
+  try {
+    assertSnapshot("Roster after use snapshot", snapshot);
+    return { label: "Roster After Use lines apply through effect overlays", ok: true };
+  } catch (error) {
+    return {
+      label: "Roster After Use lines apply through effect overlays",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runEffectTargetSelectorsTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Selector", characterIds: withFillersIds("selector-a") },
+    { id: "p2" as const, name: "Targets", characterIds: withFillersIds("selector-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "selector-a",
+      name: "Selector Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Structured effect target selector coverage.",
+      art: "selector-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Rallying Volley",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Technique", "Special"],
+          target: "1 Enemy",
+          speed: "Slow",
+          effect: ["Strike the target and its neighbours, then rally your team."],
+          effects: [
+            { timing: "on_use", type: "deal_damage", amount: { kind: "flat", value: 6 } },
+            {
+              timing: "on_use",
+              type: "deal_damage",
+              amount: { kind: "flat", value: 2 },
+              target: "adjacent_to_target",
+            },
+            {
+              timing: "on_use",
+              type: "inflict_status",
+              status: "Bleed",
+              amount: { kind: "flat", value: 1 },
+              target: "all_enemies",
+            },
+            {
+              timing: "on_use",
+              type: "inflict_status",
+              status: "Burn",
+              amount: { kind: "flat", value: 1 },
+              target: "random_enemy",
+            },
+            {
+              timing: "on_use",
+              type: "inflict_status",
+              status: "Poison",
+              amount: { kind: "flat", value: 1 },
+              target: "opposed_enemy",
+            },
+            {
+              timing: "on_use",
+              type: "gain_shield",
+              amount: { kind: "flat", value: 4 },
+              target: "all_allies",
+            },
+            {
+              timing: "on_use",
+              type: "heal",
+              amount: { kind: "flat", value: 5 },
+              target: "lowest_hp_ally",
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: "selector-b",
+      name: "Selector Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Structured effect target selector coverage.",
+      art: "selector-bravo.png",
+      innates: [],
+      cards: [],
+    },
+  ];
+
+  let state = createSeededCombatState(characters, players);
+  state.players.p1.characters[2].hp -= 20;
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "slow"), characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+
+  const summarize = (playerId: PlayerId) =>
+    state.players[playerId].characters.map((member) => ({
+      id: member.id,
+      position: member.position,
+      hp: member.hp,
+      shield: member.shield,
+      statuses: Object.keys(member.statuses).sort(),
+    }));
+  const snapshot = { p1: summarize("p1"), p2: summarize("p2") };
+
+  try {
+    assertSnapshot("Effect target selectors snapshot", snapshot);
+    return { label: "Structured effect target selectors pick their recipients", ok: true };
+  } catch (error) {
+    return {
+      label: "Structured effect target selectors pick their recipients",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const selectorCasePlayers = [
+  { id: "p1" as const, name: "Selector", characterIds: withFillersIds("selector-case-a") },
+  { id: "p2" as const, name: "Targets", characterIds: withFillersIds("selector-case-b") },
+];
+
+const createSelectorCaseCharacters = (
+  name: string,
+  effect: Effect,
+  copies = 1
+): Character[] => [
+  {
+    id: "selector-case-a",
+    name: "Selector Case Alpha",
+    version: "Golden",
+    origin: "Test",
+    roles: [],
+    difficulty: "Low",
+    gameplan: "Single effect target selector coverage.",
+    art: "selector-case-alpha.png",
+    innates: [],
+    cards: Array.from({ length: copies }, (_, index) => ({
+      slot: String(index + 1),
+      name,
+      cost: "0 Energy",
+      power: "-",
+      types: ["Technique", "Special"],
+      target: "1 Enemy",
+      speed: "Slow",
+      effect: [`${name}.`],
+      effects: [effect],
+    })),
+  },
+  {
+    id: "selector-case-b",
+    name: "Selector Case Bravo",
+    version: "Golden",
+    origin: "Test",
+    roles: [],
+    difficulty: "Low",
+    gameplan: "Single effect target selector coverage.",
+    art: "selector-case-bravo.png",
+    innates: [],
+    cards: [],
+  },
+];
+
+const resolveSelectorCasePlay = (
+  state: MatchState,
+  characters: Character[],
+  cardSlot: string,
+  targetId?: MatchCharacterId
+) => {
+  const action = targetId
+    ? playFromHandAtTarget(state, "p1", cardSlot, "slow", targetId)
+    : playFromHand(state, "p1", cardSlot, "slow");
+  let updated = applyOrThrow(state, action, characters);
+  updated = applyOrThrow(updated, { type: "pass", playerId: "p2" }, characters);
+  return applyOrThrow(updated, { type: "pass", playerId: "p1" }, characters);
+};
+
+const summarizeSelectorCase = (state: MatchState, playerId: PlayerId) =>
+  state.players[playerId].characters.map((member) => ({
+    position: member.position,
+    hp: member.hp,
+    shield: member.shield,
+    defeated: member.defeated,
+    statuses: Object.keys(member.statuses).sort(),
+  }));
+
+const runSelectorCase = (label: string, snapshotName: string, build: () => unknown) => {
+  try {
+    assertSnapshot(snapshotName, build());
+    return { label, ok: true };
+  } catch (error) {
+    return { label, ok: false, details: String(error) };
+  }
+};
+
+const runAdjacentToTargetSelectorTest = (): GoldenResult =>
+  runSelectorCase(
+    "adjacent_to_target hits both neighbours of the middle target only",
+    "Adjacent to target selector snapshot",
+    () => {
+      const characters = createSelectorCaseCharacters("Ricochet", {
+        timing: "on_use",
+        type: "deal_damage",
+        amount: { kind: "flat", value: 3 },
+        target: "adjacent_to_target",
+      });
+      let state = createSeededCombatState(characters, selectorCasePlayers);
+      const middle = state.players.p2.characters.find((member) => member.position === 1);
+      if (!middle) throw new Error("Missing middle target.");
+      state = resolveSelectorCasePlay(state, characters, "1", middle.id);
+      return { p2: summarizeSelectorCase(state, "p2") };
+    }
+  );
+
+const runAllAlliesSelectorTest = (): GoldenResult =>
+  runSelectorCase(
+    "all_allies shields every living ally and skips the defeated",
+    "All allies selector snapshot",
+    () => {
+      const characters = createSelectorCaseCharacters("Rally", {
+        timing: "on_use",
+        type: "gain_shield",
+        amount: { kind: "flat", value: 4 },
+        target: "all_allies",
+      });
+      let state = createSeededCombatState(characters, selectorCasePlayers);
+      const fallen = state.players.p1.characters[2];
+      fallen.hp = 0;
+      fallen.defeated = true;
+      state = resolveSelectorCasePlay(state, characters, "1");
+      return { p1: summarizeSelectorCase(state, "p1"), p2: summarizeSelectorCase(state, "p2") };
+    }
+  );
+
+const runLowestHpAllySelectorTest = (): GoldenResult =>
+  runSelectorCase(
+    "lowest_hp_ally heals the most wounded ally rather than the source",
+    "Lowest HP ally selector snapshot",
+    () => {
+      const characters = createSelectorCaseCharacters("Triage", {
+        timing: "on_use",
+        type: "heal",
+        amount: { kind: "flat", value: 10 },
+        target: "lowest_hp_ally",
+      });
+      let state = createSeededCombatState(characters, selectorCasePlayers);
+      const [source, wounded, grazed] = state.players.p1.characters;
+      source.hp -= 5;
+      wounded.hp -= 30;
+      grazed.hp -= 20;
+      state = resolveSelectorCasePlay(state, characters, "1");
+      return { p1: summarizeSelectorCase(state, "p1") };
+    }
+  );
+
+const runOpposedEnemySelectorTest = (): GoldenResult =>
+  runSelectorCase(
+    "opposed_enemy hits the enemy across from the source, not the chosen target",
+    "Opposed enemy selector snapshot",
+    () => {
+      const characters = createSelectorCaseCharacters("Cross Cut", {
+        timing: "on_use",
+        type: "inflict_status",
+        status: "Poison",
+        amount: { kind: "flat", value: 1 },
+        target: "opposed_enemy",
+      });
+      let state = createSeededCombatState(characters, selectorCasePlayers);
+      const far = state.players.p2.characters.find((member) => member.position === 2);
+      if (!far) throw new Error("Missing far target.");
+      state = resolveSelectorCasePlay(state, characters, "1", far.id);
+      return {
+        sourcePosition: getPrimary(state, "p1").position,
+        p2: summarizeSelectorCase(state, "p2"),
+      };
+    }
+  );
+
+const runRandomEnemySelectorTest = (): GoldenResult => {
+  const characters = createSelectorCaseCharacters(
+    "Scatter Shot",
+    {
+      timing: "on_use",
+      type: "inflict_status",
+      status: "Burn",
+      amount: { kind: "flat", value: 1 },
+      target: "random_enemy",
+    },
+    3
+  );
+  const burnRecipients = (before: MatchState, after: MatchState) =>
+    after.players.p2.characters
+      .filter((member, index) =>
+        (member.statuses.Burn?.potency ?? 0)
+          > (before.players.p2.characters[index].statuses.Burn?.potency ?? 0))
+      .map((member) => member.position);
+
+  return runSelectorCase(
+    "random_enemy draws its recipient from the match rng and replays identically",
+    "Random enemy selector snapshot",
+    () => {
+      let state = createSeededCombatState(characters, selectorCasePlayers);
+      const rngCallsBefore = state.rng.calls;
+      const recipients: number[][] = [];
+      ["1", "2", "3"].forEach((cardSlot) => {
+        const before = state;
+        state = resolveSelectorCasePlay(state, characters, cardSlot);
+        recipients.push(burnRecipients(before, state));
+      });
+      const replayState = runReplaySnapshot(characters, state);
+      return {
+        recipients,
+        rngCallsUsed: state.rng.calls - rngCallsBefore,
+        p2: summarizeSelectorCase(state, "p2"),
+        replay: {
+          rng: replayState.rng,
+          matchesRng: JSON.stringify(replayState.rng) === JSON.stringify(state.rng),
+          matchesP2:
+            JSON.stringify(summarizeSelectorCase(replayState, "p2"))
+            === JSON.stringify(summarizeSelectorCase(state, "p2")),
+        },
+      };
+    }
+  );
+};
+
+const runAiChoiceTest = (): GoldenResult => {
+  const characters = goldenCharacters();
+  const state = createSeededCombatState(characters, goldenPlayers);
+  const describeAction = (action: Action | null) => (action ? sanitizeAction(action) : null);
+  const isLegal = (action: Action | null) =>
+    Boolean(action) && !applyAction(state, action as Action, characters).error;
+
+  const reshuffled = structuredClone(state);
+  const unseen = [...reshuffled.players.p2.hand, ...reshuffled.players.p2.deck].reverse();
+  reshuffled.players.p2.hand = unseen.slice(0, state.players.p2.hand.length);
+  reshuffled.players.p2.deck = unseen.slice(state.players.p2.hand.length);
+
+  const choose = (level: AiLevel) => {
+    const action = chooseAiAction(state, "p1", characters, { level });
+    return {
+      action: describeAction(action),
+      legal: isLegal(action),
+      sameFromOwnView:
+        JSON.stringify(chooseAiAction(projectMatchState(state, "p1"), "p1", characters, { level }))
+        === JSON.stringify(action),
+      ignoresUnseenCards:
+        JSON.stringify(chooseAiAction(reshuffled, "p1", characters, { level }))
+        === JSON.stringify(action),
+    };
+  };
+
+  const afterPlay = applyOrThrow(state, playFromHand(state, "p1", "4", "normal"), characters);
+  const snapshot = {
+    greedy: choose("greedy"),
+    search: choose("search"),
+    idleSeat: {
+      action: describeAction(chooseAiAction(state, "p2", characters)),
+      fallback: describeAction(getAiFallbackAction(state, "p2", characters)),
+    },
+    fallbacks: {
+      emptyZones: describeAction(getAiFallbackAction(state, "p1", characters)),
+      afterPlay: describeAction(getAiFallbackAction(afterPlay, "p2", characters)),
+    },
+  };
+
+  try {
+    assertSnapshot("AI choice snapshot", snapshot);
+    return { label: "AI picks legal actions from its own seat's view", ok: true };
+  } catch (error) {
+    return {
+      label: "AI picks legal actions from its own seat's view",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runDataValidationErrorsTest = (): GoldenResult => {
+  const createCharacter = (effects: unknown[]) => ({
+    id: "validation-a",
+    name: "Validation Alpha",
+    version: "Golden",
+    origin: "Test",
+    roles: [],
+    difficulty: "Low",
+    gameplan: "Data validation error path coverage.",
+    art: "validation-alpha.png",
+    innates: [],
+    cards: [
+      {
+        slot: "1",
+        name: "Malformed Strike",
+        cost: "0 Energy",
+        power: "1",
+        types: ["Attack", "Basic"],
+        target: "1 Enemy",
+        speed: "Normal",
+        effect: ["Deal 1 damage."],
+        effects,
+      },
+    ],
+  });
+  const validate = (effects: unknown[]) =>
+    validateCharacters([createCharacter(effects)], { statusEffects, keywords }).map(formatDataIssue);
+
+  const snapshot = {
+    valid: validate([
+      { timing: "on_use", type: "deal_damage", amount: { kind: "flat", value: 1 } },
+      { timing: "on_use", type: "inflict_status", status: "Burn", amount: { kind: "flat", value: 1 } },
+      { timing: "on_use", type: "seek", count: 3, criteria: { types: ["Attack"] } },
+    ]),
+    unknownEffectType: validate([{ timing: "on_use", type: "explode", amount: 1 }]),
+    badAmountShape: validate([
+      { timing: "on_use", type: "deal_damage", amount: 3 },
+      { timing: "on_use", type: "heal", amount: { kind: "percent", value: 3 } },
+      { timing: "on_use", type: "gain_shield", amount: { kind: "flat", value: "3" } },
+    ]),
+    missingRequiredField: validate([
+      { timing: "on_use", type: "inflict_status", amount: { kind: "flat", value: 1 } },
+      { timing: "on_use", type: "deal_damage" },
+    ]),
+    badCriteriaShape: validate([
+      { timing: "on_use", type: "search", criteria: "Strike" },
+      { timing: "on_use", type: "seek", count: 3, criteria: { name: 4, types: "Attack" } },
+    ]),
+  };
+
+  try {
+    assertSnapshot("Data validation errors snapshot", snapshot);
+    return { label: "Data validation reports the path of each malformed effect", ok: true };
+  } catch (error) {
+    return {
+      label: "Data validation reports the path of each malformed effect",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runLegalActionsTest = (): GoldenResult => {
+  const failures: string[] = [];
+  let checkedStates = 0;
+  let checkedActions = 0;
+  const checkLegalActions = (state: MatchState, characters: Character[]) => {
+    checkedStates += 1;
+    (["p1", "p2"] as PlayerId[]).forEach((playerId) => {
+      getLegalActions(state, playerId, characters).forEach((action) => {
+        checkedActions += 1;
+        const result = applyAction(state, action, characters);
+        if (result.error) {
+          failures.push(`${state.actionId} ${JSON.stringify(action)}: ${result.error}`);
+        }
+      });
+    });
+  };
+  const walk = (
+    characters: Character[],
+    players: { id: PlayerId; name: string; characterIds: string[] }[],
+    steps: number
+  ) => {
+    let state = createSeededState(characters, players);
+    for (let step = 0; step < steps && state.phase !== "finished"; step += 1) {
+      checkLegalActions(state, characters);
+      const actorId = (["p1", "p2"] as PlayerId[]).find(
+        (playerId) => getLegalActions(state, playerId, characters).length
+      );
+      if (!actorId) break;
+      const actions = getLegalActions(state, actorId, characters);
+      state = applyOrThrow(state, actions[step % actions.length], characters);
+    }
+  };
+
+  const goldenRoster = goldenCharacters();
+  walk(goldenRoster, goldenPlayers, 40);
+  walk(
+    withFillers(roster),
+    [
+      { id: "p1", name: "Vampire", characterIds: ["dio-brando-part-3", "saitama", "rover-spectro"] },
+      {
+        id: "p2",
+        name: "Ninja",
+        characterIds: ["naruto-uzumaki-pre-timeskip", "light-yagami-kira", "monkey-d-luffy-pre-timeskip"],
+      },
+    ],
+    60
+  );
+
+  const broke = createSeededCombatState(goldenRoster, goldenPlayers);
+  broke.players.p1.energy = 0;
+  const slowStrike = broke.players.p1.hand.find((card) => card.cardSlot === "1");
+  const legal = getLegalActions(broke, "p1", goldenRoster);
+  const isListed = (zone: ZoneName) =>
+    legal.some(
+      (action) =>
+        action.type === "play_card" && action.cardInstanceId === slowStrike?.id && action.zone === zone
+    );
+  const tryPlay = (zone: ZoneName) =>
+    slowStrike
+      ? applyAction(broke, { type: "play_card", playerId: "p1", cardInstanceId: slowStrike.id, zone }, goldenRoster)
+          .error ?? null
+      : "Slow Strike not in hand.";
+
+  const snapshot = {
+    checkedStates,
+    checkedActions,
+    failures,
+    withoutEnergy: { listed: isListed("slow"), error: tryPlay("slow") },
+  };
+
+  try {
+    assertSnapshot("Legal actions snapshot", snapshot);
+    return { label: "Every legal action applies and unaffordable plays are not listed", ok: true };
+  } catch (error) {
+    return {
+      label: "Every legal action applies and unaffordable plays are not listed",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runDamagePreviewTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Striker", characterIds: withFillersIds("preview-a") },
+    { id: "p2" as const, name: "Target", characterIds: withFillersIds("preview-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "preview-a",
+      name: "Preview Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Damage preview coverage.",
+      art: "preview-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Ranged Strike",
+          cost: "1 Energy",
+          power: "8-12",
+          types: ["Basic", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Slow",
+          effect: ["Innate.", "Deal Power damage."],
+          effects: [{ timing: "on_use", type: "deal_damage", amount: { kind: "power" } }],
+        },
+        {
+          slot: "2",
+          name: "Focus",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Basic", "Special"],
+          target: "Self",
+          speed: "Slow",
+          effect: ["Innate."],
+        },
+      ],
+    },
+    {
+      id: "preview-b",
+      name: "Preview Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Damage preview coverage.",
+      art: "preview-bravo.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Braced Guard",
+          cost: "0 Energy",
+          power: "-",
+          types: ["Basic", "Defense", "Physical"],
+          target: "Self",
+          speed: "Slow",
+          effect: ["Innate.", "Resist 6 (Physical)."],
+        },
+      ],
+    },
+  ];
+
+  let state = createSeededCombatState(characters, players);
+  const target = getPrimary(state, "p2");
+  target.shield = 5;
+  target.statuses["Barrier"] = valueStatus(2);
+  const action = playFromHand(state, "p1", "1", "slow");
+  const before = JSON.stringify(state);
+  const preview = previewPlayDamage(state, action, characters);
+  const unchanged = JSON.stringify(state) === before;
+  const eventStart = state.events.length;
+  state = applyOrThrow(state, action, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+  state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+  const dealt = state.events
+    .slice(eventStart)
+    .find((event) => event.type === "damage" && event.targetId === target.id);
+  const hpLoss = dealt?.type === "damage" ? dealt.breakdown.hpLoss : -1;
+
+  let guarded = createSeededCombatState(characters, players);
+  const guardedTarget = getPrimary(guarded, "p2");
+  guarded = applyOrThrow(guarded, playFromHand(guarded, "p1", "2", "slow"), characters);
+  guarded = applyOrThrow(guarded, playFromHand(guarded, "p2", "1", "slow"), characters);
+  const guardedAction = playFromHand(guarded, "p1", "1", "slow");
+  const guardedPreview = previewPlayDamage(guarded, guardedAction, characters);
+  const guardedStart = guarded.events.length;
+  guarded = applyOrThrow(guarded, guardedAction, characters);
+  guarded = applyOrThrow(guarded, { type: "pass", playerId: "p2" }, characters);
+  guarded = applyOrThrow(guarded, { type: "pass", playerId: "p1" }, characters);
+  const guardedDealt = guarded.events
+    .slice(guardedStart)
+    .find((event) => event.type === "damage" && event.targetId === guardedTarget.id);
+  const guardedLoss = guardedDealt?.type === "damage" ? guardedDealt.breakdown.hpLoss : -1;
+
+  const snapshot = {
+    unchanged,
+    power: preview?.power ?? null,
+    targets:
+      preview?.targets.map((entry) => ({
+        targetId: entry.targetId,
+        min: [entry.min.incoming, entry.min.shield, entry.min.barrier, entry.min.hpLoss],
+        max: [entry.max.incoming, entry.max.shield, entry.max.barrier, entry.max.hpLoss],
+      })) ?? [],
+    resolvedWithinRange: Boolean(
+      preview?.targets[0] &&
+        hpLoss >= preview.targets[0].min.hpLoss &&
+        hpLoss <= preview.targets[0].max.hpLoss
+    ),
+    guarded: {
+      targets:
+        guardedPreview?.targets.map((entry) => ({
+          targetId: entry.targetId,
+          min: [entry.min.incoming, entry.min.resisted, entry.min.hpLoss],
+          max: [entry.max.incoming, entry.max.resisted, entry.max.hpLoss],
+        })) ?? [],
+      hpLoss: guardedLoss,
+      resolvedWithinRange: Boolean(
+        guardedPreview?.targets[0] &&
+          guardedLoss >= guardedPreview.targets[0].min.hpLoss &&
+          guardedLoss <= guardedPreview.targets[0].max.hpLoss
+      ),
     },
   };
 
-  const replayState = runReplaySnapshot(characters, state);
-  const replaySnapshot = {
-    p1Slots: countCardSlots(replayState.players.p1),
-    p2Slots: countCardSlots(replayState.players.p2),
+  try {
+    assertSnapshot("Damage preview snapshot", snapshot);
+    return { label: "Damage preview predicts mitigation and clashing Defense text without mutating state", ok: true };
+  } catch (error) {
+    return {
+      label: "Damage preview predicts mitigation and clashing Defense text without mutating state",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runClashPredictionTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Ranged", characterIds: withFillersIds("clash-a") },
+    { id: "p2" as const, name: "Fixed", characterIds: withFillersIds("clash-b") },
+  ];
+  const strike = (name: string, power: string) => ({
+    slot: "1",
+    name,
+    cost: "1 Energy",
+    power,
+    types: ["Basic", "Attack", "Physical"],
+    target: "1 Enemy",
+    speed: "Slow",
+    effect: ["Innate.", "Deal Power damage."],
+    effects: [{ timing: "on_use" as const, type: "deal_damage" as const, amount: { kind: "power" as const } }],
+  });
+  const characters: Character[] = [
+    {
+      id: "clash-a",
+      name: "Clash Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Clash prediction coverage.",
+      art: "clash-alpha.png",
+      innates: [],
+      cards: [strike("Wild Strike", "8-12")],
+    },
+    {
+      id: "clash-b",
+      name: "Clash Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Clash prediction coverage.",
+      art: "clash-bravo.png",
+      innates: [],
+      cards: [strike("Steady Strike", "10-10")],
+    },
+  ];
+
+  let state = createSeededCombatState(characters, players);
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "slow"), characters);
+  state = applyOrThrow(state, playFromHand(state, "p2", "1", "slow"), characters);
+  const before = JSON.stringify(state);
+  const predictions = predictZoneResolution(state, "slow", characters);
+
+  const crowded = JSON.parse(before) as MatchState;
+  const [wild, steady] = crowded.zones.slow.cards;
+  crowded.zones.slow.cards = Array.from({ length: 4 }, (_, index) => [
+    { ...wild, id: `${wild.id}-crowd-${index}` },
+    { ...steady, id: `${steady.id}-crowd-${index}`, powerText: "8-12" },
+  ]).flat();
+
+  const describePredictions = (list: ClashPrediction[]) =>
+    list.map((prediction) => ({
+      left: prediction.left?.cardName ?? null,
+      right: prediction.right?.cardName ?? null,
+      leftPower: prediction.leftPower ?? null,
+      rightPower: prediction.rightPower ?? null,
+      chance: prediction.chance,
+      outcomes: prediction.outcomes,
+    }));
+  const snapshot = {
+    unchanged: JSON.stringify(state) === before,
+    predictions: describePredictions(predictions),
+    crowdedPredictions: describePredictions(predictZoneResolution(crowded, "slow", characters)),
   };
-  const expectedReplay = {
-    p1Slots: expected.p1Slots,
-    p2Slots: expected.p2Slots,
+
+  try {
+    assertSnapshot("Clash prediction snapshot", snapshot);
+    return { label: "Clash prediction reports pairing outcome odds over the Power range", ok: true };
+  } catch (error) {
+    return {
+      label: "Clash prediction reports pairing outcome odds over the Power range",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runTranscriptMigrationTest = (): GoldenResult => {
+  const characters = withFillers(goldenCharacters());
+  let state = createSeededState(characters, goldenPlayers);
+  state = completeMovementRound(state, characters);
+  state = applyOrThrow(state, playFromHand(state, "p1", "1", "slow"), characters);
+  state = applyOrThrow(state, playFromHand(state, "p2", "2", "normal"), characters);
+  const transcript = exportTranscript(state);
+  if (!transcript) {
+    throw new Error("Transcript missing.");
+  }
+  const legacy = {
+    version: 2,
+    seed: transcript.seed,
+    players: transcript.players,
+    actions: transcript.actions.map(({ action, error }) => (error ? { action, error } : { action })),
+  };
+  const migrated = migrateTranscript(legacy);
+  const staleChecksums = migrateTranscript({
+    ...transcript,
+    version: 3,
+    actions: transcript.actions.map((entry) => ({ ...entry, checksum: "00000000" })),
+  });
+  const changedData = characters.map((character) => ({
+    ...character,
+    cards: character.cards.map((card) => ({ ...card, power: card.power === "-" ? "-" : "1" })),
+  }));
+  const diverged = replayTranscript(changedData, transcript);
+
+  const snapshot = {
+    version: transcript.version,
+    hasFingerprint: typeof transcript.dataFingerprint === "string",
+    checksums: transcript.actions.every((entry) => typeof entry.checksum === "string"),
+    replay: replayTranscript(characters, transcript).error ?? null,
+    migratedVersion: migrated.transcript?.version ?? null,
+    migratedRules: migrated.transcript?.rules ?? null,
+    migratedReplay: migrated.transcript
+      ? replayTranscript(characters, migrated.transcript).error ?? null
+      : "missing",
+    staleChecksumReplay: staleChecksums.transcript
+      ? replayTranscript(characters, staleChecksums.transcript).error ?? null
+      : "missing",
+    unsupported: migrateTranscript({ ...legacy, version: 1 }).error ?? null,
+    invalid: migrateTranscript({ seed: "x" }).error ?? null,
+    divergedError: diverged.error ?? null,
+    divergedAt: diverged.actionIndex ?? null,
+    dataChanged: diverged.dataChanged ?? false,
   };
 
   try {
-    assertSnapshot("Transform target exclusion snapshot", snapshot, expected);
-    assertSnapshot("Transform target exclusion replay", replaySnapshot, expectedReplay);
-    return { label: "Transform target cards are excluded from deck and hand", ok: true };
+    assertSnapshot("Transcript migration snapshot", snapshot);
+    return { label: "Transcripts migrate, fingerprint data and verify per-action checksums", ok: true };
   } catch (error) {
     return {
-      label: "Transform target cards are excluded from deck and hand",
+      label: "Transcripts migrate, fingerprint data and verify per-action checksums",
       ok: false,
       details: String(error),
     };
   }
 };
 
-export const runGoldenTests = () => [
-  runInterruptChainTest(),
-  runCancelledAlwaysTest(),
-  runCannotPlayTest(),
-  runTimingWindowsTest(),
-  runStatusExpiryTest(),
-  runCostSpeedModifierTest(),
-  runMitigationStackingTest(),
-  runSpendFlowTest(),
-  runHealingReductionTest(),
-  runThornsOnHitTest(),
-  runTurnEndDecayTest(),
-  runCreatedCardDestinationTest(),
-  runNegatedTest(),
-  runRedirectTest(),
-  runRedirectChoiceTest(),
-  runDeckManipulationTest(),
-  runScryChoiceTest(),
-  runSeekChoiceTest(),
-  runSearchChoiceTest(),
-  runPositioningTest(),
-  runPushDirectionChoiceTest(),
-  runCounterTest(),
-  runPurgeKeywordTest(),
-  runAoeMultiTargetTest(),
-  runSplashAdjacencyTest(),
-  runDeckReshuffleTest(),
-  runTransformTargetExclusionTest(),
-];
+const runKeywordSentencesTest = (): GoldenResult => {
+  const players = [
+    { id: "p1" as const, name: "Keywords", characterIds: withFillersIds("sentences-a") },
+    { id: "p2" as const, name: "Witness", characterIds: withFillersIds("sentences-b") },
+  ];
+  const characters: Character[] = [
+    {
+      id: "sentences-a",
+      name: "Sentences Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Keyword sentence coverage.",
+      art: "sentences-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Shared Line",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Technique", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage.", "Exhaust. Ethereal."],
+        },
+        {
+          slot: "2",
+          name: "Own Line",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Technique", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage.", "Exhaust."],
+        },
+        {
+          slot: "3",
+          name: "Plain Line",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Technique", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage. Exhaust the target's resolve."],
+        },
+      ],
+    },
+    {
+      id: "sentences-b",
+      name: "Sentences Bravo",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Keyword sentence coverage.",
+      art: "sentences-bravo.png",
+      innates: [],
+      cards: [],
+    },
+  ];
 
-if (process.argv[1]?.includes("golden")) {
-  const results = runGoldenTests();
-  const failed = results.filter((result) => !result.ok);
-  results.forEach((result) => {
+  let state = createSeededCombatState(characters, players);
+  ["1", "2", "3"].forEach((slot) => {
+    state = applyOrThrow(state, playFromHand(state, "p1", slot, "normal"), characters);
+    state = applyOrThrow(state, { type: "pass", playerId: "p2" }, characters);
+    state = applyOrThrow(state, { type: "pass", playerId: "p1" }, characters);
+  });
+
+  const snapshot = {
+    exhaustedSlots: state.players.p1.exhausted.map((card) => card.cardSlot).sort(),
+    discardSlots: state.players.p1.discard.map((card) => card.cardSlot).sort(),
+  };
+
+  try {
+    assertSnapshot("Keyword sentences snapshot", snapshot);
+    return { label: "Keywords sharing a line with other keywords still apply", ok: true };
+  } catch (error) {
+    return {
+      label: "Keywords sharing a line with other keywords still apply",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runEffectCoverageTest = (): GoldenResult => {
+  const characters: Character[] = [
+    {
+      id: "coverage-a",
+      name: "Coverage Alpha",
+      version: "Golden",
+      origin: "Test",
+      roles: [],
+      difficulty: "Low",
+      gameplan: "Effect text coverage.",
+      art: "coverage-alpha.png",
+      innates: [],
+      cards: [
+        {
+          slot: "1",
+          name: "Text Burst",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Technique", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: ["Deal Power damage.", "Scry 1.", "Exhaust. Ethereal."],
+        },
+        {
+          slot: "2",
+          name: "Structured Burst",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Technique", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: [
+            "Deal Power damage.",
+            "Gain 2 Strength.",
+            "Always: If this character has Strength: This card becomes Text Burst.",
+            "Sparkle brightly.",
+          ],
+          effects: [{ timing: "on_use", type: "deal_damage", amount: { kind: "power" } }],
+        },
+        {
+          slot: "3",
+          name: "Mapped Burst",
+          cost: "0 Energy",
+          power: "5-5",
+          types: ["Technique", "Attack", "Physical"],
+          target: "1 Enemy",
+          speed: "Normal",
+          effect: [
+            "Gain 1 Focus and +1 Focus Count.",
+            "If this character has Focus: Gain 1 Focus instead.",
+            "Spend X Strength (0-3)? Gain +X Focus Count.",
+            "If you choose the same card: Reload instead.",
+            "Gain 1 Haste.",
+          ],
+          effects: [
+            { timing: "on_use", type: "gain_status", status: "Focus", amount: { kind: "flat", value: 1 } },
+            {
+              timing: "on_use",
+              type: "gain_status",
+              status: "Focus",
+              stat: "count",
+              amount: { kind: "flat", value: 1 },
+            },
+            {
+              timing: "on_use",
+              type: "gain_status",
+              status: "Focus",
+              amount: { kind: "flat", value: 1 },
+              condition: { kind: "self_has_status", status: "Focus" },
+            },
+            { timing: "on_use", type: "spend_status", status: "Strength", amount: { kind: "x" } },
+            {
+              timing: "on_use",
+              type: "gain_status_per_spent",
+              status: "Focus",
+              resource: "Strength",
+              stat: "count",
+              amount: { kind: "flat", value: 1 },
+            },
+          ],
+        },
+      ],
+    },
+  ];
+
+  const snapshot = {
+    coverage: Object.fromEntries(
+      characters[0].cards.map((card) => [card.name, getCardEffectCoverage(card)])
+    ),
+  };
+
+  try {
+    assertSnapshot("Effect coverage snapshot", snapshot);
+    return {
+      label: "Effect line coverage separates structured, text, keyword and unhandled lines",
+      ok: true,
+    };
+  } catch (error) {
+    return {
+      label: "Effect line coverage separates structured, text, keyword and unhandled lines",
+      ok: false,
+      details: String(error),
+    };
+  }
+};
+
+const runFuzzCasesTest = (): GoldenResult => {
+  const label = "Saved fuzz cases keep applyAction invariants";
+  const failures = loadFuzzCases().flatMap(({ file, fuzzCase }) => {
+    const result = checkFuzzCase(fuzzCase);
+    if (result.status === "diverged") {
+      return [
+        `${file}: case needs re-recording (action ${result.step + 1} now fails: ${result.message})`,
+      ];
+    }
+    if (result.status === "violated") {
+      return [`${file}: [${result.violation.invariant}] ${result.violation.message}`];
+    }
+    return [];
+  });
+  return failures.length ? { label, ok: false, details: failures.join("\n") } : { label, ok: true };
+};
+
+const goldenTests: Record<string, () => GoldenResult> = {
+  runInterruptChainTest,
+  runCancelledAlwaysTest,
+  runCannotPlayTest,
+  runTimingWindowsTest,
+  runStatusExpiryTest,
+  runCostSpeedModifierTest,
+  runMitigationStackingTest,
+  runSpendFlowTest,
+  runHealingReductionTest,
+  runThornsOnHitTest,
+  runTurnEndDecayTest,
+  runCreatedCardDestinationTest,
+  runNegatedTest,
+  runRedirectTest,
+  runRedirectChoiceTest,
+  runDeckManipulationTest,
+  runScryChoiceTest,
+  runSeekChoiceTest,
+  runSearchChoiceTest,
+  runPositioningTest,
+  runPushDirectionChoiceTest,
+  runCounterTest,
+  runPurgeKeywordTest,
+  runStructuredKeywordEffectsTest,
+  runCardCriteriaTest,
+  runAoeMultiTargetTest,
+  runSplashAdjacencyTest,
+  runDeckReshuffleTest,
+  runTransformTargetExclusionTest,
+  runStatusTriggerTest,
+  runProjectionTest,
+  runStatePatchTest,
+  runReplayStepsTest,
+  runMatchEventsTest,
+  runMatchRulesTest,
+  runDamagePreviewTest,
+  runRichConditionsTest,
+  runScalingAmountsTest,
+  runRosterSpendTest,
+  runRosterAfterUseTest,
+  runEffectTargetSelectorsTest,
+  runAdjacentToTargetSelectorTest,
+  runAllAlliesSelectorTest,
+  runLowestHpAllySelectorTest,
+  runOpposedEnemySelectorTest,
+  runRandomEnemySelectorTest,
+  runAiChoiceTest,
+  runDataValidationErrorsTest,
+  runLegalActionsTest,
+  runClashPredictionTest,
+  runTranscriptMigrationTest,
+  runKeywordSentencesTest,
+  runEffectCoverageTest,
+  runFuzzCasesTest,
+};
+
+const matchesTest = (name: string, filter?: string) => {
+  if (!filter) return true;
+  const query = filter.toLowerCase();
+  const shortName = name.replace(/^run|Test$/g, "").toLowerCase();
+  return shortName === query || name.toLowerCase().includes(query);
+};
+
+const runGoldenTest = (name: string, test: () => GoldenResult): GoldenTestResult => {
+  const startedAt = performance.now();
+  let result: GoldenResult;
+  try {
+    result = test();
+  } catch (error) {
+    result = { label: name, ok: false, details: String(error) };
+  }
+  return { ...result, name, durationMs: Math.round(performance.now() - startedAt) };
+};
+
+export const getGoldenTestNames = () => Object.keys(goldenTests);
+
+export const runGoldenTests = (filter?: string): GoldenTestResult[] =>
+  Object.entries(goldenTests)
+    .filter(([name]) => matchesTest(name, filter))
+    .map(([name, test]) => runGoldenTest(name, test));
+
+const usage = [
+  "Usage: pnpm golden [--test NAME] [--format text|json|junit] [--output FILE] [--update] [--list]",
+].join("\n");
+
+const goldenFormats: GoldenFormat[] = ["text", "json", "junit"];
+
+const parseArgs = (args: string[]): { options?: GoldenOptions; error?: string } => {
+  const values = new Map<string, string>();
+  const flags = new Set<string>();
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (!arg?.startsWith("--")) continue;
+    const [key, inline] = arg.slice(2).split("=");
+    if (!key) continue;
+    if (key === "update" || key === "list") {
+      flags.add(key);
+      continue;
+    }
+    const value = inline ?? args[index + 1];
+    if (inline === undefined) index += 1;
+    if (value === undefined) return { error: `Missing value for "${arg}".` };
+    values.set(key, value);
+  }
+  const format = values.get("format") ?? "text";
+  if (!goldenFormats.includes(format as GoldenFormat)) {
+    return { error: `Unknown format "${format}"; expected one of ${goldenFormats.join(", ")}.` };
+  }
+  return {
+    options: {
+      test: values.get("test"),
+      format: format as GoldenFormat,
+      output: values.get("output"),
+      update: flags.has("update"),
+      list: flags.has("list"),
+    },
+  };
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatSeconds = (durationMs: number) => (durationMs / 1000).toFixed(3);
+
+const formatJunit = (results: GoldenTestResult[]) => {
+  const failures = results.filter((result) => !result.ok).length;
+  const totalMs = results.reduce((total, result) => total + result.durationMs, 0);
+  const cases = results.map((result) => {
+    const name = result.label === result.name ? result.name : `${result.name}: ${result.label}`;
+    const attributes = `classname="golden" name="${escapeXml(name)}" time="${formatSeconds(result.durationMs)}"`;
+    if (result.ok) return `  <testcase ${attributes} />`;
+    const details = result.details ?? "";
+    const message = escapeXml(details.split("\n")[0] ?? "");
+    return [
+      `  <testcase ${attributes}>`,
+      `    <failure message="${message}">${escapeXml(details)}</failure>`,
+      "  </testcase>",
+    ].join("\n");
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuite name="golden" tests="${results.length}" failures="${failures}" time="${formatSeconds(totalMs)}">`,
+    ...cases,
+    "</testsuite>",
+  ].join("\n");
+};
+
+const formatResults = (results: GoldenTestResult[], format: GoldenFormat) => {
+  if (format === "json") {
+    const failed = results.filter((result) => !result.ok).length;
+    return JSON.stringify(
+      { passed: results.length - failed, failed, updatedSnapshots: snapshotSettings.updated, results },
+      null,
+      2
+    );
+  }
+  if (format === "junit") return formatJunit(results);
+  const lines = results.map((result) => {
     const status = result.ok ? "PASS" : "FAIL";
     const details = result.details ? ` - ${result.details}` : "";
-    console.log(`${status}: ${result.label}${details}`);
+    return `${status}: ${result.label}${details}`;
   });
-  if (failed.length) {
+  if (snapshotSettings.updated.length) {
+    lines.push(`Updated snapshots: ${snapshotSettings.updated.join(", ")}`);
+  }
+  return lines.join("\n");
+};
+
+if (process.argv[1]?.includes("golden")) {
+  const { options, error } = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(error);
+    console.error(usage);
     process.exitCode = 1;
+  } else if (options.list) {
+    getGoldenTestNames().forEach((name) => console.log(name));
+  } else {
+    snapshotSettings.update = options.update;
+    const results = runGoldenTests(options.test);
+    if (!results.length) {
+      console.error(`No golden test matches "${options.test}".`);
+      process.exitCode = 1;
+    } else {
+      const output = formatResults(results, options.format);
+      if (options.output) {
+        writeFileSync(options.output, `${output}\n`);
+      } else {
+        console.log(output);
+      }
+      if (results.some((result) => !result.ok)) {
+        process.exitCode = 1;
+      }
+    }
   }
 }
-
@@ -1,5 +1,5 @@
 import type { Character } from "@ua/data";
-import { applyAction, createMatchState } from "./index.js";
+import { applyAction, createMatchState } from "./index.ts";
 
 type HarnessResult = {
   label: string;
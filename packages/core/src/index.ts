@@ -1,16 +1,23 @@
 import { statusEffects } from "@ua/data";
 import { createRngState, nextFloat, nextInt } from "./rng.ts";
 import type { RngState } from "./rng.ts";
+import { getStateChecksum, hashValue } from "./sync.ts";
 import type {
   Card,
+  CardCriteria,
   Character,
   Effect,
   EffectAmount,
+  ConditionSubject,
   EffectCondition,
   EffectScalar,
   EffectTarget,
   StatusEffectDefinition,
   StatusValueStat,
+  TriggerAmount,
+  TriggerCondition,
+  TriggerEffect,
+  TriggerEvent,
 } from "@ua/data";
 
 export type PlayerId = "p1" | "p2";
@@ -56,7 +63,7 @@ export type MatchCharacter = {
   resourceMax: Record<string, number>;
   position: number;
   defeated: boolean;
-  turnFlags: TurnFlags;
+  turnTriggers: string[];
 };
 
 export type MatchTeam = {
@@ -103,6 +110,7 @@ export type StackEntry = {
   cardInstanceId?: string;
   cardInstance?: CardInstance;
   spentResources?: Record<string, number>;
+  energySpent?: number;
 };
 
 export type StackEntrySnapshot = {
@@ -143,8 +151,63 @@ export type CombatResolution = {
   steps: CombatResolutionStep[];
   logStart: number;
   logEnd: number;
+  eventStart: number;
+  eventEnd: number;
 };
 
+export type DamageBreakdown = {
+  incoming: number;
+  shield: number;
+  barrier: number;
+  modifier: number;
+  resisted: number;
+  absorbed: number;
+  weakness: number;
+  hpLoss: number;
+  blocked?: "immune" | "invulnerable";
+};
+
+export type MatchEventDetail =
+  | {
+      type: "damage";
+      targetId: MatchCharacterId;
+      sourceId?: MatchCharacterId;
+      label?: string;
+      amount: number;
+      breakdown: DamageBreakdown;
+    }
+  | { type: "heal"; targetId: MatchCharacterId; amount: number; reduced: number; label?: string }
+  | { type: "shield"; targetId: MatchCharacterId; amount: number }
+  | {
+      type: "status_gained";
+      targetId: MatchCharacterId;
+      status: string;
+      amount: number;
+      stat?: StatusValueStat;
+    }
+  | { type: "status_expired"; targetId: MatchCharacterId; status: string }
+  | {
+      type: "card_played" | "card_used" | "card_cancelled" | "card_negated";
+      playerId: PlayerId;
+      sourceId: MatchCharacterId;
+      targetId?: MatchCharacterId;
+      entryId: string;
+      cardName: string;
+      zone: ZoneName;
+      reason?: string;
+    }
+  | { type: "defeat"; characterId: MatchCharacterId; playerId: PlayerId }
+  | { type: "draw"; playerId: PlayerId; count: number }
+  | {
+      type: "movement";
+      kind: "push" | "pull" | "swap";
+      characterId: MatchCharacterId;
+      otherId?: MatchCharacterId;
+      spaces: number;
+    };
+
+export type MatchEvent = MatchEventDetail & { actionId: number };
+
 export type ZoneState = {
   zone: ZoneName;
   cards: StackEntry[];
@@ -162,10 +225,12 @@ export type MatchState = {
   pausedZones: ZoneName[];
   zones: Record<ZoneName, ZoneState>;
   lineSize: number;
+  rules: MatchRules;
   movementPassCount: number;
   players: Record<PlayerId, MatchTeam>;
   playLocks: Record<PlayerId, { source: string; duration: "combat_round" }[]>;
   log: string[];
+  events: MatchEvent[];
   lastResolution?: CombatResolution | null;
   winnerId?: PlayerId;
   pendingTurnStartGains: Record<MatchCharacterId, PendingStatusGain[]>;
@@ -189,6 +254,17 @@ export type MatchState = {
     window: "after_use" | "counter";
     resolvedBy: PlayerId;
   };
+  hidden?: HiddenInformation;
+};
+
+export type HiddenCardCounts = {
+  hand: number;
+  deck: number;
+};
+
+export type HiddenInformation = {
+  viewerId: PlayerId | null;
+  counts: Record<PlayerId, HiddenCardCounts>;
 };
 
 type StatusSnapshot = Record<MatchCharacterId, Record<string, StatusState>>;
@@ -221,23 +297,42 @@ export type Action =
   | { type: "end_turn"; playerId: PlayerId }
   | { type: "clear_log"; playerId: PlayerId };
 
+export type MatchRules = {
+  startingHp: number;
+  maxHp: number;
+  energyPerTurn: number;
+  handSize: number;
+  freeSwaps: number;
+  teamSize: number;
+};
+
 export type MatchOptions = {
   seed?: number;
   enableTranscript?: boolean;
+  rules?: Partial<MatchRules>;
 };
 
 export type TranscriptEntry = {
   action: Action;
   error?: string;
+  checksum?: string;
 };
 
 export type MatchTranscript = {
-  version: 2;
+  version: 4;
   seed: number;
+  rules?: MatchRules;
+  dataFingerprint?: string;
   players: { id: PlayerId; name: string; characterIds: string[] }[];
   actions: TranscriptEntry[];
 };
 
+export type ReplayStep = {
+  state: MatchState;
+  action?: Action;
+  error?: string;
+};
+
 export type CostVariable = {
   type: "energy" | "ultimate";
   multiplier: number;
@@ -250,16 +345,52 @@ export type CostBreakdown = {
   variable?: CostVariable;
 };
 
+export const defaultMatchRules: MatchRules = {
+  startingHp: 100,
+  maxHp: 100,
+  energyPerTurn: 5,
+  handSize: 5,
+  freeSwaps: 1,
+  teamSize: 3,
+};
+
+const maxTeamSize = 5;
+
+export const resolveMatchRules = (
+  rules: Partial<MatchRules> = {}
+): { rules: MatchRules; error?: string } => {
+  const resolved = { ...defaultMatchRules, ...rules };
+  const isCount = (value: number, min: number) => Number.isInteger(value) && value >= min;
+  if (!isCount(resolved.teamSize, 1) || resolved.teamSize > maxTeamSize) {
+    return { rules: resolved, error: `Team size must be between 1 and ${maxTeamSize}.` };
+  }
+  if (!isCount(resolved.startingHp, 1) || !isCount(resolved.maxHp, resolved.startingHp)) {
+    return { rules: resolved, error: "Max HP must be at least starting HP, and both must be positive." };
+  }
+  if (
+    !isCount(resolved.energyPerTurn, 0) ||
+    !isCount(resolved.handSize, 0) ||
+    !isCount(resolved.freeSwaps, 0)
+  ) {
+    return { rules: resolved, error: "Energy, hand size and free swaps must be whole numbers." };
+  }
+  return { rules: resolved };
+};
+
 const cloneState = (state: MatchState) => JSON.parse(JSON.stringify(state)) as MatchState;
 
 const cloneAction = (action: Action): Action => ({ ...action });
 
 export const createMatchTranscript = (
   seed: number,
-  players: { id: PlayerId; name: string; characterIds: string[] }[]
+  players: { id: PlayerId; name: string; characterIds: string[] }[],
+  rules: MatchRules = defaultMatchRules,
+  dataFingerprint?: string
 ): MatchTranscript => ({
-  version: 2,
+  version: transcriptVersion,
   seed,
+  rules: { ...rules },
+  ...(dataFingerprint ? { dataFingerprint } : {}),
   players: players.map((player) => ({ ...player })),
   actions: [],
 });
@@ -267,6 +398,83 @@ export const createMatchTranscript = (
 export const exportTranscript = (state: MatchState): MatchTranscript | null =>
   state.transcript ? (JSON.parse(JSON.stringify(state.transcript)) as MatchTranscript) : null;
 
+export const transcriptVersion = 4;
+
+type LegacyTranscript = Omit<MatchTranscript, "version"> & { version: number };
+
+const transcriptMigrations: Record<number, (transcript: LegacyTranscript) => LegacyTranscript> = {
+  2: (transcript) => ({
+    ...transcript,
+    version: 3,
+    rules: transcript.rules ?? { ...defaultMatchRules },
+  }),
+  3: (transcript) => ({
+    ...transcript,
+    version: 4,
+    actions: transcript.actions.map(({ action, error }) => (error ? { action, error } : { action })),
+  }),
+};
+
+export const migrateTranscript = (
+  value: unknown
+): { transcript: MatchTranscript | null; error?: string } => {
+  const candidate = value as Partial<LegacyTranscript> | null;
+  if (
+    !candidate ||
+    typeof candidate !== "object" ||
+    typeof candidate.seed !== "number" ||
+    !Array.isArray(candidate.players) ||
+    !Array.isArray(candidate.actions)
+  ) {
+    return { transcript: null, error: "Not a match transcript." };
+  }
+  let current = JSON.parse(JSON.stringify(candidate)) as LegacyTranscript;
+  while (current.version !== transcriptVersion) {
+    const migrate = transcriptMigrations[current.version];
+    if (!migrate) {
+      return { transcript: null, error: `Unsupported transcript version ${current.version}.` };
+    }
+    current = migrate(current);
+  }
+  return { transcript: current as MatchTranscript };
+};
+
+export const getDataFingerprint = (characters: Character[], characterIds: string[]) =>
+  hashValue(
+    [...new Set(characterIds)]
+      .sort()
+      .map((id) => characters.find((character) => character.id === id) ?? null)
+  );
+
+const getTranscriptChecksum = (state: MatchState) =>
+  getStateChecksum({ ...state, transcript: undefined, log: [], events: [] });
+
+export const projectMatchState = (
+  state: MatchState,
+  viewerId: PlayerId | null
+): MatchState => {
+  const projected = cloneState(state);
+  const counts = {} as Record<PlayerId, HiddenCardCounts>;
+  (Object.keys(projected.players) as PlayerId[]).forEach((playerId) => {
+    const team = projected.players[playerId];
+    counts[playerId] = { hand: team.hand.length, deck: team.deck.length };
+    if (playerId !== viewerId) {
+      team.hand = [];
+      team.deck = [];
+    }
+  });
+  projected.rng = { seed: 0, state: 0, calls: 0 };
+  projected.transcript = undefined;
+  projected.hidden = { viewerId, counts };
+  return projected;
+};
+
+export const getHandCount = (state: MatchState, playerId: PlayerId) =>
+  state.hidden?.counts[playerId].hand ?? state.players[playerId].hand.length;
+
+export const getDeckCount = (state: MatchState, playerId: PlayerId) =>
+  state.hidden?.counts[playerId].deck ?? state.players[playerId].deck.length;
+
 const recordTranscriptEntry = (
   state: MatchState,
   action: Action,
@@ -275,6 +483,7 @@ const recordTranscriptEntry = (
   if (!state.transcript) return;
   const entry: TranscriptEntry = { action: cloneAction(action) };
   if (error) entry.error = error;
+  entry.checksum = getTranscriptChecksum(state);
   state.transcript.actions.push(entry);
 };
 
@@ -315,23 +524,21 @@ const resolveEffectTargetTeamId = (
   target: EffectTarget | undefined,
   entry: StackEntry
 ) => {
-  if (target === "target") {
+  if (target === "target" || target === "adjacent_to_target") {
     const team = getTeamForCharacter(state, entry.targetId);
     return team?.id ?? entry.playedBy;
   }
-  if (target === "opponent") return getOpponentId(entry.playedBy);
+  if (
+    target === "opponent" ||
+    target === "all_enemies" ||
+    target === "random_enemy" ||
+    target === "opposed_enemy"
+  ) {
+    return getOpponentId(entry.playedBy);
+  }
   return entry.playedBy;
 };
 
-const resolveEffectTargetCharacterId = (
-  target: EffectTarget | undefined,
-  entry: StackEntry
-) => {
-  if (target === "target") return entry.targetId;
-  if (target === "opponent") return entry.targetId;
-  return entry.sourceId;
-};
-
 const hasCombatRoundLock = (state: MatchState, playerId: PlayerId) =>
   state.playLocks[playerId].some((lock) => lock.duration === "combat_round");
 
@@ -348,9 +555,6 @@ const clearCombatRoundLocks = (state: MatchState) => {
   });
 };
 
-const baseHandSize = 5;
-const defaultLineSize = 3;
-
 const createCardInstance = (
   state: MatchState,
   owner: MatchCharacter,
@@ -387,12 +591,6 @@ type PendingStatusGain = {
   stat?: StatusValueStat;
 };
 
-type TurnFlags = {
-  bankaiHitUsed: boolean;
-  kyuubiCloneUsed: boolean;
-  gamabuntaUsed: boolean;
-};
-
 const normalizeStatusName = (value: string) => value.trim().toLowerCase();
 
 const globalStatusMap = new Map<string, StatusEffectDefinition>(
@@ -506,7 +704,7 @@ const getStatusDefinition = (status: string, character?: Character | null): Stat
     };
   }
 
-  const unique = character?.statusEffects?.find((entry) => entry.name === status);
+  const unique = getUniqueStatus(status, character);
   if (unique) {
     return parseUniqueStatusDefinition(unique);
   }
@@ -514,7 +712,8 @@ const getStatusDefinition = (status: string, character?: Character | null): Stat
   return { mode: "value" };
 };
 
-const persistentStatuses = new Set(["Death by Death Note"]);
+const getUniqueStatus = (status: string, character?: Character | null) =>
+  character?.statusEffects?.find((entry) => entry.name === status);
 
 const getActiveStatusState = (
   member: MatchCharacter,
@@ -581,12 +780,6 @@ const scheduleTurnStartGain = (
   state.pendingTurnStartGains[characterId].push(gain);
 };
 
-const resetTurnFlags = (flags: TurnFlags) => {
-  flags.bankaiHitUsed = false;
-  flags.kyuubiCloneUsed = false;
-  flags.gamabuntaUsed = false;
-};
-
 const getStatusPrimaryValue = (state: StatusState, definition: StatusDefinition) => {
   if (definition.mode === "potency_count") return state.potency;
   if (definition.mode === "stack") return state.stack;
@@ -740,6 +933,7 @@ const unusedMovementHelpers = { areOpposed, tryMoveCharacter, moveCharacterBySwa
 void unusedMovementHelpers;
 
 const applyStatusDelta = (
+  state: MatchState,
   target: MatchCharacter,
   status: string,
   amount: number,
@@ -749,11 +943,20 @@ const applyStatusDelta = (
   if (!status || amount === 0) return;
   if (target.defeated) return;
   const definition = getStatusDefinition(status, targetCharacter);
-  const state = getStatusState(target, status);
-  const wasActive = isStatusActive(state, definition);
+  const statusState = getStatusState(target, status);
+  const wasActive = isStatusActive(statusState, definition);
+  if (amount > 0) {
+    addEvent(state, {
+      type: "status_gained",
+      targetId: target.id,
+      status,
+      amount,
+      ...(stat ? { stat } : {}),
+    });
+  }
 
   const applyStat = (key: StatusValueStat, max?: number) => {
-    state[key] = clampValue(state[key] + amount, max);
+    statusState[key] = clampValue(statusState[key] + amount, max);
   };
 
   if (stat) {
@@ -766,35 +969,36 @@ const applyStatusDelta = (
           ? definition.stackMax
           : definition.valueMax;
     applyStat(stat, max);
-    if (!wasActive && isStatusActive(state, definition) && amount > 0) {
-      handleStatusOnGain(target, status, targetCharacter);
+    if (!wasActive && isStatusActive(statusState, definition) && amount > 0) {
+      handleStatusOnGain(state, target, status, targetCharacter);
     }
     return;
   }
 
   if (definition.mode === "potency_count") {
-    state.potency = clampValue(state.potency + amount, definition.potencyMax);
-    if (state.potency > 0 && state.count === 0) {
-      state.count = clampValue(1, definition.countMax);
+    statusState.potency = clampValue(statusState.potency + amount, definition.potencyMax);
+    if (statusState.potency > 0 && statusState.count === 0) {
+      statusState.count = clampValue(1, definition.countMax);
     }
     return;
   }
 
   if (definition.mode === "stack") {
-    state.stack = clampValue(state.stack + amount, definition.stackMax);
-    if (!wasActive && isStatusActive(state, definition) && amount > 0) {
-      handleStatusOnGain(target, status, targetCharacter);
+    statusState.stack = clampValue(statusState.stack + amount, definition.stackMax);
+    if (!wasActive && isStatusActive(statusState, definition) && amount > 0) {
+      handleStatusOnGain(state, target, status, targetCharacter);
     }
     return;
   }
 
-  state.value = clampValue(state.value + amount, definition.valueMax);
-  if (!wasActive && isStatusActive(state, definition) && amount > 0) {
-    handleStatusOnGain(target, status, targetCharacter);
+  statusState.value = clampValue(statusState.value + amount, definition.valueMax);
+  if (!wasActive && isStatusActive(statusState, definition) && amount > 0) {
+    handleStatusOnGain(state, target, status, targetCharacter);
   }
 };
 
 const setStatusValue = (
+  state: MatchState,
   target: MatchCharacter,
   status: string,
   amount: number,
@@ -804,8 +1008,8 @@ const setStatusValue = (
   if (!status || Number.isNaN(amount)) return null;
   if (target.defeated) return null;
   const definition = getStatusDefinition(status, targetCharacter);
-  const state = getStatusState(target, status);
-  const wasActive = isStatusActive(state, definition);
+  const statusState = getStatusState(target, status);
+  const wasActive = isStatusActive(statusState, definition);
   const statKey = stat ?? getStatusPrimaryStat(definition);
   const max =
     statKey === "potency"
@@ -817,14 +1021,14 @@ const setStatusValue = (
           : definition.valueMax;
 
   const clamped = clampValue(amount, max);
-  state[statKey] = clamped;
+  statusState[statKey] = clamped;
 
-  if (definition.mode === "potency_count" && statKey === "potency" && amount > 0 && state.count === 0) {
-    state.count = clampValue(1, definition.countMax);
+  if (definition.mode === "potency_count" && statKey === "potency" && amount > 0 && statusState.count === 0) {
+    statusState.count = clampValue(1, definition.countMax);
   }
 
-  if (!wasActive && isStatusActive(state, definition) && amount > 0) {
-    handleStatusOnGain(target, status, targetCharacter);
+  if (!wasActive && isStatusActive(statusState, definition) && amount > 0) {
+    handleStatusOnGain(state, target, status, targetCharacter);
   }
   return clamped;
 };
@@ -901,6 +1105,7 @@ const spendStatus = (
 };
 
 const handleStatusOnGain = (
+  state: MatchState,
   target: MatchCharacter,
   status: string,
   targetCharacter?: Character | null
@@ -908,18 +1113,18 @@ const handleStatusOnGain = (
   const normalized = normalizeStatusName(status);
   switch (normalized) {
     case "gear 2nd":
-      applyStatusDelta(target, "Strength", 1, undefined, targetCharacter);
-      applyStatusDelta(target, "Haste", 1, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Strength", 1, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Haste", 1, undefined, targetCharacter);
       break;
     case "gear 3rd":
-      applyStatusDelta(target, "Strength", 3, undefined, targetCharacter);
-      applyStatusDelta(target, "Slow", 1, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Strength", 3, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Slow", 1, undefined, targetCharacter);
       break;
     case "the world: time stop":
-      applyStatusDelta(target, "Strength", 2, undefined, targetCharacter);
-      applyStatusDelta(target, "Strength", 2, "count", targetCharacter);
-      applyStatusDelta(target, "Haste", 2, undefined, targetCharacter);
-      applyStatusDelta(target, "Haste", 2, "count", targetCharacter);
+      applyStatusDelta(state, target, "Strength", 2, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Strength", 2, "count", targetCharacter);
+      applyStatusDelta(state, target, "Haste", 2, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Haste", 2, "count", targetCharacter);
       break;
     case "stagnate":
       expireStatus(target, "Stagnate");
@@ -941,12 +1146,12 @@ const handleStatusExpiration = (
   switch (normalized) {
     case "bankai: tensa zangetsu":
     case "hollow interference":
-      applyStatusDelta(target, "Strain", 1, undefined, targetCharacter);
-      applyStatusDelta(target, "Strain", 3, "count", targetCharacter);
+      applyStatusDelta(state, target, "Strain", 1, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Strain", 3, "count", targetCharacter);
       break;
     case "the world: time stop":
-      applyStatusDelta(target, "Strain", 2, undefined, targetCharacter);
-      applyStatusDelta(target, "Strain", 4, "count", targetCharacter);
+      applyStatusDelta(state, target, "Strain", 2, undefined, targetCharacter);
+      applyStatusDelta(state, target, "Strain", 4, "count", targetCharacter);
       break;
     case "gear 3rd":
       scheduleTurnStartGain(state, targetId, { status: "Deflate", amount: 1 });
@@ -956,12 +1161,17 @@ const handleStatusExpiration = (
   }
 };
 
-const pruneStatuses = (member: MatchCharacter, character?: Character | null) => {
-  Object.entries(member.statuses).forEach(([status, state]) => {
-    if (persistentStatuses.has(status)) return;
+const pruneStatuses = (
+  state: MatchState,
+  member: MatchCharacter,
+  character?: Character | null
+) => {
+  Object.entries(member.statuses).forEach(([status, statusState]) => {
+    if (getUniqueStatus(status, character)?.persistent) return;
     const definition = getStatusDefinition(status, character);
-    if (!isStatusActive(state, definition)) {
+    if (!isStatusActive(statusState, definition)) {
       delete member.statuses[status];
+      addEvent(state, { type: "status_expired", targetId: member.id, status });
     }
   });
 };
@@ -1039,9 +1249,13 @@ const getPowerMultiplier = (
     modifier -= 0.1 * getStatusStatValue(member, "Frail", "potency", character);
   }
 
-  if (actionType !== "special") {
-    modifier += 0.05 * getStatusStatValue(member, "Zenkai", "value", character);
-  }
+  character?.statusEffects?.forEach((status) => {
+    status.powerModifiers?.forEach((powerModifier) => {
+      if (!powerModifier.actionTypes.includes(actionType)) return;
+      const value = getStatusStatValue(member, status.name, powerModifier.stat, character);
+      modifier += (powerModifier.percent / 100) * value;
+    });
+  });
 
   return Math.max(0, 1 + modifier);
 };
@@ -1156,14 +1370,15 @@ export const canAfford = (team: MatchTeam, cost: CostBreakdown, xValue = 0) => {
   return team.energy >= energy && team.ultimate >= ultimate;
 };
 
-export const rollPower = (powerText: string, xValue = 0, rng?: RngState) => {
+const parsePowerRange = (powerText: string, xValue = 0) => {
   const cleaned = powerText.trim();
-  if (!cleaned || cleaned === "-") return 0;
+  if (!cleaned || cleaned === "-") return { min: 0, max: 0, rolled: false };
 
   const rangeMatches = Array.from(cleaned.matchAll(/(\d+)\s*-\s*(\d+)/g));
   if (!rangeMatches.length) {
     const valueMatch = cleaned.match(/(\d+)/);
-    return valueMatch ? Number(valueMatch[1]) : 0;
+    const value = valueMatch ? Number(valueMatch[1]) : 0;
+    return { min: value, max: value, rolled: false };
   }
 
   const base = rangeMatches[0];
@@ -1176,7 +1391,13 @@ export const rollPower = (powerText: string, xValue = 0, rng?: RngState) => {
     max += Number(scale[2]) * xValue;
   }
 
-  return rollBetween(min, max, rng);
+  return { min, max, rolled: true };
+};
+
+export const rollPower = (powerText: string, xValue = 0, rng?: RngState) => {
+  const range = parsePowerRange(powerText, xValue);
+  if (!range.rolled) return range.min;
+  return rollBetween(range.min, range.max, rng);
 };
 
 const canTauntOverrideTarget = (card: Card) => {
@@ -1359,6 +1580,17 @@ const resolveRedirectTarget = (
   return null;
 };
 
+const findEntryEffect = <T extends Effect["type"]>(entry: StackEntry, type: T) => {
+  const chosen =
+    entry.choiceIndex === undefined
+      ? []
+      : (entry.effects ?? []).flatMap((effect) =>
+          effect.type === "choose" ? effect.options[entry.choiceIndex ?? 0]?.effects ?? [] : []
+        );
+  const effect = [...(entry.effects ?? []), ...chosen].find((item) => item.type === type);
+  return (effect ?? null) as Extract<Effect, { type: T }> | null;
+};
+
 const getRedirectSpec = (effectText: string[]) => {
   const segments = getTimedTextSegments(effectText);
   for (const segment of segments) {
@@ -1376,7 +1608,8 @@ const getRedirectCandidates = (
   if (!isSingleTargetEntry(entry)) return [] as RedirectCandidate[];
   const candidates: RedirectCandidate[] = [];
   candidates.push(...getCoverRedirectCandidates(state, entry, characters));
-  const redirectSpec = getRedirectSpec(entry.effectText);
+  const redirectSpec =
+    findEntryEffect(entry, "redirect")?.to ?? getRedirectSpec(entry.effectText);
   if (redirectSpec) {
     const redirectTargetId = resolveRedirectTarget(state, entry, redirectSpec);
     if (redirectTargetId && isLegalTargetForEntry(state, entry, redirectTargetId)) {
@@ -1430,6 +1663,46 @@ const getAdjacentTargets = (state: MatchState, targetId: MatchCharacterId) => {
     .map((member) => member.id);
 };
 
+const resolveEffectTargetIds = (
+  state: MatchState,
+  target: EffectTarget | undefined,
+  entry: StackEntry
+): MatchCharacterId[] => {
+  if (target === "target" || target === "opponent") return [entry.targetId];
+  if (target === "adjacent_to_target") return getAdjacentTargets(state, entry.targetId);
+  const source = getMatchCharacter(state, entry.sourceId);
+  const sourceTeam = getTeamForCharacter(state, entry.sourceId);
+  if (!source || !sourceTeam) return [];
+  const allies = sourceTeam.characters.filter((member) => !member.defeated);
+  const enemies = state.players[getOpponentId(sourceTeam.id)].characters.filter(
+    (member) => !member.defeated
+  );
+  switch (target) {
+    case "all_enemies":
+      return enemies.map((member) => member.id);
+    case "all_allies":
+      return allies.map((member) => member.id);
+    case "random_enemy": {
+      if (!enemies.length) return [];
+      const picked = enemies[nextInt(state.rng, 0, enemies.length - 1)];
+      return picked ? [picked.id] : [];
+    }
+    case "lowest_hp_ally": {
+      const lowest = allies.reduce<MatchCharacter | null>(
+        (best, member) => (!best || member.hp < best.hp ? member : best),
+        null
+      );
+      return lowest ? [lowest.id] : [];
+    }
+    case "opposed_enemy": {
+      const opposed = enemies.find((member) => areOpposed(member.position, source.position));
+      return opposed ? [opposed.id] : [];
+    }
+    default:
+      return [entry.sourceId];
+  }
+};
+
 const getAreaTargetsForEntry = (state: MatchState, entry: StackEntry) => {
   const sourceTeam = getTeamForCharacter(state, entry.sourceId);
   if (!sourceTeam) return [entry.targetId];
@@ -1439,7 +1712,8 @@ const getAreaTargetsForEntry = (state: MatchState, entry: StackEntry) => {
   const targetText = entry.targetText?.toLowerCase() ?? "";
   const isAoe = hasTypeTag(entry.types, "aoe");
   const isSplash = hasTypeTag(entry.types, "splash");
-  const isBounce = hasTypeTag(entry.types, "bounce");
+  const bounceEffect = findEntryEffect(entry, "bounce");
+  const isBounce = Boolean(bounceEffect) || hasTypeTag(entry.types, "bounce");
   const effectAllEnemies = lineMentionsAll(entry.effectText, "enemies");
   const effectAllAllies = lineMentionsAll(entry.effectText, "allies");
 
@@ -1475,7 +1749,7 @@ const getAreaTargetsForEntry = (state: MatchState, entry: StackEntry) => {
     if (isBounce) {
       const bounceTargets = getAdjacentTargets(state, baseTargets[0]);
       if (bounceTargets.length) {
-        const bounceCount = getBounceCount(entry.effectText);
+        const bounceCount = bounceEffect?.count ?? getBounceCount(entry.effectText);
         for (let index = 0; index < bounceCount; index += 1) {
           const picked = bounceTargets[nextInt(state.rng, 0, bounceTargets.length - 1)];
           if (picked) targets.push(picked);
@@ -1512,6 +1786,9 @@ const drawCards = (state: MatchState, playerId: PlayerId, count: number) => {
     team.hand.push(nextCard);
     remaining -= 1;
   }
+  if (remaining < count) {
+    addEvent(state, { type: "draw", playerId, count: count - remaining });
+  }
 };
 
 const drawToHandSize = (
@@ -1526,35 +1803,38 @@ const drawToHandSize = (
   }
 };
 
-const matchesSearchCriteria = (card: Card, criteria: string) => {
-  const normalized = normalizeText(criteria).toLowerCase();
+const cardTypeTags = [
+  "basic",
+  "technique",
+  "ultimate",
+  "attack",
+  "defense",
+  "special",
+  "physical",
+  "magical",
+  "melee",
+  "ranged",
+];
+
+export const parseCardCriteria = (text: string): CardCriteria => {
+  const normalized = normalizeText(text).toLowerCase();
   const nameMatch = normalized.match(/named\s+(.+)/i) ?? normalized.match(/"([^"]+)"/);
-  const nameCriteria = nameMatch ? normalizeText(nameMatch[1]).toLowerCase() : null;
-  if (nameCriteria) {
-    return normalizeText(card.name).toLowerCase() === nameCriteria;
-  }
+  if (nameMatch) return { name: normalizeText(nameMatch[1]) };
+  const types = cardTypeTags.filter((tag) => normalized.includes(tag));
+  if (types.length) return { types };
+  const cleaned = normalized.replace(/\b(a|an|the|card|cards)\b/g, "").replace(/\s+/g, " ").trim();
+  return cleaned ? { name: cleaned } : {};
+};
 
-  const tagKeys = [
-    "basic",
-    "technique",
-    "ultimate",
-    "attack",
-    "defense",
-    "special",
-    "physical",
-    "magical",
-    "melee",
-    "ranged",
-  ];
-  const tags = tagKeys.filter((tag) => normalized.includes(tag));
-  if (tags.length) {
-    return tags.every((tag) => hasTypeTag(card.types, tag));
-  }
+export const matchesCardCriteria = (card: Card, criteria: CardCriteria) =>
+  (!criteria.name ||
+    normalizeText(card.name).toLowerCase() === normalizeText(criteria.name).toLowerCase()) &&
+  (criteria.types ?? []).every((type) => hasTypeTag(card.types, type));
 
-  const cleaned = normalized.replace(/\b(a|an|the|card|cards)\b/g, "").trim();
-  if (!cleaned) return true;
-  return normalizeText(card.name).toLowerCase().includes(cleaned);
-};
+export const describeCardCriteria = (criteria: CardCriteria) =>
+  [criteria.types?.join(" "), criteria.name ? `named ${criteria.name}` : ""]
+    .filter(Boolean)
+    .join(" ") || "any card";
 
 const scryTopCards = (
   state: MatchState,
@@ -1612,7 +1892,7 @@ const seekTopCards = (
   state: MatchState,
   playerId: PlayerId,
   count: number,
-  criteria: string,
+  criteria: CardCriteria,
   take: number,
   characters: Character[],
   takeIds?: string[]
@@ -1630,7 +1910,7 @@ const seekTopCards = (
 
   peekedTopFirst.forEach((instance) => {
     const card = findCard(characters, instance.characterId, instance.cardSlot);
-    if (card && matchesSearchCriteria(card, criteria)) {
+    if (card && matchesCardCriteria(card, criteria)) {
       availableMatches.add(instance.id);
     }
   });
@@ -1648,7 +1928,7 @@ const seekTopCards = (
 
   peekedTopFirst.forEach((instance) => {
     const card = findCard(characters, instance.characterId, instance.cardSlot);
-    const matches = card && matchesSearchCriteria(card, criteria);
+    const matches = card && matchesCardCriteria(card, criteria);
     if (explicitTake) {
       if (picked.some((candidate) => candidate.id === instance.id)) {
         kept.push(instance);
@@ -1675,7 +1955,7 @@ const seekTopCards = (
 const searchDeck = (
   state: MatchState,
   playerId: PlayerId,
-  criteria: string,
+  criteria: CardCriteria,
   characters: Character[],
   pickId?: string
 ) => {
@@ -1687,7 +1967,7 @@ const searchDeck = (
     if (index !== -1) {
       const instance = team.deck[index];
       const card = instance ? findCard(characters, instance.characterId, instance.cardSlot) : null;
-      if (card && matchesSearchCriteria(card, criteria)) {
+      if (card && matchesCardCriteria(card, criteria)) {
         foundIndex = index;
         foundCard = card;
       }
@@ -1697,7 +1977,7 @@ const searchDeck = (
     if (foundIndex !== -1) break;
     const instance = team.deck[index];
     const card = instance ? findCard(characters, instance.characterId, instance.cardSlot) : null;
-    if (card && matchesSearchCriteria(card, criteria)) {
+    if (card && matchesCardCriteria(card, criteria)) {
       foundIndex = index;
       foundCard = card;
       break;
@@ -1792,7 +2072,11 @@ const buildStartingZones = (
   shuffle(team.deck, state.rng);
 };
 
-const applyStartingStatuses = (member: MatchCharacter, character: Character) => {
+const applyStartingStatuses = (
+  state: MatchState,
+  member: MatchCharacter,
+  character: Character
+) => {
   if (!character.innates?.length) return;
   character.innates.forEach((innate) => {
     const normalized = innate.text.trim();
@@ -1809,7 +2093,7 @@ const applyStartingStatuses = (member: MatchCharacter, character: Character) =>
         const statusName = atMatch[1].trim();
         const amount = Number(atMatch[2]);
         if (amount > 0) {
-          applyStatusDelta(member, statusName, amount, undefined, character);
+          applyStatusDelta(state, member, statusName, amount, undefined, character);
         }
         return;
       }
@@ -1818,14 +2102,14 @@ const applyStartingStatuses = (member: MatchCharacter, character: Character) =>
         const amount = Number(valueMatch[1]);
         const statusName = valueMatch[2].trim().replace(/\.$/, "");
         if (amount > 0) {
-          applyStatusDelta(member, statusName, amount, undefined, character);
+          applyStatusDelta(state, member, statusName, amount, undefined, character);
           member.resourceMax[statusName] = amount;
         }
         return;
       }
       const statusName = part.replace(/\.$/, "");
       if (!statusName) return;
-      applyStatusDelta(member, statusName, 1, undefined, character);
+      applyStatusDelta(state, member, statusName, 1, undefined, character);
       member.resourceMax[statusName] = Math.max(member.resourceMax[statusName] ?? 0, 1);
     });
   });
@@ -1902,7 +2186,7 @@ const reloadEquippedWeapon = (
   const current = getStatusStatValue(member, ammoStatus, "value", character);
   const delta = max - current;
   if (delta <= 0) return;
-  applyStatusDelta(member, ammoStatus, delta, "value", character);
+  applyStatusDelta(state, member, ammoStatus, delta, "value", character);
   addLog(state, `${member.name} reloads ${equipped.replace("Equip: ", "")}.`);
 };
 
@@ -1926,7 +2210,7 @@ const switchEquipment = (
       expireStatus(member, status);
     }
   });
-  applyStatusDelta(member, equipStatus, 1, undefined, character);
+  applyStatusDelta(state, member, equipStatus, 1, undefined, character);
   addLog(state, `${member.name} equips ${equipStatus.replace("Equip: ", "")}.`);
 };
 
@@ -2073,7 +2357,7 @@ const parseSearchLine = (line: string) => {
   const match = normalized.match(/Search(?:\s+your\s+draw\s+pile)?\s+for\s+(.+)/i);
   if (!match) return null;
   const criteria = match[1].trim().replace(/\.$/, "");
-  return criteria || null;
+  return criteria ? parseCardCriteria(criteria) : null;
 };
 
 const parseSeekLine = (line: string, xValue: number) => {
@@ -2088,7 +2372,7 @@ const parseSeekLine = (line: string, xValue: number) => {
   const takeRaw = parts[1]?.trim();
   const take = takeRaw ? Number(takeRaw) : 1;
   if (!criteria || Number.isNaN(take)) return null;
-  return { count, criteria, take };
+  return { count, criteria: parseCardCriteria(criteria), take };
 };
 
 const parsePushPullLine = (line: string, xValue: number) => {
@@ -2415,6 +2699,12 @@ const getTimedTextSegments = (lines: string[]) => {
   return segments;
 };
 
+const getKeywordSentences = (line: string) =>
+  line
+    .split(/\.\s*/)
+    .map((sentence) => sentence.trim().toLowerCase())
+    .filter(Boolean);
+
 const getKeywordFlags = (lines: string[]): KeywordFlags => {
   const flags: KeywordFlags = {
     evade: false,
@@ -2425,8 +2715,7 @@ const getKeywordFlags = (lines: string[]): KeywordFlags => {
     close: false,
     far: false,
   };
-  lines.forEach((line) => {
-    const normalized = line.trim().replace(/\.$/, "").toLowerCase();
+  lines.flatMap(getKeywordSentences).forEach((normalized) => {
     if (normalized === "evade") flags.evade = true;
     if (normalized === "counter") flags.counter = true;
     if (normalized === "reuse") flags.reuse = true;
@@ -2488,8 +2777,7 @@ const getLifecycleKeywords = (lines: string[], effects?: Effect[]): LifecycleKey
     prepare: 0,
   };
 
-  lines.forEach((line) => {
-    const normalized = line.trim().replace(/\.$/, "").toLowerCase();
+  lines.flatMap(getKeywordSentences).forEach((normalized) => {
     if (normalized === "exhaust") keywords.exhaust = true;
     if (normalized === "ethereal") keywords.ethereal = true;
     if (normalized === "retain") keywords.retain = true;
@@ -2560,7 +2848,7 @@ const hasStructuredEffectType = (
   return found;
 };
 
-const getXRangeFromText = (lines: string[]) => {
+export const getXRangeFromText = (lines: string[]) => {
   for (const line of lines) {
     const match = line.match(/Choose X\s*\((\d+)\s*-\s*(\d+)\)/i);
     if (match) {
@@ -2570,7 +2858,7 @@ const getXRangeFromText = (lines: string[]) => {
         return { min, max };
       }
     }
-    const spendMatch = line.match(/You may spend X\s*[^()]*\((\d+)\s*-\s*(\d+)\)/i);
+    const spendMatch = line.match(/(?:You may spend|Spend) X\s*[^()]*\((\d+)\s*-\s*(\d+)\)/i);
     if (spendMatch) {
       const min = Number(spendMatch[1]);
       const max = Number(spendMatch[2]);
@@ -2824,10 +3112,11 @@ const applyStatusDamage = (
   const shieldAbsorbed = Math.min(target.shield, remaining);
   target.shield -= shieldAbsorbed;
   remaining -= shieldAbsorbed;
+  let barrierAbsorbed = 0;
   if (remaining > 0) {
     const barrier = getActiveStatusState(target, "Barrier", character);
     if (barrier && barrier.value > 0) {
-      const barrierAbsorbed = Math.min(barrier.value, remaining);
+      barrierAbsorbed = Math.min(barrier.value, remaining);
       barrier.value -= barrierAbsorbed;
       remaining -= barrierAbsorbed;
     }
@@ -2835,6 +3124,22 @@ const applyStatusDamage = (
   if (remaining <= 0) return;
   target.hp = Math.max(target.hp - remaining, 0);
   addLog(state, `${target.name} takes ${remaining} damage from ${label}.`);
+  addEvent(state, {
+    type: "damage",
+    targetId: target.id,
+    label,
+    amount: remaining,
+    breakdown: {
+      incoming: amount,
+      shield: shieldAbsorbed,
+      barrier: barrierAbsorbed,
+      modifier: adjusted - amount,
+      resisted: 0,
+      absorbed: 0,
+      weakness: 0,
+      hpLoss: remaining,
+    },
+  });
   if (target.hp <= 0) {
     handleDefeat(state, target.id, `${target.name} is defeated.`);
   }
@@ -2855,51 +3160,66 @@ const applyHealing = (
   const percentReduction = wither > 0 ? Math.floor((amount * wither) / 100) : 0;
   const adjusted = Math.max(0, amount - percentReduction - wound);
   if (adjusted <= 0) return 0;
-  target.hp = Math.min(target.hp + adjusted, 100);
+  target.hp = Math.min(target.hp + adjusted, state.rules.maxHp);
   addLog(
     state,
     label
       ? `${target.name} heals ${adjusted} HP from ${label}.`
       : `${target.name} heals ${adjusted} HP.`
   );
+  addEvent(state, {
+    type: "heal",
+    targetId: target.id,
+    amount: adjusted,
+    reduced: amount - adjusted,
+    ...(label ? { label } : {}),
+  });
   return adjusted;
 };
 
-const applyDamage = (
-  state: MatchState,
+const getDamageBreakdown = (
   target: MatchCharacter,
   damage: number,
   sourceTypes: string[],
   targetCharacter: Character | null,
   mitigationText?: string[]
-) => {
-  if (damage <= 0) return 0;
-  if (target.defeated) return 0;
+): DamageBreakdown => {
   const normalizedTypes = new Set(sourceTypes.map(normalizeTag));
   const rules = getMitigationRules(target, targetCharacter, mitigationText);
+  const breakdown: DamageBreakdown = {
+    incoming: damage,
+    shield: 0,
+    barrier: 0,
+    modifier: 0,
+    resisted: 0,
+    absorbed: 0,
+    weakness: 0,
+    hpLoss: 0,
+  };
 
   if (rules.some((rule) => rule.kind === "immune" && matchesAnyCondition(normalizedTypes, rule.tags))) {
-    return 0;
+    breakdown.blocked = "immune";
+    return breakdown;
   }
   if (getStatusStatValue(target, "Invulnerable", "value", targetCharacter) > 0) {
-    return 0;
+    breakdown.blocked = "invulnerable";
+    return breakdown;
   }
 
-  const absorbed = Math.min(target.shield, damage);
-  target.shield -= absorbed;
-  let remaining = damage - absorbed;
-  let barrierAbsorbed = 0;
+  breakdown.shield = Math.min(target.shield, damage);
+  let remaining = damage - breakdown.shield;
   if (remaining > 0) {
     const barrier = getActiveStatusState(target, "Barrier", targetCharacter);
     if (barrier && barrier.value > 0) {
-      barrierAbsorbed = Math.min(barrier.value, remaining);
-      barrier.value -= barrierAbsorbed;
-      remaining -= barrierAbsorbed;
+      breakdown.barrier = Math.min(barrier.value, remaining);
+      remaining -= breakdown.barrier;
     }
   }
   if (remaining > 0) {
     const multiplier = getDamageTakenMultiplier(target, targetCharacter);
-    remaining = Math.max(0, Math.floor(remaining * multiplier));
+    const modified = Math.max(0, Math.floor(remaining * multiplier));
+    breakdown.modifier = modified - remaining;
+    remaining = modified;
   }
 
   const applyReduction = (current: number, ruleSet: MitigationRule[]) => {
@@ -2930,25 +3250,63 @@ const applyDamage = (
     const increase = getMitigationAmount(remaining, rule);
     if (increase <= 0) return;
     remaining += increase;
+    breakdown.weakness += increase;
   });
 
-  if (remaining > 0) {
-    target.hp = Math.max(target.hp - remaining, 0);
+  breakdown.resisted = resistResult.reduced;
+  breakdown.absorbed = absorbResult.reduced;
+  breakdown.hpLoss = Math.max(remaining, 0);
+  return breakdown;
+};
+
+const applyDamage = (
+  state: MatchState,
+  target: MatchCharacter,
+  damage: number,
+  sourceTypes: string[],
+  targetCharacter: Character | null,
+  mitigationText?: string[],
+  sourceId?: MatchCharacterId
+) => {
+  if (damage <= 0) return 0;
+  if (target.defeated) return 0;
+  const breakdown = getDamageBreakdown(target, damage, sourceTypes, targetCharacter, mitigationText);
+  const dealt = breakdown.shield + breakdown.barrier + breakdown.hpLoss;
+  addEvent(state, {
+    type: "damage",
+    targetId: target.id,
+    ...(sourceId ? { sourceId } : {}),
+    amount: dealt,
+    breakdown,
+  });
+  if (breakdown.blocked) return 0;
+
+  target.shield -= breakdown.shield;
+  if (breakdown.barrier > 0) {
+    const barrier = getActiveStatusState(target, "Barrier", targetCharacter);
+    if (barrier) barrier.value -= breakdown.barrier;
   }
-  if (absorbResult.reduced > 0) {
-    target.hp = Math.min(target.hp + absorbResult.reduced, 100);
+  if (breakdown.hpLoss > 0) {
+    target.hp = Math.max(target.hp - breakdown.hpLoss, 0);
+  }
+  if (breakdown.absorbed > 0) {
+    target.hp = Math.min(target.hp + breakdown.absorbed, state.rules.maxHp);
   }
   if (target.hp <= 0) {
     handleDefeat(state, target.id, `${target.name} is defeated.`);
   }
 
-  return absorbed + barrierAbsorbed + remaining;
+  return dealt;
 };
 
 const addLog = (state: MatchState, entry: string) => {
   state.log.push(entry);
 };
 
+const addEvent = (state: MatchState, event: MatchEventDetail) => {
+  state.events.push({ ...event, actionId: state.actionId ?? 0 });
+};
+
 const removeCharacterCards = (
   pile: CardInstance[],
   ownerId: MatchCharacterId,
@@ -2977,6 +3335,7 @@ const handleDefeat = (state: MatchState, characterId: MatchCharacterId, reason?:
   if (reason) {
     addLog(state, reason);
   }
+  addEvent(state, { type: "defeat", characterId: member.id, playerId: team.id });
 
   const removed: CardInstance[] = [];
   team.hand = removeCharacterCards(team.hand, member.id, removed);
@@ -3011,6 +3370,152 @@ const getActionType = (types: string[]): ActionType => {
   return "special";
 };
 
+type TriggerContext = {
+  entry?: StackEntry;
+  energySpent?: number;
+};
+
+const getTriggerAmount = (
+  amount: TriggerAmount,
+  member: MatchCharacter,
+  statusState: StatusState
+) => {
+  switch (amount.kind) {
+    case "flat":
+      return amount.value;
+    case "status":
+      return statusState[amount.stat];
+    case "hp_percent":
+      return Math.floor(member.hp * (amount.percent / 100) * statusState[amount.stat]);
+    default:
+      return 0;
+  }
+};
+
+const isTriggerConditionMet = (
+  state: MatchState,
+  condition: TriggerCondition,
+  statusState: StatusState,
+  context: TriggerContext
+) => {
+  const entry = context.entry;
+  switch (condition.kind) {
+    case "card_name":
+      return entry?.cardName === condition.name;
+    case "action_type":
+      return entry !== undefined && getActionType(entry.types) === condition.actionType;
+    case "energy_spent":
+      return (context.energySpent ?? 0) >= condition.min;
+    case "targets_enemy":
+      return (
+        entry !== undefined &&
+        getTeamForCharacter(state, entry.targetId)?.id === getOpponentId(entry.playedBy)
+      );
+    case "status_min":
+      return statusState[condition.stat] >= condition.min;
+    case "status_max":
+      return statusState[condition.stat] <= condition.max;
+    default:
+      return false;
+  }
+};
+
+const applyTriggerEffect = (
+  state: MatchState,
+  effect: TriggerEffect,
+  member: MatchCharacter,
+  statusName: string,
+  statusState: StatusState,
+  character: Character | null,
+  characters: Character[]
+) => {
+  switch (effect.type) {
+    case "gain_status":
+      applyStatusDelta(
+        state,
+        member,
+        effect.status,
+        getTriggerAmount(effect.amount, member, statusState),
+        effect.stat,
+        character
+      );
+      break;
+    case "adjust_status":
+      applyStatusStatDelta(
+        member,
+        statusName,
+        getTriggerAmount(effect.amount, member, statusState),
+        effect.stat,
+        character
+      );
+      break;
+    case "status_damage":
+      applyStatusDamage(
+        state,
+        member.id,
+        getTriggerAmount(effect.amount, member, statusState),
+        statusName,
+        character
+      );
+      break;
+    case "create_card":
+      createCardsInHand(state, member.id, effect.cardName, effect.count, characters);
+      break;
+    case "defeat":
+      handleDefeat(state, member.id);
+      break;
+    default:
+      break;
+  }
+};
+
+const runStatusTriggers = (
+  state: MatchState,
+  event: TriggerEvent,
+  member: MatchCharacter,
+  statusName: string,
+  character: Character | null,
+  characters: Character[],
+  context: TriggerContext = {}
+) => {
+  const triggers = getUniqueStatus(statusName, character)?.triggers ?? [];
+  triggers.forEach((trigger) => {
+    if (trigger.event !== event || member.defeated) return;
+    const statusState = member.statuses[statusName];
+    if (!statusState) return;
+    if (trigger.oncePerTurn && member.turnTriggers.includes(trigger.id)) return;
+    const conditions = trigger.conditions ?? [];
+    if (!conditions.every((condition) => isTriggerConditionMet(state, condition, statusState, context))) {
+      return;
+    }
+    if (trigger.oncePerTurn) {
+      member.turnTriggers.push(trigger.id);
+    }
+    if (trigger.log) {
+      addLog(state, trigger.log.replace("{name}", member.name));
+    }
+    trigger.effects.forEach((effect) => {
+      if (member.defeated) return;
+      applyTriggerEffect(state, effect, member, statusName, statusState, character, characters);
+    });
+  });
+};
+
+const runActiveStatusTriggers = (
+  state: MatchState,
+  event: TriggerEvent,
+  member: MatchCharacter,
+  characters: Character[],
+  context: TriggerContext = {}
+) => {
+  const character = getCharacterById(characters, member.characterId);
+  character?.statusEffects?.forEach((status) => {
+    if (!status.triggers?.some((trigger) => trigger.event === event)) return;
+    if (!getActiveStatusState(member, status.name, character)) return;
+    runStatusTriggers(state, event, member, status.name, character, characters, context);
+  });
+};
+
 const applyCardPlayedStatusRules = (
   state: MatchState,
   entry: StackEntry,
@@ -3024,7 +3529,7 @@ const applyCardPlayedStatusRules = (
   const bleed = getActiveStatusState(source, "Bleed", sourceCharacter);
   if (bleed) {
     applyStatusDamage(state, entry.sourceId, bleed.potency, "Bleed", sourceCharacter);
-    applyStatusDelta(source, "Bleed", energySpent, undefined, sourceCharacter);
+    applyStatusDelta(state, source, "Bleed", energySpent, undefined, sourceCharacter);
   }
 
   const burn = getActiveStatusState(source, "Burn", sourceCharacter);
@@ -3035,30 +3540,12 @@ const applyCardPlayedStatusRules = (
 
   const poison = getActiveStatusState(source, "Poison", sourceCharacter);
   if (poison) {
-    applyStatusDelta(source, "Poison", energySpent, undefined, sourceCharacter);
-  }
-
-  const kyuubi = getActiveStatusState(source, "Kyuubi Chakra", sourceCharacter);
-  const turnFlags = source.turnFlags;
-  if (kyuubi && !turnFlags.kyuubiCloneUsed && entry.cardName === "Shadow Clone Jutsu") {
-    applyStatusDelta(source, "Shadow Clones", kyuubi.potency, undefined, sourceCharacter);
-    turnFlags.kyuubiCloneUsed = true;
+    applyStatusDelta(state, source, "Poison", energySpent, undefined, sourceCharacter);
   }
 
-  const gamabunta = getActiveStatusState(source, "Summoned: Gamabunta", sourceCharacter);
-  const targetTeam = getTeamForCharacter(state, entry.targetId);
-  if (
-    gamabunta &&
-    !turnFlags.gamabuntaUsed &&
-    getActionType(entry.types) === "attack" &&
-    energySpent >= 2 &&
-    targetTeam?.id === getOpponentId(entry.playedBy)
-  ) {
-    turnFlags.gamabuntaUsed = true;
-    createCardsInHand(state, entry.sourceId, "Gamabunta: Toad Smash", 1, characters);
-  }
+  runActiveStatusTriggers(state, "card_played", source, characters, { entry, energySpent });
 
-  pruneStatuses(source, sourceCharacter);
+  pruneStatuses(state, source, sourceCharacter);
 };
 
 const applyTurnStartEffects = (
@@ -3073,19 +3560,19 @@ const applyTurnStartEffects = (
 
   team.characters.forEach((member) => {
     if (member.defeated) return;
-    resetTurnFlags(member.turnFlags);
+    member.turnTriggers = [];
     const character = getCharacterById(characters, member.characterId);
 
     const pending = state.pendingTurnStartGains[member.id] ?? [];
     if (pending.length) {
       pending.forEach((gain) => {
-        applyStatusDelta(member, gain.status, gain.amount, gain.stat, character);
+        applyStatusDelta(state, member, gain.status, gain.amount, gain.stat, character);
       });
       pending.length = 0;
     }
 
     const gainStatus = (status: string, amount: number, stat?: StatusValueStat) => {
-      applyStatusDelta(member, status, amount, stat, character);
+      applyStatusDelta(state, member, status, amount, stat, character);
     };
 
     if (getActiveStatusState(member, "Equip: Handgun", character)) {
@@ -3154,7 +3641,7 @@ const applyTurnStartEffects = (
     }
   });
 
-  drawToHandSize(state, playerId, baseHandSize + extraDraw);
+  drawToHandSize(state, playerId, state.rules.handSize + extraDraw);
   applyPrepareAdjustments(state, playerId, characters);
 
   return allStunned && Boolean(options?.resolveStun);
@@ -3232,7 +3719,7 @@ const applyTurnEndEffects = (state: MatchState, playerId: PlayerId, characters:
     });
     updateStatus("Renewal", (statusState, definition) => {
       if (statusState.potency > 0) {
-        const amount = Math.floor((100 * statusState.potency) / 100);
+        const amount = Math.floor((state.rules.maxHp * statusState.potency) / 100);
         applyHealing(state, member.id, amount, character, "Renewal");
       }
       statusState.count = clampValue(statusState.count - 1, definition.countMax);
@@ -3305,14 +3792,6 @@ const applyTurnEndEffects = (state: MatchState, playerId: PlayerId, characters:
       statusState.value = clampValue(statusState.value - 1, definition.valueMax);
     });
 
-    updateStatus("Death by Death Note", (statusState, definition) => {
-      statusState.value = clampValue(statusState.value - 1, definition.valueMax);
-      if (statusState.value <= 0) {
-        member.hp = 0;
-        handleDefeat(state, member.id, `${member.name} succumbs to Death by Death Note.`);
-      }
-    });
-
     updateStatus("Cover", () => {
       expireStatus(member, "Cover");
     });
@@ -3335,22 +3814,15 @@ const applyTurnEndEffects = (state: MatchState, playerId: PlayerId, characters:
     updateStatus("The World: Time Stop", (statusState, definition) => {
       statusState.count = clampValue(statusState.count - 1, definition.countMax);
     });
-    updateStatus("Kyuubi Chakra", (statusState, definition) => {
-      statusState.count = clampValue(statusState.count - 1, definition.countMax);
-      if (statusState.potency > 0) {
-        const drain = Math.floor(member.hp * 0.05 * statusState.potency);
-        applyStatusDamage(state, member.id, drain, "Kyuubi Chakra", character);
-      }
-    });
-    updateStatus("Kaioken", (statusState, definition) => {
-      statusState.count = clampValue(statusState.count - 1, definition.countMax);
-      if (statusState.potency > 0) {
-        const drain = Math.floor(member.hp * 0.1 * statusState.potency);
-        applyStatusDamage(state, member.id, drain, "Kaioken", character);
-      }
+
+    character?.statusEffects?.forEach((status) => {
+      if (!status.triggers?.some((trigger) => trigger.event === "turn_end")) return;
+      updateStatus(status.name, () => {
+        runStatusTriggers(state, "turn_end", member, status.name, character, characters);
+      });
     });
 
-    pruneStatuses(member, character);
+    pruneStatuses(state, member, character);
     member.shield = 0;
   });
 
@@ -3375,8 +3847,8 @@ const advanceTurn = (state: MatchState, characters: Character[]) => {
     });
 
     Object.values(state.players).forEach((team) => {
-      team.energy = 5;
-      team.movementFreeSwapsRemaining = 1;
+      team.energy = state.rules.energyPerTurn;
+      team.movementFreeSwapsRemaining = state.rules.freeSwaps;
     });
 
     const initiator = state.players[state.initiativePlayerId];
@@ -3403,7 +3875,7 @@ const advanceTurn = (state: MatchState, characters: Character[]) => {
   }
 };
 
-const resolveEffectScalar = (value: EffectScalar, xValue: number) => {
+export const resolveEffectScalar = (value: EffectScalar, xValue: number) => {
   if (typeof value === "number") return value;
   switch (value.kind) {
     case "x":
@@ -3419,7 +3891,52 @@ const resolveEffectScalar = (value: EffectScalar, xValue: number) => {
   }
 };
 
-const resolveEffectAmount = (amount: EffectAmount, power: number, xValue: number) => {
+const getScalingCount = (
+  amount: EffectAmount,
+  state: MatchState,
+  entry: StackEntry,
+  characters: Character[]
+) => {
+  const subjectId =
+    "subject" in amount && amount.subject === "target" ? entry.targetId : entry.sourceId;
+  const subject = getMatchCharacter(state, subjectId);
+  const team = getTeamForCharacter(state, subjectId);
+  const sourceTeam = getTeamForCharacter(state, entry.sourceId);
+  const countAlive = (candidate: MatchTeam | null) =>
+    candidate?.characters.filter((member) => !member.defeated).length ?? 0;
+  switch (amount.kind) {
+    case "status_stat": {
+      if (!subject) return 0;
+      const character = getCharacterById(characters, subject.characterId);
+      const stat =
+        amount.stat ?? getStatusPrimaryStat(getStatusDefinition(amount.status, character));
+      return getStatusStatValue(subject, amount.status, stat, character);
+    }
+    case "missing_hp":
+      return subject ? Math.max(state.rules.maxHp - subject.hp, 0) : 0;
+    case "allies_alive":
+      return countAlive(sourceTeam);
+    case "enemies_alive":
+      return sourceTeam ? countAlive(state.players[getOpponentId(sourceTeam.id)]) : 0;
+    case "hand_size":
+      return team?.hand.length ?? 0;
+    case "discard_size":
+      return team?.discard.length ?? 0;
+    case "energy_spent":
+      return entry.energySpent ?? 0;
+    default:
+      return 0;
+  }
+};
+
+const resolveEffectAmount = (
+  amount: EffectAmount,
+  power: number,
+  state: MatchState,
+  entry: StackEntry,
+  characters: Character[]
+) => {
+  const xValue = entry.xValue;
   if (amount.kind === "flat") return amount.value;
   if (amount.kind === "power") return power;
   if (amount.kind === "power_div") {
@@ -3430,7 +3947,12 @@ const resolveEffectAmount = (amount: EffectAmount, power: number, xValue: number
   if (amount.kind === "x_plus") return xValue + amount.value;
   if (amount.kind === "x_minus") return Math.max(xValue - amount.value, 0);
   if (amount.kind === "x_times") return xValue * amount.value;
-  return 0;
+  const per = amount.per ?? 1;
+  if (per <= 0) return 0;
+  const scaled =
+    Math.floor(getScalingCount(amount, state, entry, characters) / per) * (amount.value ?? 1);
+  const clamped = Math.max(scaled, amount.min ?? scaled);
+  return amount.max === undefined ? clamped : Math.min(clamped, amount.max);
 };
 
 const getHitCountFromStructuredEffects = (
@@ -3456,7 +3978,9 @@ const getHitCountFromStructuredEffects = (
         entry.sourceId,
         entry.targetId,
         sourceCharacter,
-        targetCharacter
+        targetCharacter,
+        state,
+        getEntryZone(state, entry)
       )
     ) {
       return;
@@ -3507,43 +4031,154 @@ const getHitCountForEntry = (
     ? getHitCountFromStructuredEffects(state, entry, characters)
     : getHitCountFromText(entry);
 
+const isWithinRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+const getEntryZone = (state: MatchState, entry: StackEntry) =>
+  (["fast", "normal", "slow"] as ZoneName[]).find((zone) =>
+    state.zones[zone].cards.some((card) => card.id === entry.id)
+  ) ?? state.activeZone ?? undefined;
+
 const isConditionMet = (
   condition: EffectCondition | undefined,
   snapshot: StatusSnapshot,
   sourceId: MatchCharacterId,
   targetId: MatchCharacterId,
   sourceCharacter: Character | null,
-  targetCharacter: Character | null
-) => {
+  targetCharacter: Character | null,
+  state: MatchState,
+  zone?: ZoneName
+): boolean => {
   if (!condition) return true;
+  const isMet = (inner: EffectCondition) =>
+    isConditionMet(inner, snapshot, sourceId, targetId, sourceCharacter, targetCharacter, state, zone);
+  const getSubject = (subject?: ConditionSubject) =>
+    getMatchCharacter(state, subject === "target" ? targetId : sourceId);
   switch (condition.kind) {
     case "self_has_status": {
       const threshold = condition.min ?? 1;
-      const state = getSnapshotStatusState(snapshot, sourceId, condition.status);
+      const statusState = getSnapshotStatusState(snapshot, sourceId, condition.status);
       const definition = getStatusDefinition(condition.status, sourceCharacter);
-      return isStatusActive(state, definition) && getStatusPrimaryValue(state, definition) >= threshold;
+      return (
+        isStatusActive(statusState, definition) &&
+        getStatusPrimaryValue(statusState, definition) >= threshold
+      );
     }
     case "self_missing_status": {
-      const state = getSnapshotStatusState(snapshot, sourceId, condition.status);
+      const statusState = getSnapshotStatusState(snapshot, sourceId, condition.status);
       const definition = getStatusDefinition(condition.status, sourceCharacter);
-      return !isStatusActive(state, definition);
+      return !isStatusActive(statusState, definition);
     }
     case "target_has_status": {
       const threshold = condition.min ?? 1;
-      const state = getSnapshotStatusState(snapshot, targetId, condition.status);
+      const statusState = getSnapshotStatusState(snapshot, targetId, condition.status);
       const definition = getStatusDefinition(condition.status, targetCharacter);
-      return isStatusActive(state, definition) && getStatusPrimaryValue(state, definition) >= threshold;
+      return (
+        isStatusActive(statusState, definition) &&
+        getStatusPrimaryValue(statusState, definition) >= threshold
+      );
     }
     case "target_missing_status": {
-      const state = getSnapshotStatusState(snapshot, targetId, condition.status);
+      const statusState = getSnapshotStatusState(snapshot, targetId, condition.status);
       const definition = getStatusDefinition(condition.status, targetCharacter);
-      return !isStatusActive(state, definition);
-    }
+      return !isStatusActive(statusState, definition);
+    }
+    case "hp_below":
+    case "hp_at_least": {
+      const member = getSubject(condition.subject);
+      if (!member) return false;
+      const below = member.hp * 100 < condition.percent * state.rules.maxHp;
+      return condition.kind === "hp_below" ? below : !below;
+    }
+    case "has_shield": {
+      const member = getSubject(condition.subject);
+      return Boolean(member) && (member?.shield ?? 0) >= (condition.min ?? 1);
+    }
+    case "target_opposed":
+    case "target_adjacent": {
+      const source = getMatchCharacter(state, sourceId);
+      const target = getMatchCharacter(state, targetId);
+      const sourceTeam = getTeamForCharacter(state, sourceId);
+      const targetTeam = getTeamForCharacter(state, targetId);
+      if (!source || !target || !sourceTeam || !targetTeam) return false;
+      if (condition.kind === "target_adjacent") return areAdjacent(source.position, target.position);
+      return sourceTeam.id !== targetTeam.id && areOpposed(source.position, target.position);
+    }
+    case "distance": {
+      const distance = getDistance(state, sourceId, targetId);
+      return distance !== null && isWithinRange(distance, condition.min, condition.max);
+    }
+    case "allies_defeated":
+    case "hand_size":
+    case "deck_size":
+    case "energy":
+    case "ultimate": {
+      const team = getTeamForCharacter(state, condition.subject === "target" ? targetId : sourceId);
+      if (!team) return false;
+      const value =
+        condition.kind === "allies_defeated"
+          ? team.characters.filter((member) => member.defeated).length
+          : condition.kind === "hand_size"
+            ? team.hand.length
+            : condition.kind === "deck_size"
+              ? team.deck.length
+              : team[condition.kind];
+      return isWithinRange(value, condition.min, condition.max);
+    }
+    case "zone":
+      return zone === condition.zone;
+    case "and":
+      return condition.conditions.every(isMet);
+    case "or":
+      return condition.conditions.some(isMet);
+    case "not":
+      return !isMet(condition.condition);
     default:
       return true;
   }
 };
 
+export const conditionNeedsTarget = (condition: EffectCondition | undefined): boolean => {
+  if (!condition) return false;
+  switch (condition.kind) {
+    case "target_has_status":
+    case "target_missing_status":
+    case "target_opposed":
+    case "target_adjacent":
+    case "distance":
+      return true;
+    case "and":
+    case "or":
+      return condition.conditions.some(conditionNeedsTarget);
+    case "not":
+      return conditionNeedsTarget(condition.condition);
+    default:
+      return "subject" in condition && condition.subject === "target";
+  }
+};
+
+export const isEffectConditionMet = (
+  state: MatchState,
+  condition: EffectCondition | undefined,
+  sourceId: MatchCharacterId,
+  targetId: MatchCharacterId,
+  characters: Character[],
+  zone?: ZoneName
+) => {
+  const source = getMatchCharacter(state, sourceId);
+  const target = getMatchCharacter(state, targetId);
+  return isConditionMet(
+    condition,
+    snapshotStatuses(state),
+    sourceId,
+    targetId,
+    source ? getCharacterById(characters, source.characterId) : null,
+    target ? getCharacterById(characters, target.characterId) : null,
+    state,
+    zone
+  );
+};
+
 const isStatusRequirementMet = (
   snapshot: StatusSnapshot,
   characterId: MatchCharacterId,
@@ -3673,16 +4308,20 @@ const resolveStructuredEffectList = (
         entry.sourceId,
         entry.targetId,
         sourceCharacter,
-        targetCharacter
+        targetCharacter,
+        state,
+        getEntryZone(state, entry)
       )
     ) {
       return;
     }
 
+    const effectTarget = "target" in effect ? effect.target : undefined;
     const forEachTarget = (
       handler: (targetMember: MatchCharacter, targetDefinition: Character | null) => void
     ) => {
-      targets.forEach((targetId) => {
+      const targetIds = effectTarget ? resolveEffectTargetIds(state, effectTarget, entry) : targets;
+      targetIds.forEach((targetId) => {
         const targetMember = getMatchCharacter(state, targetId);
         if (!targetMember || targetMember.defeated) return;
         const targetDefinition = getCharacterById(characters, targetMember.characterId);
@@ -3693,7 +4332,9 @@ const resolveStructuredEffectList = (
             entry.sourceId,
             targetId,
             sourceCharacter,
-            targetDefinition
+            targetDefinition,
+            state,
+            getEntryZone(state, entry)
           )
         ) {
           return;
@@ -3702,10 +4343,20 @@ const resolveStructuredEffectList = (
       });
     };
 
+    const forEachRecipient = (
+      handler: (recipient: MatchCharacter, recipientDefinition: Character | null) => void
+    ) => {
+      resolveEffectTargetIds(state, effectTarget, entry).forEach((recipientId) => {
+        const recipient = getMatchCharacter(state, recipientId);
+        if (!recipient || recipient.defeated) return;
+        handler(recipient, getCharacterById(characters, recipient.characterId));
+      });
+    };
+
     switch (effect.type) {
       case "deal_damage": {
         if (spendContext.skipDamage) break;
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         const hits =
           effect.hits === undefined ? 1 : resolveEffectScalar(effect.hits, entry.xValue);
         const total = amount * hits;
@@ -3717,58 +4368,66 @@ const resolveStructuredEffectList = (
             total,
             entry.types,
             targetDefinition,
-            entry.mitigationText
+            entry.mitigationText,
+            source.id
           );
           addLog(state, `${source.name} deals ${applied} damage to ${targetMember.name}.`);
         });
         break;
       }
       case "gain_shield": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         if (amount <= 0) break;
-        source.shield += amount;
-        addLog(state, `${source.name} gains ${amount} shield.`);
+        forEachRecipient((recipient) => {
+          recipient.shield += amount;
+          addLog(state, `${recipient.name} gains ${amount} shield.`);
+          addEvent(state, { type: "shield", targetId: recipient.id, amount });
+        });
         break;
       }
       case "heal": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         if (amount <= 0) break;
-        applyHealing(state, source.id, amount, sourceCharacter);
+        forEachRecipient((recipient, recipientDefinition) => {
+          applyHealing(state, recipient.id, amount, recipientDefinition);
+        });
         break;
       }
       case "gain_ultimate": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         if (amount <= 0) break;
         sourceTeam.ultimate += amount;
         addLog(state, `${sourceTeam.name} gains ${amount} ultimate meter.`);
         break;
       }
       case "gain_status": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         if (amount <= 0) break;
-        if (effect.status === "Stagnate") {
-          applyStagnate(state, amount, characters, source.id);
-        } else {
-          applyStatusDelta(source, effect.status, amount, effect.stat, sourceCharacter);
-          addLog(state, `${source.name} gains ${amount} ${effect.status}.`);
-        }
+        forEachRecipient((recipient, recipientDefinition) => {
+          if (effect.status === "Stagnate") {
+            applyStagnate(state, amount, characters, recipient.id);
+          } else {
+            applyStatusDelta(state, recipient, effect.status, amount, effect.stat, recipientDefinition);
+            addLog(state, `${recipient.name} gains ${amount} ${effect.status}.`);
+          }
+        });
         break;
       }
       case "inflict_status": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         if (amount <= 0) break;
         forEachTarget((targetMember, targetDefinition) => {
           if (effect.status === "Stagnate") {
             applyStagnate(state, amount, characters, targetMember.id);
           } else {
-            applyStatusDelta(targetMember, effect.status, amount, effect.stat, targetDefinition);
+            applyStatusDelta(state, targetMember, effect.status, amount, effect.stat, targetDefinition);
             addLog(state, `${targetMember.name} gains ${amount} ${effect.status}.`);
           }
         });
         break;
       }
       case "gain_status_per_spent": {
-        const perSpend = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const perSpend = resolveEffectAmount(effect.amount, power, state, entry, characters);
         if (perSpend <= 0) break;
         const spentByStatus = spendContext.spentResources[effect.resource] ?? 0;
         const spent =
@@ -3779,12 +4438,14 @@ const resolveStructuredEffectList = (
               : 0;
         const total = perSpend * spent;
         if (total <= 0) break;
-        applyStatusDelta(source, effect.status, total, effect.stat, sourceCharacter);
-        addLog(state, `${source.name} gains ${total} ${effect.status}.`);
+        forEachRecipient((recipient, recipientDefinition) => {
+          applyStatusDelta(state, recipient, effect.status, total, effect.stat, recipientDefinition);
+          addLog(state, `${recipient.name} gains ${total} ${effect.status}.`);
+        });
         break;
       }
       case "inflict_status_per_spent": {
-        const perSpend = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const perSpend = resolveEffectAmount(effect.amount, power, state, entry, characters);
         if (perSpend <= 0) break;
         const spentByStatus = spendContext.spentResources[effect.resource] ?? 0;
         const spent =
@@ -3796,38 +4457,34 @@ const resolveStructuredEffectList = (
         const total = perSpend * spent;
         if (total <= 0) break;
         forEachTarget((targetMember, targetDefinition) => {
-          applyStatusDelta(targetMember, effect.status, total, effect.stat, targetDefinition);
+          applyStatusDelta(state, targetMember, effect.status, total, effect.stat, targetDefinition);
           addLog(state, `${targetMember.name} gains ${total} ${effect.status}.`);
         });
         break;
       }
       case "set_status": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
-        const recipientId = resolveEffectTargetCharacterId(effect.target, entry);
-        const recipient = getMatchCharacter(state, recipientId);
-        if (!recipient || recipient.defeated) break;
-        const recipientCharacter = getCharacterById(characters, recipient.characterId);
-        const applied = setStatusValue(recipient, effect.status, amount, effect.stat, recipientCharacter);
-        if (applied === null) break;
-        addLog(state, `${recipient.name} sets ${effect.status} to ${applied}.`);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
+        forEachRecipient((recipient, recipientCharacter) => {
+          const applied = setStatusValue(state, recipient, effect.status, amount, effect.stat, recipientCharacter);
+          if (applied === null) return;
+          addLog(state, `${recipient.name} sets ${effect.status} to ${applied}.`);
+        });
         break;
       }
       case "reduce_status": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
-        const recipientId = resolveEffectTargetCharacterId(effect.target, entry);
-        const recipient = getMatchCharacter(state, recipientId);
-        if (!recipient || recipient.defeated) break;
-        const recipientCharacter = getCharacterById(characters, recipient.characterId);
-        const applied = reduceStatusValue(
-          recipient,
-          effect.status,
-          amount,
-          effect.stat,
-          { minValue: effect.minValue, maxAmount: effect.maxAmount },
-          recipientCharacter
-        );
-        if (applied === null) break;
-        addLog(state, `${recipient.name} reduces ${effect.status} to ${applied}.`);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
+        forEachRecipient((recipient, recipientCharacter) => {
+          const applied = reduceStatusValue(
+            recipient,
+            effect.status,
+            amount,
+            effect.stat,
+            { minValue: effect.minValue, maxAmount: effect.maxAmount },
+            recipientCharacter
+          );
+          if (applied === null) return;
+          addLog(state, `${recipient.name} reduces ${effect.status} to ${applied}.`);
+        });
         break;
       }
       case "spend_status": {
@@ -3835,7 +4492,7 @@ const resolveStructuredEffectList = (
       }
       case "deal_damage_per_spent": {
         if (spendContext.skipDamage) break;
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         const spentByStatus = spendContext.spentResources[effect.status] ?? 0;
         const spent =
           spentByStatus > 0 ? spentByStatus : /ammo/i.test(effect.status) ? spendContext.ammoSpent : 0;
@@ -3848,14 +4505,15 @@ const resolveStructuredEffectList = (
             total,
             entry.types,
             targetDefinition,
-            entry.mitigationText
+            entry.mitigationText,
+            source.id
           );
           addLog(state, `${source.name} deals ${applied} damage to ${targetMember.name}.`);
         });
         break;
       }
       case "draw_cards": {
-        const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
         const count = Math.floor(amount);
         if (count <= 0) break;
         const recipientId = resolveEffectTargetTeamId(state, effect.target, entry);
@@ -3863,12 +4521,13 @@ const resolveStructuredEffectList = (
         break;
       }
       case "create_card": {
-        const amount = resolveEffectAmount(effect.count, power, entry.xValue);
+        const amount = resolveEffectAmount(effect.count, power, state, entry, characters);
         const count = Math.floor(amount);
         if (count <= 0) break;
-        const recipientId = resolveEffectTargetCharacterId(effect.target, entry);
         const destination = getCreateDestination(entry.effectText, effect.cardName);
-        createCardsAtDestination(state, recipientId, effect.cardName, count, characters, destination);
+        resolveEffectTargetIds(state, effect.target, entry).forEach((recipientId) => {
+          createCardsAtDestination(state, recipientId, effect.cardName, count, characters, destination);
+        });
         break;
       }
       case "block_play": {
@@ -3924,6 +4583,66 @@ const resolveStructuredEffectList = (
         grantEntryKeyword(entry, effect.keyword);
         break;
       }
+      case "scry": {
+        const count = resolveEffectScalar(effect.count, entry.xValue);
+        if (count <= 0) break;
+        scryTopCards(state, sourceTeam.id, count, entry.scryDiscardIds, entry.scryOrderIds);
+        break;
+      }
+      case "seek": {
+        const count = resolveEffectScalar(effect.count, entry.xValue);
+        if (count <= 0) break;
+        seekTopCards(
+          state,
+          sourceTeam.id,
+          count,
+          effect.criteria,
+          effect.take ?? 1,
+          characters,
+          entry.seekTakeIds
+        );
+        break;
+      }
+      case "search": {
+        searchDeck(state, sourceTeam.id, effect.criteria, characters, entry.searchPickId);
+        break;
+      }
+      case "push":
+      case "pull": {
+        const amount = resolveEffectScalar(effect.amount, entry.xValue);
+        if (amount <= 0) break;
+        forEachTarget((targetMember) => {
+          movePushPullTarget(state, entry, source, targetMember.id, effect.type, amount, characters);
+        });
+        break;
+      }
+      case "swap": {
+        swapWithAlly(state, source, entry.targetId, characters);
+        break;
+      }
+      case "cleanse":
+      case "dispel":
+      case "purge": {
+        const instruction: PurgeInstruction = {
+          kind: effect.type,
+          amount: effect.amount,
+          status: effect.status,
+          all: !effect.status,
+        };
+        if (effect.target) {
+          resolveEffectTargetIds(state, effect.target, entry).forEach((recipientId) => {
+            const recipient = getMatchCharacter(state, recipientId);
+            if (recipient) applyPurgeInstruction(state, source, recipient, instruction, characters);
+          });
+          break;
+        }
+        forEachTarget((targetMember) => {
+          applyPurgeInstruction(state, source, targetMember, instruction, characters);
+        });
+        break;
+      }
+      case "redirect":
+      case "bounce":
       case "retain":
         break;
       default:
@@ -4007,15 +4726,6 @@ const resolveSpendContext = (
     }
   };
 
-  const resolveSpendAmount = (amount: EffectAmount) => {
-    if (amount.kind === "flat") return amount.value;
-    if (amount.kind === "x") return entry.xValue;
-    if (amount.kind === "x_plus") return entry.xValue + amount.value;
-    if (amount.kind === "x_minus") return Math.max(entry.xValue - amount.value, 0);
-    if (amount.kind === "x_times") return entry.xValue * amount.value;
-    return 0;
-  };
-
   const hasStructuredSpend = hasStructuredEffectType(
     entry.effects,
     timing,
@@ -4033,12 +4743,14 @@ const resolveSpendContext = (
           entry.sourceId,
           entry.targetId,
           sourceCharacter,
-          targetCharacter
+          targetCharacter,
+          state,
+          getEntryZone(state, entry)
         )
       ) {
         return;
       }
-      const amount = resolveSpendAmount(effect.amount);
+      const amount = resolveEffectAmount(effect.amount, 0, state, entry, characters);
       if (amount <= 0) return;
       const allowPartial = Boolean(effect.allowPartial);
       const available = getAvailableSpend(
@@ -4091,6 +4803,7 @@ const resolveSpendContext = (
         );
         if (spent >= spendInflict.spendAmount) {
           applyStatusDelta(
+            state,
             target,
             spendInflict.status,
             spendInflict.statusAmount,
@@ -4138,6 +4851,73 @@ const resolveSpendContext = (
   return context;
 };
 
+const movePushPullTarget = (
+  state: MatchState,
+  entry: StackEntry,
+  source: MatchCharacter,
+  targetId: MatchCharacterId,
+  kind: "push" | "pull",
+  amount: number,
+  characters: Character[]
+) => {
+  const target = getMatchCharacter(state, targetId);
+  if (!target || target.defeated || amount <= 0) return;
+  let direction = 0;
+  if (kind === "push") {
+    if (target.position > source.position) direction = 1;
+    else if (target.position < source.position) direction = -1;
+    else if (entry.pushDirection) direction = entry.pushDirection === "right" ? 1 : -1;
+    else direction = target.position < state.lineSize - 1 ? 1 : -1;
+  } else {
+    if (target.position > source.position) direction = -1;
+    else if (target.position < source.position) direction = 1;
+  }
+  if (direction === 0) return;
+  const moved = moveCharacterBySwapping(state, targetId, direction, amount, characters);
+  if (moved > 0) {
+    const verb = kind === "push" ? "pushes" : "pulls";
+    addLog(state, `${source.name} ${verb} ${target.name} ${moved} space(s).`);
+    addEvent(state, {
+      type: "movement",
+      kind,
+      characterId: target.id,
+      otherId: source.id,
+      spaces: moved,
+    });
+  }
+};
+
+const swapWithAlly = (
+  state: MatchState,
+  source: MatchCharacter,
+  targetId: MatchCharacterId,
+  characters: Character[]
+) => {
+  const target = getMatchCharacter(state, targetId);
+  if (!target || target.defeated) return;
+  const sourceTeam = getTeamForCharacter(state, source.id);
+  const targetTeam = getTeamForCharacter(state, targetId);
+  if (!sourceTeam || !targetTeam || targetTeam.id !== sourceTeam.id) return;
+  if (
+    !canMoveCharacter(state, source.id, characters) ||
+    !canMoveCharacter(state, target.id, characters)
+  ) {
+    addLog(state, "A rooted character cannot be moved or swapped.");
+    return;
+  }
+  const sourcePosition = source.position;
+  source.position = target.position;
+  target.position = sourcePosition;
+  addLog(state, `${source.name} swaps positions with ${target.name}.`);
+  addEvent(state, {
+    type: "movement",
+    kind: "swap",
+    characterId: source.id,
+    otherId: target.id,
+    spaces: Math.abs(source.position - target.position),
+  });
+};
+
 const resolveTextMetaEffects = (
   state: MatchState,
   entry: StackEntry,
@@ -4157,30 +4937,14 @@ const resolveTextMetaEffects = (
     entry.choiceIndex !== undefined && options[entry.choiceIndex]
       ? normalizeText(options[entry.choiceIndex]).toLowerCase()
       : null;
-  const hasReloadEffect = hasStructuredEffectType(
-    entry.effects,
-    timing,
-    entry.choiceIndex,
-    "reload_equipped"
-  );
-  const hasSwitchEquipEffect = hasStructuredEffectType(
-    entry.effects,
-    timing,
-    entry.choiceIndex,
-    "switch_equip"
-  );
-  const hasDrawEffect = hasStructuredEffectType(
-    entry.effects,
-    timing,
-    entry.choiceIndex,
-    "draw_cards"
-  );
-  const hasCreateEffect = hasStructuredEffectType(
-    entry.effects,
-    timing,
-    entry.choiceIndex,
-    "create_card"
-  );
+  const hasStructured = (type: Effect["type"]) =>
+    hasStructuredEffectType(entry.effects, timing, entry.choiceIndex, type);
+  const hasReloadEffect = hasStructured("reload_equipped");
+  const hasSwitchEquipEffect = hasStructured("switch_equip");
+  const hasDrawEffect = hasStructured("draw_cards");
+  const hasCreateEffect = hasStructured("create_card");
+  const hasMovementEffect = hasStructured("push") || hasStructured("pull");
+  const hasSwapEffect = hasStructured("swap");
   const targets = areaTargets.length ? areaTargets : [entry.targetId];
 
   segments.forEach((segment) => {
@@ -4209,7 +4973,7 @@ const resolveTextMetaEffects = (
       drawCards(state, sourceTeam.id, drawCount);
     }
 
-    const scryCount = parseScryLine(line, entry.xValue);
+    const scryCount = hasStructured("scry") ? null : parseScryLine(line, entry.xValue);
     if (scryCount && scryCount > 0) {
       scryTopCards(
         state,
@@ -4220,7 +4984,7 @@ const resolveTextMetaEffects = (
       );
     }
 
-    const seek = parseSeekLine(line, entry.xValue);
+    const seek = hasStructured("seek") ? null : parseSeekLine(line, entry.xValue);
     if (seek && seek.count > 0) {
       seekTopCards(
         state,
@@ -4233,7 +4997,7 @@ const resolveTextMetaEffects = (
       );
     }
 
-    const searchCriteria = parseSearchLine(line);
+    const searchCriteria = hasStructured("search") ? null : parseSearchLine(line);
     if (searchCriteria) {
       searchDeck(state, sourceTeam.id, searchCriteria, characters, entry.searchPickId);
     }
@@ -4247,52 +5011,15 @@ const resolveTextMetaEffects = (
       switchEquipment(state, entry.sourceId, switchEquip, characters);
     }
 
-    const pushPull = parsePushPullLine(line, entry.xValue);
+    const pushPull = hasMovementEffect ? null : parsePushPullLine(line, entry.xValue);
     if (pushPull && pushPull.amount > 0) {
       targets.forEach((targetId) => {
-        const target = getMatchCharacter(state, targetId);
-        if (!target || target.defeated) return;
-        let direction = 0;
-      if (pushPull.kind === "push") {
-        if (target.position > source.position) direction = 1;
-        else if (target.position < source.position) direction = -1;
-        else if (entry.pushDirection) direction = entry.pushDirection === "right" ? 1 : -1;
-        else direction = target.position < state.lineSize - 1 ? 1 : -1;
-      } else {
-        if (target.position > source.position) direction = -1;
-        else if (target.position < source.position) direction = 1;
-      }
-      if (direction === 0) return;
-        const moved = moveCharacterBySwapping(
-          state,
-          targetId,
-          direction,
-          pushPull.amount,
-          characters
-        );
-        if (moved > 0) {
-          const verb = pushPull.kind === "push" ? "pushes" : "pulls";
-          addLog(state, `${source.name} ${verb} ${target.name} ${moved} space(s).`);
-        }
+        movePushPullTarget(state, entry, source, targetId, pushPull.kind, pushPull.amount, characters);
       });
     }
 
-    if (isSwapLine(line)) {
-      const target = getMatchCharacter(state, entry.targetId);
-      if (!target || target.defeated) return;
-      const targetTeam = getTeamForCharacter(state, entry.targetId);
-      if (!targetTeam || targetTeam.id !== sourceTeam.id) return;
-      if (
-        !canMoveCharacter(state, source.id, characters) ||
-        !canMoveCharacter(state, target.id, characters)
-      ) {
-        addLog(state, "A rooted character cannot be moved or swapped.");
-        return;
-      }
-      const sourcePosition = source.position;
-      source.position = target.position;
-      target.position = sourcePosition;
-      addLog(state, `${source.name} swaps positions with ${target.name}.`);
+    if (!hasSwapEffect && isSwapLine(line)) {
+      swapWithAlly(state, source, entry.targetId, characters);
     }
 
     const xConditionalMatch = normalized.match(
@@ -4307,7 +5034,7 @@ const resolveTextMetaEffects = (
           const target = getMatchCharacter(state, targetId);
           if (!target || target.defeated) return;
           const targetCharacter = getCharacterById(characters, target.characterId);
-          applyStatusDelta(target, status, amount, undefined, targetCharacter);
+          applyStatusDelta(state, target, status, amount, undefined, targetCharacter);
           addLog(state, `${target.name} gains ${amount} ${status}.`);
         });
       }
@@ -4382,7 +5109,8 @@ const resolveTextEffectsForTiming = (
             totalDamage,
             entry.types,
             targetDefinition,
-            entry.mitigationText
+            entry.mitigationText,
+            source.id
           );
           addLog(
             state,
@@ -4396,6 +5124,7 @@ const resolveTextEffectsForTiming = (
     if (shield !== null && shield > 0) {
       source.shield += shield;
       addLog(state, `${source.name} gains ${shield} shield.`);
+      addEvent(state, { type: "shield", targetId: source.id, amount: shield });
     }
 
     const heal = parseHealFromLine(line, power, entry.xValue);
@@ -4418,6 +5147,7 @@ const resolveTextEffectsForTiming = (
             applyStagnate(state, statusChange.amount, characters, targetMember.id);
           } else {
             applyStatusDelta(
+              state,
               targetMember,
               statusChange.status,
               statusChange.amount,
@@ -4436,6 +5166,7 @@ const resolveTextEffectsForTiming = (
         applyStagnate(state, statusChange.amount, characters, source.id);
       } else {
         applyStatusDelta(
+          state,
           source,
           statusChange.status,
           statusChange.amount,
@@ -4501,7 +5232,7 @@ const resolveEffectsForTiming = (
     );
   }
 
-  pruneStatuses(source, sourceCharacter);
+  pruneStatuses(state, source, sourceCharacter);
   const prunedTargets = new Set(areaTargets);
   prunedTargets.add(entry.targetId);
   prunedTargets.delete(source.id);
@@ -4509,7 +5240,7 @@ const resolveEffectsForTiming = (
     const targetMember = getMatchCharacter(state, targetId);
     if (!targetMember) return;
     const targetDefinition = getCharacterById(characters, targetMember.characterId);
-    pruneStatuses(targetMember, targetDefinition);
+    pruneStatuses(state, targetMember, targetDefinition);
   });
 };
 
@@ -4541,12 +5272,14 @@ const estimateDamageForTiming = (
           entry.sourceId,
           entry.targetId,
           sourceCharacter,
-          targetCharacter
+          targetCharacter,
+          state,
+          getEntryZone(state, entry)
         )
       ) {
         return;
       }
-      const amount = resolveEffectAmount(effect.amount, power, entry.xValue);
+      const amount = resolveEffectAmount(effect.amount, power, state, entry, characters);
       if (effect.type === "deal_damage") {
         const hits =
           effect.hits === undefined ? 1 : resolveEffectScalar(effect.hits, entry.xValue);
@@ -4578,6 +5311,25 @@ const estimateDamageForTiming = (
   }, 0);
 };
 
+const addCardEvent = (
+  state: MatchState,
+  type: "card_played" | "card_used" | "card_cancelled" | "card_negated",
+  entry: StackEntry,
+  zone: ZoneName,
+  reason?: string
+) => {
+  addEvent(state, {
+    type,
+    playerId: entry.playedBy,
+    sourceId: entry.sourceId,
+    targetId: entry.targetId,
+    entryId: entry.id,
+    cardName: entry.cardName,
+    zone,
+    ...(reason ? { reason } : {}),
+  });
+};
+
 const resolveUse = (
   state: MatchState,
   entry: StackEntry,
@@ -4587,7 +5339,7 @@ const resolveUse = (
   options?: { cancelled?: boolean; powerOverride?: number; targetOverrideId?: MatchCharacterId }
 ) => {
   const source = getMatchCharacter(state, entry.sourceId);
-  if (!source) return;
+  if (!source || source.defeated) return;
   entry.redirected = false;
   const originalTargetId = entry.targetId;
   if (options?.targetOverrideId) {
@@ -4613,15 +5365,21 @@ const resolveUse = (
       entry.cancelledBeforeUse = true;
       cancelled = true;
       addLog(state, `${source.name}'s ${entry.cardName} is cancelled by Stagger.`);
+      addCardEvent(state, "card_cancelled", entry, zoneName, "Stagger");
     }
   }
 
   if (entry.negated) {
     addLog(state, `${source.name}'s ${entry.cardName} is negated.`);
+    addCardEvent(state, "card_negated", entry, zoneName);
     entry.negated = false;
     return;
   }
 
+  if (options?.cancelled) {
+    addCardEvent(state, "card_cancelled", entry, zoneName, "Clash");
+  }
+
   if (!cancelled) {
     if (!entry.redirected) {
       const redirectCandidates = getRedirectCandidates(state, entry, characters);
@@ -4660,6 +5418,7 @@ const resolveUse = (
     }
 
     addLog(state, `${source.name} uses ${entry.cardName}.`);
+    addCardEvent(state, "card_used", entry, zoneName);
     resolveEffectsForTiming(state, entry, power, "before_use", isHit, characters);
     resolveEffectsForTiming(state, entry, power, "on_use", isHit, characters);
     if (isHit) {
@@ -4684,14 +5443,7 @@ const resolveUse = (
   resolveEffectsForTiming(state, entry, power, "always", isHit, characters);
 
   if (!cancelled && isHit && getActionType(entry.types) === "attack") {
-    const sourceCharacter = getCharacterById(characters, source.characterId);
-    const bankai = getActiveStatusState(source, "Bankai: Tensa Zangetsu", sourceCharacter);
-    const flags = source.turnFlags;
-    if (bankai && !flags.bankaiHitUsed) {
-      applyStatusDelta(source, "Reiatsu", 1, undefined, sourceCharacter);
-      flags.bankaiHitUsed = true;
-      addLog(state, `${source.name} gains 1 Reiatsu from Bankai.`);
-    }
+    runActiveStatusTriggers(state, "attack_hit", source, characters, { entry });
   }
 
   if (entry.targetId !== originalTargetId) {
@@ -4776,6 +5528,20 @@ const finalizeEntryCard = (state: MatchState, entry: StackEntry, characters: Cha
   }
 };
 
+const settleZoneEntries = (
+  state: MatchState,
+  zone: ZoneState,
+  resolved: StackEntry[],
+  remaining: StackEntry[],
+  characters: Character[]
+) => {
+  resolved.forEach((entry) => {
+    if (zone.cards.includes(entry)) finalizeEntryCard(state, entry, characters);
+  });
+  zone.cards = zone.cards.filter((entry) => !resolved.includes(entry));
+  return remaining.reduce((last, entry) => Math.max(last, zone.cards.indexOf(entry)), -1);
+};
+
 const hasPlayableAfterUseResponse = (
   state: MatchState,
   characters: Character[],
@@ -4850,7 +5616,7 @@ const resolveZone = (
   state: MatchState,
   zoneName: ZoneName,
   characters: Character[],
-  context?: { resolvedBy?: PlayerId }
+  context?: { resolvedBy?: PlayerId; skipReactionWindows?: boolean }
 ) => {
   const zone = state.zones[zoneName];
   if (!zone.cards.length) return;
@@ -4861,6 +5627,8 @@ const resolveZone = (
     steps: [],
     logStart: state.log.length,
     logEnd: state.log.length,
+    eventStart: state.events.length,
+    eventEnd: state.events.length,
   };
   const snapshotEntry = (entry: StackEntry): StackEntrySnapshot => ({
     id: entry.id,
@@ -4879,10 +5647,13 @@ const resolveZone = (
   addLog(state, `${zoneLabel(zoneName)} Zone resolves.`);
 
   const resolvedBy = context?.resolvedBy;
+  const shouldPause = () =>
+    !context?.skipReactionWindows && pauseForReactionWindow(state, zoneName, characters, resolvedBy);
   let index = zone.cards.length - 1;
   while (index >= 0) {
     const right = zone.cards[index];
     const leftIndex = index - 1;
+    const lower = zone.cards.slice(0, Math.max(leftIndex, 0));
 
     if (leftIndex < 0) {
       const rightType = getActionType(right.types);
@@ -4895,10 +5666,8 @@ const resolveZone = (
         outcome: "single",
       });
       resolveUse(state, right, rightType === "attack", characters, zoneName, { powerOverride: rightPower });
-      finalizeEntryCard(state, right, characters);
-      zone.cards.splice(index, 1);
-      index -= 1;
-      if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+      index = settleZoneEntries(state, zone, [right], lower, characters);
+      if (shouldPause()) {
         return;
       }
       continue;
@@ -4916,10 +5685,8 @@ const resolveZone = (
         outcome: "same_team",
       });
       resolveUse(state, right, rightType === "attack", characters, zoneName, { powerOverride: rightPower });
-      finalizeEntryCard(state, right, characters);
-      zone.cards.splice(index, 1);
-      index = leftIndex;
-      if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+      index = settleZoneEntries(state, zone, [right], [...lower, left], characters);
+      if (shouldPause()) {
         return;
       }
       continue;
@@ -4976,11 +5743,8 @@ const resolveZone = (
         resolveEffectsForTiming(state, left, leftPower, "after_clash", false, characters);
         resolveUse(state, right, false, characters, zoneName, { cancelled: true, powerOverride: rightPower });
         resolveUse(state, left, false, characters, zoneName, { cancelled: true, powerOverride: leftPower });
-        finalizeEntryCard(state, right, characters);
-        finalizeEntryCard(state, left, characters);
-        zone.cards.splice(leftIndex, 2);
-        index = leftIndex - 1;
-        if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+        index = settleZoneEntries(state, zone, [right, left], lower, characters);
+        if (shouldPause()) {
           return;
         }
       } else if (rightPower > leftPower) {
@@ -4988,10 +5752,8 @@ const resolveZone = (
         resolveEffectsForTiming(state, right, rightPower, "after_clash", false, characters);
         resolveEffectsForTiming(state, left, leftPower, "after_clash", false, characters);
         resolveUse(state, left, false, characters, zoneName, { cancelled: true, powerOverride: leftPower });
-        finalizeEntryCard(state, left, characters);
-        zone.cards.splice(leftIndex, 1);
-        index = leftIndex;
-        if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+        index = settleZoneEntries(state, zone, [left], [...lower, right], characters);
+        if (shouldPause()) {
           return;
         }
       } else {
@@ -4999,10 +5761,8 @@ const resolveZone = (
         resolveEffectsForTiming(state, right, rightPower, "after_clash", false, characters);
         resolveEffectsForTiming(state, left, leftPower, "after_clash", false, characters);
         resolveUse(state, right, false, characters, zoneName, { cancelled: true, powerOverride: rightPower });
-        finalizeEntryCard(state, right, characters);
-        zone.cards.splice(index, 1);
-        index = leftIndex;
-        if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+        index = settleZoneEntries(state, zone, [right], [...lower, left], characters);
+        if (shouldPause()) {
           return;
         }
       }
@@ -5094,24 +5854,15 @@ const resolveZone = (
       const removeRight = right === defense ? !keepDefense : !keepAttack;
 
       if (removeLeft && removeRight) {
-        finalizeEntryCard(state, left, characters);
-        finalizeEntryCard(state, right, characters);
-        zone.cards.splice(leftIndex, 2);
-        index = leftIndex - 1;
+        index = settleZoneEntries(state, zone, [left, right], lower, characters);
       } else if (removeLeft && !removeRight) {
-        finalizeEntryCard(state, left, characters);
-        zone.cards.splice(leftIndex, 1);
-        index = leftIndex;
+        index = settleZoneEntries(state, zone, [left], [...lower, right], characters);
       } else if (!removeLeft && removeRight) {
-        finalizeEntryCard(state, right, characters);
-        zone.cards.splice(index, 1);
-        index = leftIndex;
+        index = settleZoneEntries(state, zone, [right], [...lower, left], characters);
       } else {
-        finalizeEntryCard(state, left, characters);
-        zone.cards.splice(leftIndex, 1);
-        index = leftIndex;
+        index = settleZoneEntries(state, zone, [left], [...lower, right], characters);
       }
-      if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+      if (shouldPause()) {
         return;
       }
       continue;
@@ -5136,24 +5887,15 @@ const resolveZone = (
       const removeRight = !rightReuse;
 
       if (removeLeft && removeRight) {
-        finalizeEntryCard(state, left, characters);
-        finalizeEntryCard(state, right, characters);
-        zone.cards.splice(leftIndex, 2);
-        index = leftIndex - 1;
+        index = settleZoneEntries(state, zone, [left, right], lower, characters);
       } else if (removeLeft && !removeRight) {
-        finalizeEntryCard(state, left, characters);
-        zone.cards.splice(leftIndex, 1);
-        index = leftIndex;
+        index = settleZoneEntries(state, zone, [left], [...lower, right], characters);
       } else if (!removeLeft && removeRight) {
-        finalizeEntryCard(state, right, characters);
-        zone.cards.splice(index, 1);
-        index = leftIndex;
+        index = settleZoneEntries(state, zone, [right], [...lower, left], characters);
       } else {
-        finalizeEntryCard(state, left, characters);
-        zone.cards.splice(leftIndex, 1);
-        index = leftIndex;
+        index = settleZoneEntries(state, zone, [left], [...lower, right], characters);
       }
-      if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+      if (shouldPause()) {
         return;
       }
       continue;
@@ -5170,11 +5912,8 @@ const resolveZone = (
     resolveEffectsForTiming(state, left, leftPower, "after_clash", false, characters);
     resolveUse(state, right, rightType === "attack", characters, zoneName, { powerOverride: rightPower });
     resolveUse(state, left, leftType === "attack", characters, zoneName, { powerOverride: leftPower });
-    finalizeEntryCard(state, right, characters);
-    finalizeEntryCard(state, left, characters);
-    zone.cards.splice(leftIndex, 2);
-    index = leftIndex - 1;
-    if (pauseForReactionWindow(state, zoneName, characters, resolvedBy)) {
+    index = settleZoneEntries(state, zone, [right, left], lower, characters);
+    if (shouldPause()) {
       return;
     }
   }
@@ -5184,6 +5923,7 @@ const resolveZone = (
   state.afterUseWindow = undefined;
   state.counterWindow = undefined;
   resolution.logEnd = state.log.length;
+  resolution.eventEnd = state.events.length;
   state.lastResolution = resolution;
 };
 
@@ -5200,7 +5940,8 @@ const resolveCardTransforms = (
   state: MatchState,
   sourceId: MatchCharacterId,
   targetId: MatchCharacterId,
-  characters: Character[]
+  characters: Character[],
+  zone?: ZoneName
 ) => {
   if (!card.transforms?.length) return card;
   const source = getMatchCharacter(state, sourceId);
@@ -5212,7 +5953,18 @@ const resolveCardTransforms = (
   let resolved: Card | null = null;
 
   for (const transform of card.transforms) {
-    if (!isConditionMet(transform.condition, snapshot, sourceId, targetId, sourceCharacter, targetCharacter)) {
+    if (
+      !isConditionMet(
+        transform.condition,
+        snapshot,
+        sourceId,
+        targetId,
+        sourceCharacter,
+        targetCharacter,
+        state,
+        zone
+      )
+    ) {
       continue;
     }
     const replacement = findCard(characters, source.characterId, transform.cardSlot);
@@ -5296,8 +6048,17 @@ export const createMatchState = (
   if (!first || !second) {
     throw new Error("Two players required.");
   }
-  if (first.characterIds.length !== defaultLineSize || second.characterIds.length !== defaultLineSize) {
-    throw new Error("Each player must select three characters.");
+  const { rules, error: rulesError } = resolveMatchRules(options.rules);
+  if (rulesError) {
+    throw new Error(rulesError);
+  }
+  if (
+    first.characterIds.length !== rules.teamSize ||
+    second.characterIds.length !== rules.teamSize
+  ) {
+    throw new Error(
+      `Each player must select ${rules.teamSize} character${rules.teamSize === 1 ? "" : "s"}.`
+    );
   }
   if (
     new Set(first.characterIds).size !== first.characterIds.length ||
@@ -5316,7 +6077,15 @@ export const createMatchState = (
 
   const rng = createRngState(options.seed);
   const transcript = options.enableTranscript
-    ? createMatchTranscript(rng.seed, players)
+    ? createMatchTranscript(
+        rng.seed,
+        players,
+        rules,
+        getDataFingerprint(
+          characters,
+          players.flatMap((player) => player.characterIds)
+        )
+      )
     : undefined;
 
   const state: MatchState = {
@@ -5332,15 +6101,16 @@ export const createMatchState = (
       normal: { zone: "normal", cards: [], passCount: 0 },
       slow: { zone: "slow", cards: [], passCount: 0 },
     },
-    lineSize: defaultLineSize,
+    lineSize: rules.teamSize,
+    rules,
     movementPassCount: 0,
     players: {
       p1: {
         id: "p1",
         name: first.name,
-        energy: 5,
+        energy: rules.energyPerTurn,
         ultimate: 0,
-        movementFreeSwapsRemaining: 1,
+        movementFreeSwapsRemaining: rules.freeSwaps,
         deck: [],
         hand: [],
         discard: [],
@@ -5353,26 +6123,22 @@ export const createMatchState = (
             id: buildMatchCharacterId("p1", characterId),
             characterId,
             name: displayName,
-            hp: 100,
+            hp: rules.startingHp,
             shield: 0,
             statuses: {},
             resourceMax: {},
             position: index,
             defeated: false,
-            turnFlags: {
-              bankaiHitUsed: false,
-              kyuubiCloneUsed: false,
-              gamabuntaUsed: false,
-            },
+            turnTriggers: [],
           };
         }),
       },
       p2: {
         id: "p2",
         name: second.name,
-        energy: 5,
+        energy: rules.energyPerTurn,
         ultimate: 0,
-        movementFreeSwapsRemaining: 1,
+        movementFreeSwapsRemaining: rules.freeSwaps,
         deck: [],
         hand: [],
         discard: [],
@@ -5385,23 +6151,20 @@ export const createMatchState = (
             id: buildMatchCharacterId("p2", characterId),
             characterId,
             name: displayName,
-            hp: 100,
+            hp: rules.startingHp,
             shield: 0,
             statuses: {},
             resourceMax: {},
             position: index,
             defeated: false,
-            turnFlags: {
-              bankaiHitUsed: false,
-              kyuubiCloneUsed: false,
-              gamabuntaUsed: false,
-            },
+            turnTriggers: [],
           };
         }),
       },
     },
     playLocks: { p1: [], p2: [] },
     log: [],
+    events: [],
     lastResolution: null,
     pendingTurnStartGains: {},
     nextCardInstanceId: 1,
@@ -5413,11 +6176,11 @@ export const createMatchState = (
   buildStartingZones(state, "p2", characters);
   state.players.p1.characters.forEach((member) => {
     const character = getCharacterById(characters, member.characterId);
-    if (character) applyStartingStatuses(member, character);
+    if (character) applyStartingStatuses(state, member, character);
   });
   state.players.p2.characters.forEach((member) => {
     const character = getCharacterById(characters, member.characterId);
-    if (character) applyStartingStatuses(member, character);
+    if (character) applyStartingStatuses(state, member, character);
   });
 
   addLog(state, `Turn 1 begins. ${state.players.p1.name} has initiative.`);
@@ -5427,12 +6190,275 @@ export const createMatchState = (
   return state;
 };
 
-export const applyAction = (
-  state: MatchState,
-  action: Action,
+type PlayCardAction = Extract<Action, { type: "play_card" }>;
+
+type PlayCardValidation = {
+  card: Card;
+  resolvedCard: Card;
+  cardInstance: CardInstance | null;
+  cardInstanceIndex: number;
+  sourceMember: MatchCharacter;
+  targetId: MatchCharacterId;
+  xValue: number;
+  adjustedTotals: { energy: number; ultimate: number };
+  effectiveSpeed: string;
+  actionType: ActionType;
+};
+
+const validatePlayCard = (
+  next: MatchState,
+  action: PlayCardAction,
+  pendingWindow: PendingWindowContext | null,
   characters: Character[]
-): { state: MatchState; error?: string } => {
-  if (state.phase === "finished") return { state };
+): { error: string } | { error?: undefined; play: PlayCardValidation } => {
+  const fail = (error: string) => ({ error });
+  if (next.phase === "movement") {
+    return fail("Movement Round in progress.");
+  }
+  const team = next.players[action.playerId];
+  let card: Card | null = null;
+  let cardInstance: CardInstance | null = null;
+  let cardInstanceIndex = -1;
+  let sourceMember: MatchCharacter | null = null;
+
+  if (action.cardInstanceId) {
+    cardInstanceIndex = team.hand.findIndex(
+      (instance) => instance.id === action.cardInstanceId
+    );
+    if (cardInstanceIndex === -1) {
+      return fail("Card not in hand.");
+    }
+    cardInstance = team.hand[cardInstanceIndex] ?? null;
+    if (!cardInstance) return fail("Card not found.");
+    sourceMember = getMatchCharacter(next, cardInstance.ownerId);
+    if (!sourceMember) return fail("Card source not found.");
+    card = findCard(characters, cardInstance.characterId, cardInstance.cardSlot);
+  } else if (action.cardSlot) {
+    if (action.sourceId) {
+      sourceMember = getMatchCharacter(next, action.sourceId);
+      const ownerTeam = sourceMember ? getTeamForCharacter(next, sourceMember.id) : null;
+      if (!sourceMember || ownerTeam?.id !== action.playerId) {
+        return fail("Card source not found.");
+      }
+    } else {
+      const matches = team.characters.filter((member) =>
+        Boolean(findCard(characters, member.characterId, action.cardSlot!))
+      );
+      if (matches.length > 1) {
+        return fail("Card slot is ambiguous. Specify the source character.");
+      }
+      sourceMember = matches[0] ?? null;
+    }
+    if (!sourceMember) return fail("Card source not found.");
+    card = findCard(characters, sourceMember.characterId, action.cardSlot);
+  }
+
+  if (!card || !sourceMember) return fail("Card not found.");
+  if (sourceMember.defeated) {
+    return fail("That character is defeated.");
+  }
+  if (hasCombatRoundLock(next, action.playerId)) {
+    return fail("Cannot play cards this combat round.");
+  }
+  if (!action.cardInstanceId && !isUltimateCard(card)) {
+    return fail("Card must be played from hand.");
+  }
+
+  const initialTargetId = action.targetId ?? pickTargetId(card, sourceMember.id, next, characters);
+  const resolvedCard = resolveCardTransforms(
+    card,
+    next,
+    sourceMember.id,
+    initialTargetId,
+    characters,
+    action.zone
+  );
+
+  const counterWindow =
+    next.counterWindow && next.counterWindow.validForAction === next.actionId
+      ? next.counterWindow
+      : null;
+  const isOutOfTurn = action.playerId !== next.activePlayerId;
+  const afterUseAllowed = pendingWindow?.type === "after_use"
+    ? canPlayAfterUse(next, resolvedCard, sourceMember.id, characters, next.actionId)
+    : !pendingWindow
+      ? canPlayAfterUse(next, resolvedCard, sourceMember.id, characters, next.actionId)
+      : false;
+  const counterAllowed = pendingWindow?.type === "counter"
+    ? Boolean(counterWindow && counterWindow.by === action.playerId)
+    : Boolean(isOutOfTurn && counterWindow && counterWindow.by === action.playerId);
+  const outOfTurnAllowed = isOutOfTurn && (counterAllowed || afterUseAllowed);
+  if (!pendingWindow && action.playerId !== next.activePlayerId && !outOfTurnAllowed) {
+    return fail("Not your turn.");
+  }
+  if (pendingWindow?.type === "after_use" && !afterUseAllowed) {
+    return fail("Card must be played as Follow-Up or Assist Attack.");
+  }
+  if (pendingWindow?.type === "counter" && !counterAllowed) {
+    return fail("Counter window only.");
+  }
+
+  const sourceCharacter = getCharacterById(characters, sourceMember.characterId);
+  if (!sourceCharacter) {
+    return fail("Character not found.");
+  }
+
+  if (getActiveStatusState(sourceMember, "Deflate", sourceCharacter)) {
+    return fail("This character is Deflated and cannot play cards.");
+  }
+
+  const typeSet = new Set(resolvedCard.types.map(normalizeTag));
+  const actionType = getActionType(resolvedCard.types);
+  if (getActiveStatusState(sourceMember, "Disarm", sourceCharacter) && typeSet.has("physical")) {
+    return fail("Disarm prevents playing Physical cards.");
+  }
+  if (getActiveStatusState(sourceMember, "Silence", sourceCharacter) && typeSet.has("magical")) {
+    return fail("Silence prevents playing Magical cards.");
+  }
+  if (
+    getActiveStatusState(sourceMember, "Seal", sourceCharacter) &&
+    (actionType === "special" || typeSet.has("special"))
+  ) {
+    return fail("Seal prevents playing Special cards.");
+  }
+
+  const choiceEffects =
+    resolvedCard.effects?.filter((effect) => effect.type === "choose") ?? [];
+  const textChoices = choiceEffects.length ? [] : getTextChoiceOptions(resolvedCard.effect);
+  if (choiceEffects.length) {
+    const choiceIndex = action.choiceIndex;
+    if (choiceIndex === undefined || !Number.isInteger(choiceIndex)) {
+      return fail("Choice required.");
+    }
+    const invalidChoice = choiceEffects.some(
+      (effect) => choiceIndex < 0 || choiceIndex >= effect.options.length
+    );
+    if (invalidChoice) {
+      return fail("Invalid choice.");
+    }
+  } else if (textChoices.length) {
+    const choiceIndex = action.choiceIndex;
+    if (choiceIndex === undefined || !Number.isInteger(choiceIndex)) {
+      return fail("Choice required.");
+    }
+    if (choiceIndex < 0 || choiceIndex >= textChoices.length) {
+      return fail("Invalid choice.");
+    }
+  }
+
+  const xRange = getXRangeFromText(resolvedCard.effect);
+  const fixedX = getFixedXFromText(resolvedCard.effect);
+  if (xRange) {
+    if (action.xValue === undefined || !Number.isInteger(action.xValue)) {
+      return fail("X value required.");
+    }
+    if (action.xValue < xRange.min || action.xValue > xRange.max) {
+      return fail("X value out of range.");
+    }
+  } else if (action.xValue !== undefined && action.xValue < 0) {
+    return fail("X value out of range.");
+  }
+
+  let xValue = action.xValue ?? 0;
+  if (fixedX !== null) {
+    xValue = fixedX;
+  } else if (xRange) {
+    xValue = action.xValue ?? 0;
+  }
+
+  const legalTargets = getLegalTargets(resolvedCard, sourceMember.id, next, characters);
+  if (!legalTargets.length) {
+    return fail("No legal targets.");
+  }
+  const forcedCounterTarget = counterAllowed ? counterWindow?.targetId : null;
+  if (forcedCounterTarget && !legalTargets.includes(forcedCounterTarget)) {
+    return fail("Counter must target the attacker.");
+  }
+  const targetId = forcedCounterTarget
+    ?? (action.targetId && legalTargets.includes(action.targetId)
+      ? action.targetId
+      : legalTargets.includes(initialTargetId)
+        ? initialTargetId
+        : legalTargets[0]);
+  if (!legalTargets.includes(targetId)) {
+    return fail("Illegal target.");
+  }
+
+  const restrictionError = getUseRestrictionError(
+    resolvedCard,
+    next,
+    sourceMember.id,
+    targetId,
+    characters
+  );
+  if (restrictionError) {
+    return fail(restrictionError);
+  }
+
+  const cost = parseCost(resolvedCard.cost);
+  if (cost.variable && action.xValue === undefined && fixedX === null) {
+    return fail("X value required.");
+  }
+  if (cost.variable && action.xValue !== undefined && !Number.isInteger(action.xValue)) {
+    return fail("X value must be an integer.");
+  }
+  const isAfterUse =
+    next.afterUseWindow &&
+    next.afterUseWindow.validForAction === next.actionId &&
+    pendingWindow?.type !== "counter";
+  const isFollowUpPlay =
+    Boolean(isAfterUse) && next.afterUseWindow?.lastUsedCharacterId === sourceMember.id;
+  const followUpAdjustment = isFollowUpPlay
+    ? getFollowUpCostAdjustment(resolvedCard.effect)
+    : 0;
+  const adjustedTotals = getAdjustedCostTotals(
+    sourceMember,
+    sourceCharacter,
+    cost,
+    xValue,
+    cardInstance,
+    followUpAdjustment
+  );
+  if (team.energy < adjustedTotals.energy || team.ultimate < adjustedTotals.ultimate) {
+    return fail("Insufficient resources.");
+  }
+
+  const effectiveSpeed = getEffectiveSpeed(resolvedCard.speed, sourceMember, sourceCharacter);
+  const legalZones = getLegalZonesForSpeed(effectiveSpeed);
+  if (!legalZones.includes(action.zone)) {
+    return fail("Illegal zone for card speed.");
+  }
+
+  if (next.activeZone) {
+    if (action.zone !== next.activeZone && !isZoneFaster(action.zone, next.activeZone)) {
+      return fail("Cannot play in a slower zone than the active zone.");
+    }
+  }
+
+  const reactionZone = pendingWindow?.zone
+    ?? (counterAllowed ? counterWindow?.zone : null)
+    ?? (afterUseAllowed ? next.afterUseWindow?.zone : null);
+  if (reactionZone && action.zone !== reactionZone) {
+    return fail("Must play in the same zone as the triggering card.");
+  }
+
+  return {
+    play: {
+      card,
+      resolvedCard,
+      cardInstance,
+      cardInstanceIndex,
+      sourceMember,
+      targetId,
+      xValue,
+      adjustedTotals,
+      effectiveSpeed,
+      actionType,
+    },
+  };
+};
+
+const beginAction = (state: MatchState) => {
   const next = cloneState(state);
   next.lastResolution = null;
   next.actionId = (next.actionId ?? 0) + 1;
@@ -5442,6 +6468,17 @@ export const applyAction = (
   if (next.afterUseWindow && next.afterUseWindow.validForAction < next.actionId) {
     next.afterUseWindow = undefined;
   }
+  return next;
+};
+
+export const applyAction = (
+  state: MatchState,
+  action: Action,
+  characters: Character[]
+): { state: MatchState; error?: string } => {
+  if (state.phase === "finished") return { state };
+  if (state.hidden) return { state, error: "Cannot apply actions to a projected match state." };
+  const next = beginAction(state);
 
   const finalize = (error?: string) => {
     recordTranscriptEntry(next, action, error);
@@ -5486,234 +6523,23 @@ export const applyAction = (
   }
 
   if (action.type === "play_card") {
-    if (next.phase === "movement") {
-      return finalize("Movement Round in progress.");
+    const validation = validatePlayCard(next, action, pendingWindow, characters);
+    if (validation.error !== undefined) {
+      return finalize(validation.error);
     }
-    const team = next.players[action.playerId];
-    let card: Card | null = null;
-    let cardInstance: CardInstance | null = null;
-    let cardInstanceIndex = -1;
-    let sourceMember: MatchCharacter | null = null;
-
-    if (action.cardInstanceId) {
-      cardInstanceIndex = team.hand.findIndex(
-        (instance) => instance.id === action.cardInstanceId
-      );
-      if (cardInstanceIndex === -1) {
-        return finalize("Card not in hand.");
-      }
-      cardInstance = team.hand[cardInstanceIndex] ?? null;
-      if (!cardInstance) return finalize("Card not found.");
-      sourceMember = getMatchCharacter(next, cardInstance.ownerId);
-      if (!sourceMember) return finalize("Card source not found.");
-      card = findCard(characters, cardInstance.characterId, cardInstance.cardSlot);
-    } else if (action.cardSlot) {
-      if (action.sourceId) {
-        sourceMember = getMatchCharacter(next, action.sourceId);
-        const ownerTeam = sourceMember ? getTeamForCharacter(next, sourceMember.id) : null;
-        if (!sourceMember || ownerTeam?.id !== action.playerId) {
-          return finalize("Card source not found.");
-        }
-      } else {
-        const matches = team.characters.filter((member) =>
-          Boolean(findCard(characters, member.characterId, action.cardSlot!))
-        );
-        if (matches.length > 1) {
-          return finalize("Card slot is ambiguous. Specify the source character.");
-        }
-        sourceMember = matches[0] ?? null;
-      }
-      if (!sourceMember) return finalize("Card source not found.");
-      card = findCard(characters, sourceMember.characterId, action.cardSlot);
-    }
-
-    if (!card || !sourceMember) return finalize("Card not found.");
-    if (sourceMember.defeated) {
-      return finalize("That character is defeated.");
-    }
-    if (hasCombatRoundLock(next, action.playerId)) {
-      return finalize("Cannot play cards this combat round.");
-    }
-    if (!action.cardInstanceId && !isUltimateCard(card)) {
-      return finalize("Card must be played from hand.");
-    }
-
-    const initialTargetId = action.targetId ?? pickTargetId(card, sourceMember.id, next, characters);
-    const resolvedCard = resolveCardTransforms(
+    const {
       card,
-      next,
-      sourceMember.id,
-      initialTargetId,
-      characters
-    );
-
-    const counterWindow =
-      next.counterWindow && next.counterWindow.validForAction === next.actionId
-        ? next.counterWindow
-        : null;
-    const isOutOfTurn = action.playerId !== next.activePlayerId;
-    const afterUseAllowed = pendingWindow?.type === "after_use"
-      ? canPlayAfterUse(next, resolvedCard, sourceMember.id, characters, next.actionId)
-      : !pendingWindow
-        ? canPlayAfterUse(next, resolvedCard, sourceMember.id, characters, next.actionId)
-        : false;
-    const counterAllowed = pendingWindow?.type === "counter"
-      ? Boolean(counterWindow && counterWindow.by === action.playerId)
-      : Boolean(isOutOfTurn && counterWindow && counterWindow.by === action.playerId);
-    const outOfTurnAllowed = isOutOfTurn && (counterAllowed || afterUseAllowed);
-    if (!pendingWindow && action.playerId !== next.activePlayerId && !outOfTurnAllowed) {
-      return finalize("Not your turn.");
-    }
-    if (pendingWindow?.type === "after_use" && !afterUseAllowed) {
-      return finalize("Card must be played as Follow-Up or Assist Attack.");
-    }
-    if (pendingWindow?.type === "counter" && !counterAllowed) {
-      return finalize("Counter window only.");
-    }
-
-    const sourceCharacter = getCharacterById(characters, sourceMember.characterId);
-    if (!sourceCharacter) {
-      return finalize("Character not found.");
-    }
-
-    if (getActiveStatusState(sourceMember, "Deflate", sourceCharacter)) {
-      return finalize("This character is Deflated and cannot play cards.");
-    }
-
-    const typeSet = new Set(resolvedCard.types.map(normalizeTag));
-    const actionType = getActionType(resolvedCard.types);
-    if (getActiveStatusState(sourceMember, "Disarm", sourceCharacter) && typeSet.has("physical")) {
-      return finalize("Disarm prevents playing Physical cards.");
-    }
-    if (getActiveStatusState(sourceMember, "Silence", sourceCharacter) && typeSet.has("magical")) {
-      return finalize("Silence prevents playing Magical cards.");
-    }
-    if (
-      getActiveStatusState(sourceMember, "Seal", sourceCharacter) &&
-      (actionType === "special" || typeSet.has("special"))
-    ) {
-      return finalize("Seal prevents playing Special cards.");
-    }
-
-    const choiceEffects =
-      resolvedCard.effects?.filter((effect) => effect.type === "choose") ?? [];
-    const textChoices = choiceEffects.length ? [] : getTextChoiceOptions(resolvedCard.effect);
-    if (choiceEffects.length) {
-      const choiceIndex = action.choiceIndex;
-      if (choiceIndex === undefined || !Number.isInteger(choiceIndex)) {
-        return finalize("Choice required.");
-      }
-      const invalidChoice = choiceEffects.some(
-        (effect) => choiceIndex < 0 || choiceIndex >= effect.options.length
-      );
-      if (invalidChoice) {
-        return finalize("Invalid choice.");
-      }
-    } else if (textChoices.length) {
-      const choiceIndex = action.choiceIndex;
-      if (choiceIndex === undefined || !Number.isInteger(choiceIndex)) {
-        return finalize("Choice required.");
-      }
-      if (choiceIndex < 0 || choiceIndex >= textChoices.length) {
-        return finalize("Invalid choice.");
-      }
-    }
-
-    const xRange = getXRangeFromText(resolvedCard.effect);
-    const fixedX = getFixedXFromText(resolvedCard.effect);
-    if (xRange) {
-      if (action.xValue === undefined || !Number.isInteger(action.xValue)) {
-        return finalize("X value required.");
-      }
-      if (action.xValue < xRange.min || action.xValue > xRange.max) {
-        return finalize("X value out of range.");
-      }
-    } else if (action.xValue !== undefined && action.xValue < 0) {
-      return finalize("X value out of range.");
-    }
-
-    let xValue = action.xValue ?? 0;
-    if (fixedX !== null) {
-      xValue = fixedX;
-    } else if (xRange) {
-      xValue = action.xValue ?? 0;
-    }
-
-    const legalTargets = getLegalTargets(resolvedCard, sourceMember.id, next, characters);
-    if (!legalTargets.length) {
-      return finalize("No legal targets.");
-    }
-    const forcedCounterTarget = counterAllowed ? counterWindow?.targetId : null;
-    if (forcedCounterTarget && !legalTargets.includes(forcedCounterTarget)) {
-      return finalize("Counter must target the attacker.");
-    }
-    const targetId = forcedCounterTarget
-      ?? (action.targetId && legalTargets.includes(action.targetId)
-        ? action.targetId
-        : legalTargets.includes(initialTargetId)
-          ? initialTargetId
-          : legalTargets[0]);
-    if (!legalTargets.includes(targetId)) {
-      return finalize("Illegal target.");
-    }
-
-    const restrictionError = getUseRestrictionError(
       resolvedCard,
-      next,
-      sourceMember.id,
-      targetId,
-      characters
-    );
-    if (restrictionError) {
-      return finalize(restrictionError);
-    }
-
-    const cost = parseCost(resolvedCard.cost);
-    if (cost.variable && action.xValue === undefined && fixedX === null) {
-      return finalize("X value required.");
-    }
-    if (cost.variable && action.xValue !== undefined && !Number.isInteger(action.xValue)) {
-      return finalize("X value must be an integer.");
-    }
-    const isAfterUse =
-      next.afterUseWindow &&
-      next.afterUseWindow.validForAction === next.actionId &&
-      pendingWindow?.type !== "counter";
-    const isFollowUpPlay =
-      Boolean(isAfterUse) && next.afterUseWindow?.lastUsedCharacterId === sourceMember.id;
-    const followUpAdjustment = isFollowUpPlay
-      ? getFollowUpCostAdjustment(resolvedCard.effect)
-      : 0;
-    const adjustedTotals = getAdjustedCostTotals(
+      cardInstanceIndex,
       sourceMember,
-      sourceCharacter,
-      cost,
+      targetId,
       xValue,
-      cardInstance,
-      followUpAdjustment
-    );
-    if (team.energy < adjustedTotals.energy || team.ultimate < adjustedTotals.ultimate) {
-      return finalize("Insufficient resources.");
-    }
-
-    const effectiveSpeed = getEffectiveSpeed(resolvedCard.speed, sourceMember, sourceCharacter);
-    const legalZones = getLegalZonesForSpeed(effectiveSpeed);
-    if (!legalZones.includes(action.zone)) {
-      return finalize("Illegal zone for card speed.");
-    }
-
-    if (next.activeZone) {
-      if (action.zone !== next.activeZone && !isZoneFaster(action.zone, next.activeZone)) {
-        return finalize("Cannot play in a slower zone than the active zone.");
-      }
-    }
-
-    const reactionZone = pendingWindow?.zone
-      ?? (counterAllowed ? counterWindow?.zone : null)
-      ?? (afterUseAllowed ? next.afterUseWindow?.zone : null);
-    if (reactionZone && action.zone !== reactionZone) {
-      return finalize("Must play in the same zone as the triggering card.");
-    }
+      adjustedTotals,
+      effectiveSpeed,
+      actionType,
+    } = validation.play;
+    let { cardInstance } = validation.play;
+    const team = next.players[action.playerId];
 
     if (cardInstance && cardInstanceIndex >= 0) {
       cardInstance = team.hand.splice(cardInstanceIndex, 1)[0] ?? null;
@@ -5749,6 +6575,7 @@ export const applyAction = (
         pushDirection: action.pushDirection,
         cardInstanceId: cardInstance?.id,
         cardInstance: cardInstance ?? undefined,
+        energySpent: adjustedTotals.energy,
       };
 
       if (resolvedCard.name !== card.name) {
@@ -5758,6 +6585,7 @@ export const applyAction = (
         next,
         `${sourceMember.name} plays ${resolvedCard.name} in the ${zoneLabel(pendingWindow.zone)} Zone.`
       );
+      addCardEvent(next, "card_played", entry, pendingWindow.zone);
       applyCardPlayedStatusRules(next, entry, adjustedTotals.energy, characters);
       consumePendingWindow(next, pendingWindow);
       if (next.phase === "finished") {
@@ -5825,6 +6653,7 @@ export const applyAction = (
       pushDirection: action.pushDirection,
       cardInstanceId: cardInstance?.id,
       cardInstance: cardInstance ?? undefined,
+      energySpent: adjustedTotals.energy,
     };
     zone.cards.push(entry);
 
@@ -5832,6 +6661,7 @@ export const applyAction = (
       addLog(next, `${card.name} becomes ${resolvedCard.name}.`);
     }
     addLog(next, `${sourceMember.name} plays ${resolvedCard.name} in the ${zoneLabel(action.zone)} Zone.`);
+    addCardEvent(next, "card_played", entry, action.zone);
     applyCardPlayedStatusRules(next, entry, adjustedTotals.energy, characters);
     if (next.phase === "finished") {
       return finalize();
@@ -5885,6 +6715,13 @@ export const applyAction = (
     const swapped = trySwapAllies(next, action.playerId, first.id, second.id, characters);
     if (swapped) {
       addLog(next, `${first.name} swaps positions with ${second.name}.`);
+      addEvent(next, {
+        type: "movement",
+        kind: "swap",
+        characterId: first.id,
+        otherId: second.id,
+        spaces: Math.abs(first.position - second.position),
+      });
     }
 
     next.movementPassCount = 0;
@@ -5953,17 +6790,406 @@ export const applyAction = (
   return finalize();
 };
 
-export const replayTranscript = (
+const getChoiceCount = (card: Card) => {
+  const choiceEffects = card.effects?.filter((effect) => effect.type === "choose") ?? [];
+  if (choiceEffects.length) {
+    return Math.min(
+      ...choiceEffects.map((effect) => (effect.type === "choose" ? effect.options.length : 0))
+    );
+  }
+  return getTextChoiceOptions(card.effect).length;
+};
+
+const getLegalPlayCardActions = (
+  next: MatchState,
+  playerId: PlayerId,
+  pendingWindow: PendingWindowContext | null,
+  characters: Character[]
+) => {
+  const team = next.players[playerId];
+  const sources: { card: Card; sourceId: MatchCharacterId; cardInstanceId?: string }[] = [];
+  team.hand.forEach((instance) => {
+    const card = findCard(characters, instance.characterId, instance.cardSlot);
+    if (card) {
+      sources.push({ card, sourceId: instance.ownerId, cardInstanceId: instance.id });
+    }
+  });
+  team.characters.forEach((member) => {
+    if (member.defeated) return;
+    const character = getCharacterById(characters, member.characterId);
+    character?.cards
+      .filter((card) => isUltimateCard(card))
+      .forEach((card) => sources.push({ card, sourceId: member.id }));
+  });
+
+  const candidateTargets = (["p1", "p2"] as PlayerId[]).flatMap((id) =>
+    next.players[id].characters.filter((member) => !member.defeated).map((member) => member.id)
+  );
+  const actions: PlayCardAction[] = [];
+
+  sources.forEach(({ card, sourceId, cardInstanceId }) => {
+    const sourceMember = getMatchCharacter(next, sourceId);
+    if (!sourceMember || sourceMember.defeated) return;
+    const sourceCharacter = getCharacterById(characters, sourceMember.characterId);
+
+    candidateTargets.forEach((targetId) => {
+      const resolvedCard = resolveCardTransforms(card, next, sourceId, targetId, characters);
+      const effectiveSpeed = getEffectiveSpeed(resolvedCard.speed, sourceMember, sourceCharacter);
+      const choiceCount = getChoiceCount(resolvedCard);
+      const choices = choiceCount > 0
+        ? Array.from({ length: choiceCount }, (_, index) => index)
+        : [undefined];
+      const xRange = getXRangeFromText(resolvedCard.effect);
+      const fixedX = getFixedXFromText(resolvedCard.effect);
+      const cost = parseCost(resolvedCard.cost);
+
+      getLegalZonesForSpeed(effectiveSpeed).forEach((zone) => {
+        choices.forEach((choiceIndex) => {
+          const tryPlay = (xValue?: number) => {
+            const action: PlayCardAction = {
+              type: "play_card",
+              playerId,
+              cardSlot: card.slot,
+              cardInstanceId,
+              sourceId,
+              zone,
+              targetId,
+              xValue,
+              choiceIndex,
+            };
+            const validation = validatePlayCard(next, action, pendingWindow, characters);
+            if (validation.error !== undefined) return false;
+            if (validation.play.targetId !== targetId) return true;
+            actions.push(action);
+            return true;
+          };
+
+          if (xRange) {
+            for (let xValue = xRange.min; xValue <= xRange.max; xValue += 1) {
+              tryPlay(xValue);
+            }
+          } else if (cost.variable && fixedX === null) {
+            let xValue = 0;
+            while (tryPlay(xValue) && cost.variable.multiplier > 0) {
+              xValue += 1;
+            }
+          } else {
+            tryPlay();
+          }
+        });
+      });
+    });
+  });
+
+  return actions;
+};
+
+export const getLegalActions = (
+  state: MatchState,
+  playerId: PlayerId,
+  characters: Character[]
+): Action[] => {
+  if (state.phase === "finished") return [];
+  const next = beginAction(state);
+  const pendingWindow = getPendingWindow(next);
+  if (next.pendingResolution) {
+    if (!pendingWindow || pendingWindow.playerId !== playerId) return [];
+    return [
+      ...getLegalPlayCardActions(next, playerId, pendingWindow, characters),
+      { type: "pass", playerId },
+    ];
+  }
+
+  const isActive = playerId === next.activePlayerId;
+  if (next.phase === "movement") {
+    if (!isActive) return [];
+    const team = next.players[playerId];
+    const actions: Action[] = [];
+    if (team.movementFreeSwapsRemaining > 0 || team.energy >= 1) {
+      const ordered = [...team.characters].sort((left, right) => left.position - right.position);
+      ordered.forEach((first, index) => {
+        ordered.slice(index + 1).forEach((second) => {
+          if (!areAdjacent(first.position, second.position)) return;
+          actions.push({ type: "move_swap", playerId, firstId: first.id, secondId: second.id });
+        });
+      });
+    }
+    actions.push({ type: "pass", playerId });
+    return actions;
+  }
+
+  const actions: Action[] = getLegalPlayCardActions(next, playerId, null, characters);
+  if (isActive && next.activeZone) {
+    actions.push({ type: "pass", playerId });
+  }
+  if (
+    isActive &&
+    playerId === next.initiativePlayerId &&
+    !next.activeZone &&
+    zonesAreEmpty(next)
+  ) {
+    actions.push({ type: "end_turn", playerId });
+  }
+  return actions;
+};
+
+export type PlayEstimate = {
+  actionType: "attack" | "defense" | "special";
+  power: number;
+  damage: number;
+  energy: number;
+  ultimate: number;
+};
+
+const createEstimateEntry = (
+  action: PlayCardAction,
+  play: PlayCardValidation,
+  rolledPower: number
+): StackEntry => ({
+  id: `${action.playerId}-${play.resolvedCard.slot}-estimate`,
+  cardSlot: play.resolvedCard.slot,
+  cardName: play.resolvedCard.name,
+  powerText: play.resolvedCard.power,
+  effectText: play.resolvedCard.effect,
+  effects: play.resolvedCard.effects,
+  types: play.resolvedCard.types,
+  speed: play.effectiveSpeed,
+  playedBy: action.playerId,
+  sourceId: play.sourceMember.id,
+  targetId: play.targetId,
+  targetText: play.resolvedCard.target,
+  xValue: play.xValue,
+  choiceIndex: action.choiceIndex,
+  redirectTargetId: action.redirectTargetId,
+  rolledPower,
+});
+
+const estimateEntryDamage = (
+  state: MatchState,
+  entry: StackEntry,
+  power: number,
+  characters: Character[]
+) => {
+  const timings: Effect["timing"][] = ["on_play", "on_use", "on_hit"];
+  return timings.reduce(
+    (total, timing) => total + estimateDamageForTiming(state, entry, power, timing, characters),
+    0
+  );
+};
+
+export const estimatePlayAction = (
+  state: MatchState,
+  action: Action,
+  characters: Character[]
+): PlayEstimate | null => {
+  if (action.type !== "play_card" || state.phase === "finished") return null;
+  const next = beginAction(state);
+  const validation = validatePlayCard(next, action, getPendingWindow(next), characters);
+  if (validation.error !== undefined) return null;
+  const { resolvedCard, xValue, adjustedTotals, actionType } = validation.play;
+  const range = parsePowerRange(resolvedCard.power, xValue);
+  const entry = createEstimateEntry(action, validation.play, Math.round((range.min + range.max) / 2));
+  const power = getModifiedEntryPower(next, entry, actionType, characters, {
+    distanceTargetId: getDistanceTargetIdForEntry(next, entry, characters),
+  });
+  return {
+    actionType,
+    power,
+    damage: estimateEntryDamage(next, entry, power, characters),
+    energy: adjustedTotals.energy,
+    ultimate: adjustedTotals.ultimate,
+  };
+};
+
+export type DamagePreviewTarget = {
+  targetId: MatchCharacterId;
+  name: string;
+  min: DamageBreakdown;
+  max: DamageBreakdown;
+};
+
+export type DamagePreview = {
+  basePower: { min: number; max: number };
+  power: { min: number; max: number };
+  targets: DamagePreviewTarget[];
+};
+
+export const previewPlayDamage = (
+  state: MatchState,
+  action: Action,
+  characters: Character[]
+): DamagePreview | null => {
+  if (action.type !== "play_card" || state.phase === "finished") return null;
+  const next = beginAction(state);
+  const pendingWindow = getPendingWindow(next);
+  const validation = validatePlayCard(next, action, pendingWindow, characters);
+  if (validation.error !== undefined) return null;
+  const { resolvedCard, xValue, actionType } = validation.play;
+  const zoneCards = next.zones[action.zone].cards;
+  const opposing = pendingWindow ? undefined : zoneCards[zoneCards.length - 1];
+  const defense =
+    actionType === "attack" &&
+    opposing &&
+    opposing.playedBy !== action.playerId &&
+    getActionType(opposing.types) === "defense"
+      ? opposing
+      : null;
+  const range = parsePowerRange(resolvedCard.power, xValue);
+  const rolls = [range.min, range.max].map((rolledPower) => {
+    const entry = createEstimateEntry(action, validation.play, rolledPower);
+    if (defense) entry.targetId = defense.sourceId;
+    const power = getModifiedEntryPower(next, entry, actionType, characters, {
+      distanceTargetId: getDistanceTargetIdForEntry(next, entry, characters),
+    });
+    return { entry, power };
+  });
+  const targetIds = getAreaTargetsForEntry(next, rolls[0].entry);
+  const targets = targetIds.flatMap((targetId) => {
+    const target = getMatchCharacter(next, targetId);
+    if (!target || target.defeated) return [];
+    const targetCharacter = getCharacterById(characters, target.characterId);
+    const [min, max] = rolls.map(({ entry, power }) =>
+      getDamageBreakdown(
+        target,
+        estimateEntryDamage(next, { ...entry, targetId }, power, characters),
+        entry.types,
+        targetCharacter,
+        defense?.effectText
+      )
+    );
+    if (min.incoming <= 0 && max.incoming <= 0) return [];
+    return [{ targetId, name: target.name, min, max }];
+  });
+  return {
+    basePower: { min: range.min, max: range.max },
+    power: { min: rolls[0].power, max: rolls[1].power },
+    targets,
+  };
+};
+
+export type ClashPrediction = {
+  left?: StackEntrySnapshot;
+  right?: StackEntrySnapshot;
+  leftPower?: { min: number; max: number };
+  rightPower?: { min: number; max: number };
+  chance: number;
+  outcomes: Partial<Record<CombatResolutionOutcome, number>>;
+};
+
+const maxPredictionRuns = 64;
+
+const getPredictionRolls = (entry: StackEntry, perEntry: number) => {
+  const range = parsePowerRange(entry.powerText, entry.xValue);
+  const span = range.max - range.min + 1;
+  if (span <= perEntry) {
+    return Array.from({ length: span }, (_, index) => range.min + index);
+  }
+  if (perEntry === 1) return [Math.round((range.min + range.max) / 2)];
+  return Array.from({ length: perEntry }, (_, index) =>
+    Math.round(range.min + (index * (range.max - range.min)) / (perEntry - 1))
+  );
+};
+
+const widenRange = (range: { min: number; max: number } | undefined, value?: number) => {
+  if (value === undefined) return range;
+  if (!range) return { min: value, max: value };
+  return { min: Math.min(range.min, value), max: Math.max(range.max, value) };
+};
+
+export const predictZoneResolution = (
+  state: MatchState,
+  zoneName: ZoneName,
+  characters: Character[]
+): ClashPrediction[] => {
+  const cards = state.zones[zoneName].cards;
+  if (!cards.length) return [];
+  const rolled = cards.map((entry) => parsePowerRange(entry.powerText, entry.xValue).rolled);
+  let ranged = rolled.filter(Boolean).length;
+  let budget = maxPredictionRuns;
+  const rollSets = cards.map((entry, index) => {
+    if (!rolled[index]) return getPredictionRolls(entry, 1);
+    const rolls = getPredictionRolls(entry, Math.max(1, Math.floor(Math.pow(budget, 1 / ranged))));
+    ranged -= 1;
+    budget = Math.floor(budget / rolls.length);
+    return rolls;
+  });
+  const combinations = rollSets.reduce<number[][]>(
+    (combos, rolls) => combos.flatMap((combo) => rolls.map((roll) => [...combo, roll])),
+    [[]]
+  );
+
+  const predictions = new Map<string, ClashPrediction>();
+  combinations.forEach((combo) => {
+    const sim = cloneState({
+      ...state,
+      log: [],
+      events: [],
+      transcript: undefined,
+      lastResolution: null,
+    });
+    sim.zones[zoneName].cards.forEach((entry, index) => {
+      entry.rolledPower = combo[index];
+    });
+    resolveZone(sim, zoneName, characters, { skipReactionWindows: true });
+    sim.lastResolution?.steps.forEach((step) => {
+      const key = `${step.left?.id ?? ""}>${step.right?.id ?? ""}`;
+      const prediction = predictions.get(key) ?? {
+        left: step.left,
+        right: step.right,
+        chance: 0,
+        outcomes: {},
+      };
+      prediction.leftPower = widenRange(prediction.leftPower, step.leftPower);
+      prediction.rightPower = widenRange(prediction.rightPower, step.rightPower);
+      prediction.chance += 1;
+      prediction.outcomes[step.outcome] = (prediction.outcomes[step.outcome] ?? 0) + 1;
+      predictions.set(key, prediction);
+    });
+  });
+
+  return [...predictions.values()].map((prediction) => ({
+    ...prediction,
+    chance: prediction.chance / combinations.length,
+    outcomes: Object.fromEntries(
+      Object.entries(prediction.outcomes).map(([outcome, count]) => [
+        outcome,
+        (count ?? 0) / prediction.chance,
+      ])
+    ),
+  }));
+};
+
+type ReplayResult = {
+  state: MatchState;
+  error?: string;
+  actionIndex?: number;
+  dataChanged?: boolean;
+};
+
+const runTranscript = (
   characters: Character[],
-  transcript: MatchTranscript
-): { state: MatchState; error?: string; actionIndex?: number } => {
+  transcript: MatchTranscript,
+  onStep?: (step: ReplayStep) => void
+): ReplayResult => {
   let state = createMatchState(characters, transcript.players, {
     seed: transcript.seed,
+    rules: transcript.rules,
   });
+  onStep?.({ state });
+  const dataChanged = Boolean(
+    transcript.dataFingerprint &&
+      transcript.dataFingerprint !==
+        getDataFingerprint(
+          characters,
+          transcript.players.flatMap((player) => player.characterIds)
+        )
+  );
+  const flags = dataChanged ? { dataChanged } : {};
 
   for (let index = 0; index < transcript.actions.length; index += 1) {
     const entry = transcript.actions[index];
     const result = applyAction(state, entry.action, characters);
+    onStep?.({ state: result.state, action: cloneAction(entry.action), error: result.error });
     const expectedError = Boolean(entry.error);
     const actualError = Boolean(result.error);
     if (expectedError !== actualError) {
@@ -5973,10 +7199,285 @@ export const replayTranscript = (
           entry.error ? `error (${entry.error})` : "no error"
         }, got ${result.error ? `error (${result.error})` : "no error"}.`,
         actionIndex: index,
+        ...flags,
+      };
+    }
+    if (entry.checksum && entry.checksum !== getTranscriptChecksum(result.state)) {
+      return {
+        state: result.state,
+        error: `Transcript state diverged at action ${index + 1}${
+          dataChanged ? " (character data changed since recording)" : ""
+        }.`,
+        actionIndex: index,
+        ...flags,
       };
     }
     state = result.state;
   }
 
-  return { state };
+  return { state, ...flags };
 };
+
+export const replayTranscriptSteps = (
+  characters: Character[],
+  transcript: MatchTranscript
+): { steps: ReplayStep[]; error?: string; actionIndex?: number; dataChanged?: boolean } => {
+  const steps: ReplayStep[] = [];
+  const { state, ...result } = runTranscript(characters, transcript, (step) =>
+    steps.push(step)
+  );
+  return { steps, ...result };
+};
+
+export const replayTranscript = (characters: Character[], transcript: MatchTranscript): ReplayResult =>
+  runTranscript(characters, transcript);
+
+export type EffectLineHandler = "structured" | "text" | "keyword" | "unhandled";
+
+export type EffectLineCoverage = {
+  line: string;
+  handler: EffectLineHandler;
+  sources: string[];
+};
+
+const lineKeywordPatterns: [string, RegExp][] = [
+  ["choose", /^choose 1:?$/],
+  ["choose_x", /^choose x\s*\(\d+\s*-\s*\d+\)/],
+  ["multihit_count", /multihit count starts at \d+|set x to this card's remaining multihit count/],
+  ["distance_penalty", /distance\s*>\s*0\s*:\s*reduce this card'?s? final power by distance/],
+  ["follow_up_cost", /^on follow-up:\s*[+-]\d+\s+energy cost/],
+  ["negate", /^negate\b/],
+];
+
+const sentenceKeywords = new Set([
+  ...Object.keys(keywordFlagMap),
+  "exhaust",
+  "ethereal",
+  "retain",
+  "innate",
+]);
+
+const mentions = (sentence: string, name: string) =>
+  sentence.includes(normalizeText(name).toLowerCase());
+
+const describesEffect = (effect: Effect, sentence: string) => {
+  switch (effect.type) {
+    case "deal_damage":
+      return /\bdeal\b.*\bdamage\b/.test(sentence);
+    case "deal_damage_per_spent":
+      return /\bdamage\b/.test(sentence) && mentions(sentence, effect.status);
+    case "gain_shield":
+      return /\bgains?\b.*\bshield\b/.test(sentence);
+    case "heal":
+      return /\bheal\b/.test(sentence);
+    case "gain_ultimate":
+      return /\bgains?\b.*\bultimate meter\b/.test(sentence);
+    case "gain_status":
+      return /\bgains?\b/.test(sentence) && mentions(sentence, effect.status);
+    case "gain_status_per_spent":
+      return (
+        /\bgains?\b/.test(sentence) &&
+        mentions(sentence, effect.status) &&
+        mentions(sentence, effect.resource)
+      );
+    case "inflict_status":
+      return /\binflict\b/.test(sentence) && mentions(sentence, effect.status);
+    case "inflict_status_per_spent":
+      return (
+        /\binflict\b/.test(sentence) &&
+        mentions(sentence, effect.status) &&
+        mentions(sentence, effect.resource)
+      );
+    case "set_status":
+      return /\bset\b/.test(sentence) && mentions(sentence, effect.status);
+    case "reduce_status":
+      return /\breduce\b/.test(sentence) && mentions(sentence, effect.status);
+    case "spend_status":
+      return /\bspend\b/.test(sentence) && mentions(sentence, effect.status);
+    case "draw_cards":
+      return /\bdraw\b/.test(sentence);
+    case "create_card":
+      return /\bcreate\b/.test(sentence) && mentions(sentence, effect.cardName);
+    case "block_play":
+      return /\bcannot play cards\b/.test(sentence);
+    case "reload_equipped":
+      return /\breload currently equipped weapon\b/.test(sentence);
+    case "switch_equip":
+      return /\bswitch to\b/.test(sentence) && mentions(sentence, effect.status);
+    case "grant_keyword":
+      return /\bgains?\b/.test(sentence) && mentions(sentence, effect.keyword);
+    case "retain":
+      return /^retain\b/.test(sentence);
+    case "cleanse":
+    case "dispel":
+    case "purge":
+      return (
+        new RegExp(`\\b${effect.type}\\b`).test(sentence) &&
+        (!effect.status || mentions(sentence, effect.status))
+      );
+    case "choose":
+      return false;
+    default:
+      return new RegExp(`\\b${effect.type}\\b`).test(sentence);
+  }
+};
+
+// Rules an effect's handler applies beyond the sentence it was exported from.
+const effectRiderPatterns: Partial<Record<Effect["type"], RegExp>> = {
+  switch_equip: /\bsame weapon\b.*\breload\b/,
+};
+
+const textLineParsers: { name: string; meta: boolean; parse: (line: string) => unknown }[] = [
+  { name: "parseDamageFromLine", meta: false, parse: (line) => parseDamageFromLine(line, 1, 1) },
+  { name: "parseShieldFromLine", meta: false, parse: (line) => parseShieldFromLine(line, 1, 1) },
+  { name: "parseHealFromLine", meta: false, parse: (line) => parseHealFromLine(line, 1, 1) },
+  { name: "parseUltimateFromLine", meta: false, parse: (line) => parseUltimateFromLine(line, 1) },
+  { name: "parseStatusChange", meta: false, parse: parseStatusChange },
+  { name: "parsePurgeLine", meta: false, parse: parsePurgeLine },
+  { name: "parseSpendInflictLine", meta: true, parse: parseSpendInflictLine },
+  { name: "parseSpendInstruction", meta: true, parse: (line) => parseSpendInstruction(line, 1) },
+  { name: "parseCreateFromLine", meta: true, parse: parseCreateFromLine },
+  { name: "parseDrawFromLine", meta: true, parse: parseDrawFromLine },
+  { name: "parseScryLine", meta: true, parse: (line) => parseScryLine(line, 1) },
+  { name: "parseSeekLine", meta: true, parse: (line) => parseSeekLine(line, 1) },
+  { name: "parseSearchLine", meta: true, parse: parseSearchLine },
+  { name: "isReloadLine", meta: true, parse: isReloadLine },
+  { name: "parseEquipSwitchLine", meta: true, parse: parseEquipSwitchLine },
+  { name: "parsePushPullLine", meta: true, parse: (line) => parsePushPullLine(line, 1) },
+  { name: "isSwapLine", meta: true, parse: isSwapLine },
+  { name: "parseRedirectLine", meta: true, parse: parseRedirectLine },
+  { name: "getBounceCount", meta: true, parse: (line) => /\bBounce\s+\d+/i.test(line) },
+  { name: "xConditionalInflict", meta: true, parse: (line) => /If X is \d+,\s*inflict\s+\d+/i.test(line) },
+];
+
+const getCoverageEffects = (effects: Effect[] | undefined): Effect[] =>
+  (effects ?? []).flatMap((effect) =>
+    effect.type === "choose" ? getCoverageEffects(effect.options.flatMap((option) => option.effects)) : [effect]
+  );
+
+type CoverageSentence = {
+  lineIndex: number;
+  timing: Effect["timing"];
+  text: string;
+  normalized: string;
+  effects: Effect[];
+};
+
+const getCoverageSentences = (lines: string[]): CoverageSentence[] =>
+  lines.flatMap((line, lineIndex) =>
+    getTimedTextSegments([line]).flatMap((segment) =>
+      segment.text
+        .split(/(?<=\.)\s+(?!\()/)
+        .filter((text) => text.trim())
+        .map((text) => ({
+          lineIndex,
+          timing: segment.timing,
+          text,
+          normalized: normalizeText(text).toLowerCase(),
+          effects: [],
+        }))
+    )
+  );
+
+const isAmountContinuation = (sentence: string) => /^\w+ by \d+ additional\b/.test(sentence);
+
+const getEffectStat = (effect: Effect) => ("stat" in effect ? effect.stat : undefined);
+
+// Each structured effect is credited to the first sentence that describes it, preferring its own
+// timing and a sentence no effect of the same type and stat has claimed yet (so "Gain 1 X and
+// +1 X Count" holds both effects). A following "Reduce by 1 additional ..." sentence scales the
+// same effect.
+const assignEffectSentences = (sentences: CoverageSentence[], effects: Effect[]) => {
+  effects.forEach((effect) => {
+    const matching = sentences.filter((sentence) => describesEffect(effect, sentence.normalized));
+    const timed = matching.filter((sentence) => sentence.timing === effect.timing);
+    const candidates = timed.length ? timed : matching;
+    const sentence =
+      candidates.find(
+        (candidate) =>
+          !candidate.effects.some(
+            (claimed) =>
+              claimed.type === effect.type && getEffectStat(claimed) === getEffectStat(effect)
+          )
+      ) ?? candidates[0];
+    if (sentence) {
+      sentence.effects.push(effect);
+      const next = sentences[sentences.indexOf(sentence) + 1];
+      if (next && isAmountContinuation(next.normalized)) next.effects.push(effect);
+    }
+    const rider = effectRiderPatterns[effect.type];
+    sentences
+      .filter((candidate) => rider?.test(candidate.normalized))
+      .forEach((candidate) => candidate.effects.push(effect));
+  });
+};
+
+const classifyEffectSentence = (
+  sentence: CoverageSentence,
+  hasStructured: boolean
+): { handler: EffectLineHandler; sources: string[] } => {
+  if (sentence.effects.length) {
+    return {
+      handler: "structured",
+      sources: [...new Set(sentence.effects.map((effect) => effect.type))],
+    };
+  }
+  const parsers = textLineParsers.filter((parser) => {
+    if (!parser.meta && hasStructured) return false;
+    const result = parser.parse(sentence.text);
+    return result !== null && result !== false;
+  });
+  if (parsers.length) return { handler: "text", sources: parsers.map((parser) => parser.name) };
+  return { handler: "unhandled", sources: [] };
+};
+
+export const getCardEffectCoverage = (card: Card): EffectLineCoverage[] => {
+  const hasStructured = Boolean(card.effects?.length);
+  const lines = card.effect.filter((line) => line.trim());
+  const sentences = getCoverageSentences(lines);
+  assignEffectSentences(sentences, getCoverageEffects(card.effects));
+  return lines.map((line, lineIndex) => {
+    const normalized = normalizeLine(line).toLowerCase();
+    const keyword = lineKeywordPatterns.find(([, pattern]) => pattern.test(normalized));
+    if (keyword) return { line, handler: "keyword", sources: [keyword[0]] };
+    const keywordSentences = getKeywordSentences(line);
+    if (
+      keywordSentences.every(
+        (sentence) => sentenceKeywords.has(sentence) || /^prepare\s+-?\d+$/.test(sentence)
+      )
+    ) {
+      return { line, handler: "keyword", sources: keywordSentences };
+    }
+    if (/^(can only|cannot) be played\b/.test(normalized)) {
+      return card.restrictions?.length
+        ? { line, handler: "structured", sources: ["restrictions"] }
+        : { line, handler: "unhandled", sources: [] };
+    }
+    if (/\bthis (card|ultimate) becomes\b/.test(normalized)) {
+      return card.transforms?.length
+        ? { line, handler: "structured", sources: ["transforms"] }
+        : { line, handler: "unhandled", sources: [] };
+    }
+    const classified = sentences
+      .filter((sentence) => sentence.lineIndex === lineIndex)
+      .map((sentence) => classifyEffectSentence(sentence, hasStructured));
+    const sources = [...new Set(classified.flatMap((entry) => entry.sources))];
+    const handlers = classified.map((entry) => entry.handler);
+    const handler: EffectLineHandler = handlers.includes("unhandled")
+      ? "unhandled"
+      : handlers.includes("structured")
+        ? "structured"
+        : "text";
+    return { line, handler, sources };
+  });
+};
+
+export { chooseAiAction, getAiFallbackAction, type AiLevel, type AiOptions } from "./ai.ts";
+export {
+  applyStatePatch,
+  createStatePatch,
+  getStateChecksum,
+  hashValue,
+  type PatchOperation,
+  type StatePatch,
+} from "./sync.ts";
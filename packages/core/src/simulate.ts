@@ -0,0 +1,257 @@
+import { characters as roster } from "@ua/data";
+import type { Character } from "@ua/data";
+import {
+  applyAction,
+  chooseAiAction,
+  createMatchState,
+  type AiLevel,
+  type MatchEvent,
+  type MatchRules,
+  type MatchState,
+  type PlayerId,
+} from "./index.ts";
+
+type TeamLabel = "A" | "B";
+
+export type SimulationOptions = {
+  teamA: string[];
+  teamB: string[];
+  games: number;
+  seed: number;
+  policy: AiLevel;
+  maxActions: number;
+  rules?: Partial<MatchRules>;
+};
+
+export type SimulationReport = {
+  games: number;
+  wins: Record<TeamLabel, number>;
+  unfinished: number;
+  averageTurns: number;
+  damageByCharacter: Record<string, number>;
+  cardUsage: Record<string, number>;
+};
+
+const defaultMaxActions = 2000;
+
+const getOpponent = (playerId: PlayerId): PlayerId => (playerId === "p1" ? "p2" : "p1");
+
+const getCharacterLabel = (characters: Character[], characterId: string) => {
+  const character = characters.find((entry) => entry.id === characterId);
+  return character ? `${character.name} (${character.version})` : characterId;
+};
+
+const chooseNextAction = (state: MatchState, policy: AiLevel, characters: Character[]) => {
+  const active = state.activePlayerId;
+  const action = chooseAiAction(state, active, characters, { level: policy });
+  if (action) return { playerId: active, action };
+  const opponent = getOpponent(active);
+  return { playerId: opponent, action: chooseAiAction(state, opponent, characters, { level: policy }) };
+};
+
+const recordCardUsage = (
+  state: MatchState,
+  action: ReturnType<typeof chooseAiAction>,
+  characters: Character[],
+  usage: Record<string, number>
+) => {
+  if (!action || action.type !== "play_card") return;
+  const team = state.players[action.playerId];
+  const instance = action.cardInstanceId
+    ? team.hand.find((entry) => entry.id === action.cardInstanceId)
+    : null;
+  const member = team.characters.find(
+    (entry) => entry.id === (instance?.ownerId ?? action.sourceId)
+  );
+  const characterId = instance?.characterId ?? member?.characterId;
+  const cardSlot = instance?.cardSlot ?? action.cardSlot;
+  if (!characterId || !cardSlot) return;
+  const character = characters.find((entry) => entry.id === characterId);
+  const card =
+    character?.cards.find((entry) => entry.slot === cardSlot) ??
+    character?.createdCards?.find((entry) => entry.slot === cardSlot);
+  const key = `${getCharacterLabel(characters, characterId)}: ${card?.name ?? cardSlot}`;
+  usage[key] = (usage[key] ?? 0) + 1;
+};
+
+const recordDamage = (
+  state: MatchState,
+  events: MatchEvent[],
+  seats: Record<PlayerId, TeamLabel>,
+  characters: Character[],
+  damage: Record<string, number>
+) => {
+  events.forEach((event) => {
+    if (event.type !== "damage" || !event.sourceId) return;
+    const teamId = (["p1", "p2"] as PlayerId[]).find((id) =>
+      state.players[id].characters.some((member) => member.id === event.sourceId)
+    );
+    const source = teamId
+      ? state.players[teamId].characters.find((member) => member.id === event.sourceId)
+      : null;
+    if (!teamId || !source) return;
+    const key = `Team ${seats[teamId]}: ${getCharacterLabel(characters, source.characterId)}`;
+    damage[key] = (damage[key] ?? 0) + event.amount;
+  });
+};
+
+export const runSimulation = (
+  options: SimulationOptions,
+  characters: Character[] = roster
+): SimulationReport => {
+  const report: SimulationReport = {
+    games: options.games,
+    wins: { A: 0, B: 0 },
+    unfinished: 0,
+    averageTurns: 0,
+    damageByCharacter: {},
+    cardUsage: {},
+  };
+  let totalTurns = 0;
+
+  for (let game = 0; game < options.games; game += 1) {
+    const swapSides = game % 2 === 1;
+    const seats: Record<PlayerId, TeamLabel> = swapSides
+      ? { p1: "B", p2: "A" }
+      : { p1: "A", p2: "B" };
+    const teams: Record<TeamLabel, string[]> = { A: options.teamA, B: options.teamB };
+    let state = createMatchState(
+      characters,
+      [
+        { id: "p1", name: `Team ${seats.p1}`, characterIds: teams[seats.p1] },
+        { id: "p2", name: `Team ${seats.p2}`, characterIds: teams[seats.p2] },
+      ],
+      { seed: options.seed + game, rules: options.rules }
+    );
+
+    for (let step = 0; step < options.maxActions && state.phase !== "finished"; step += 1) {
+      const { action } = chooseNextAction(state, options.policy, characters);
+      if (!action) break;
+      recordCardUsage(state, action, characters, report.cardUsage);
+      const eventStart = state.events.length;
+      const result = applyAction(state, action, characters);
+      state = result.state;
+      if (result.error) break;
+      recordDamage(
+        state,
+        state.events.slice(eventStart),
+        seats,
+        characters,
+        report.damageByCharacter
+      );
+    }
+
+    totalTurns += state.turn;
+    if (state.winnerId) {
+      report.wins[seats[state.winnerId]] += 1;
+    } else {
+      report.unfinished += 1;
+    }
+  }
+
+  report.averageTurns = options.games ? totalTurns / options.games : 0;
+  return report;
+};
+
+const usage = [
+  "Usage: pnpm simulate [--a id,id,id] [--b id,id,id] [--games N] [--seed N]",
+  "  [--policy greedy|search] [--max-actions N] [--team-size N] [--hp N] [--max-hp N]",
+  "  [--energy N] [--hand-size N] [--free-swaps N]",
+].join("\n");
+
+const parseArgs = (args: string[]): { options?: SimulationOptions; error?: string } => {
+  const values = new Map<string, string>();
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === "--") continue;
+    if (!arg?.startsWith("--")) return { error: `Unexpected argument "${arg}".` };
+    const [key, inline] = arg.slice(2).split("=");
+    const value = inline ?? args[index + 1];
+    if (inline === undefined) index += 1;
+    if (!key || value === undefined) return { error: `Missing value for "${arg}".` };
+    values.set(key, value);
+  }
+  const errors: string[] = [];
+  const readInt = (key: string, fallback: number, min: number) => {
+    const raw = values.get(key);
+    if (raw === undefined) return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min) {
+      errors.push(`--${key} must be a whole number of at least ${min} (got "${raw}").`);
+    }
+    return value;
+  };
+  const rules: Partial<MatchRules> = {};
+  const ruleFlags: [string, keyof MatchRules, number][] = [
+    ["team-size", "teamSize", 1],
+    ["hp", "startingHp", 1],
+    ["max-hp", "maxHp", 1],
+    ["energy", "energyPerTurn", 0],
+    ["hand-size", "handSize", 1],
+    ["free-swaps", "freeSwaps", 0],
+  ];
+  ruleFlags.forEach(([flag, key, min]) => {
+    if (values.has(flag)) rules[key] = readInt(flag, 0, min);
+  });
+  if (rules.startingHp !== undefined && rules.maxHp === undefined) {
+    rules.maxHp = rules.startingHp;
+  }
+  const teamSize = rules.teamSize ?? 3;
+  const sorted = [...roster].sort((a, b) => a.id.localeCompare(b.id));
+  const parseTeam = (key: string, fallback: string[]) => {
+    const team =
+      values.get(key)?.split(",").map((entry) => entry.trim()).filter(Boolean) ?? fallback;
+    if (team.length !== teamSize) {
+      errors.push(`--${key} needs exactly ${teamSize} character id(s) (got ${team.length}).`);
+    }
+    team
+      .filter((id) => !roster.some((character) => character.id === id))
+      .forEach((id) => errors.push(`--${key}: unknown character id "${id}".`));
+    return team;
+  };
+  const policy = values.get("policy") ?? "greedy";
+  if (policy !== "greedy" && policy !== "search") {
+    errors.push(`--policy must be greedy or search (got "${policy}").`);
+  }
+  const options: SimulationOptions = {
+    teamA: parseTeam("a", sorted.slice(0, teamSize).map((entry) => entry.id)),
+    teamB: parseTeam("b", sorted.slice(teamSize, teamSize * 2).map((entry) => entry.id)),
+    games: readInt("games", 100, 1),
+    seed: readInt("seed", 1, 0),
+    policy: policy as AiLevel,
+    maxActions: readInt("max-actions", defaultMaxActions, 1),
+    rules,
+  };
+  return errors.length ? { error: errors.join("\n") } : { options };
+};
+
+const formatRanking = (entries: Record<string, number>, format: (value: number) => string) =>
+  Object.entries(entries)
+    .sort((left, right) => right[1] - left[1])
+    .map(([label, value]) => `  ${label}: ${format(value)}`);
+
+if (process.argv[1]?.includes("simulate")) {
+  const { options, error } = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(error);
+    console.error(usage);
+    process.exitCode = 1;
+  } else {
+    const report = runSimulation(options);
+    const percent = (value: number) =>
+      report.games ? `${((value / report.games) * 100).toFixed(1)}%` : "0%";
+    const perGame = (value: number) => (report.games ? (value / report.games).toFixed(1) : "0");
+    const lines = [
+      `Team A: ${options.teamA.join(", ")}`,
+      `Team B: ${options.teamB.join(", ")}`,
+      `Games: ${report.games} (seed ${options.seed}, policy ${options.policy}, sides alternate)`,
+      `Win rate: A ${percent(report.wins.A)} | B ${percent(report.wins.B)} | unfinished ${percent(report.unfinished)}`,
+      `Average turns: ${report.averageTurns.toFixed(2)}`,
+      "Damage dealt per game:",
+      ...formatRanking(report.damageByCharacter, perGame),
+      "Card plays per game:",
+      ...formatRanking(report.cardUsage, perGame),
+    ];
+    lines.forEach((line) => console.log(line));
+  }
+}
@@ -0,0 +1,152 @@
+import type { MatchState } from "./index.ts";
+
+type PatchPath = (string | number)[];
+
+export type PatchOperation =
+  | { op: "set"; path: PatchPath; value: unknown }
+  | { op: "delete"; path: PatchPath }
+  | { op: "append"; path: PatchPath; values: unknown[] };
+
+export type StatePatch = {
+  baseActionId: number;
+  actionId: number;
+  ops: PatchOperation[];
+  checksum: string;
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const cloneValue = <T>(value: T): T =>
+  value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => (entry === undefined ? "null" : stableStringify(entry))).join(",")}]`;
+  }
+  if (isRecord(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+export const hashValue = (value: unknown) => {
+  const text = stableStringify(value);
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+};
+
+export const getStateChecksum = (state: MatchState) => hashValue(state);
+
+const diffValue = (
+  previous: unknown,
+  next: unknown,
+  path: PatchPath,
+  ops: PatchOperation[]
+) => {
+  if (Array.isArray(previous) && Array.isArray(next)) {
+    if (next.length < previous.length) {
+      ops.push({ op: "set", path, value: cloneValue(next) });
+      return;
+    }
+    previous.forEach((entry, index) => {
+      diffValue(entry, next[index], [...path, index], ops);
+    });
+    if (next.length > previous.length) {
+      ops.push({ op: "append", path, values: cloneValue(next.slice(previous.length)) });
+    }
+    return;
+  }
+  if (isRecord(previous) && isRecord(next)) {
+    Object.keys(previous).forEach((key) => {
+      if (previous[key] !== undefined && next[key] === undefined) {
+        ops.push({ op: "delete", path: [...path, key] });
+      }
+    });
+    Object.keys(next).forEach((key) => {
+      if (next[key] === undefined) return;
+      if (previous[key] === undefined) {
+        ops.push({ op: "set", path: [...path, key], value: cloneValue(next[key]) });
+        return;
+      }
+      diffValue(previous[key], next[key], [...path, key], ops);
+    });
+    return;
+  }
+  if (previous !== next) {
+    ops.push({ op: "set", path, value: cloneValue(next) });
+  }
+};
+
+export const createStatePatch = (previous: MatchState, next: MatchState): StatePatch => {
+  const ops: PatchOperation[] = [];
+  diffValue(previous, next, [], ops);
+  return {
+    baseActionId: previous.actionId,
+    actionId: next.actionId,
+    ops,
+    checksum: getStateChecksum(next),
+  };
+};
+
+const blockedSegments = new Set(["__proto__", "constructor", "prototype"]);
+
+const hasOwn = (value: unknown, key: string | number) =>
+  typeof value === "object" && value !== null && Object.prototype.hasOwnProperty.call(value, key);
+
+const applyOperation = (root: JsonRecord, operation: PatchOperation) => {
+  if (operation.path.some((segment) => blockedSegments.has(String(segment)))) return false;
+  const parentPath = operation.path.slice(0, -1);
+  const key = operation.path[operation.path.length - 1];
+  let parent: unknown = root;
+  for (const segment of parentPath) {
+    if (!hasOwn(parent, segment)) return false;
+    parent = (parent as Record<string | number, unknown>)[segment];
+  }
+  if (operation.op === "append") {
+    if (key !== undefined && !hasOwn(parent, key)) return false;
+    const target =
+      key === undefined ? parent : (parent as Record<string | number, unknown>)[key];
+    if (!Array.isArray(target)) return false;
+    target.push(...cloneValue(operation.values));
+    return true;
+  }
+  if (key === undefined || typeof parent !== "object" || parent === null) return false;
+  const container = parent as Record<string | number, unknown>;
+  if (operation.op === "delete") {
+    delete container[key];
+    return true;
+  }
+  container[key] = cloneValue(operation.value);
+  return true;
+};
+
+export const applyStatePatch = (
+  state: MatchState,
+  patch: StatePatch
+): { state: MatchState; error?: string } => {
+  if (state.actionId !== patch.baseActionId) {
+    return { state, error: "Patch base does not match the current state." };
+  }
+  const next = cloneValue(state) as unknown as JsonRecord;
+  for (const operation of patch.ops) {
+    if (!applyOperation(next, operation)) {
+      return { state, error: "Patch could not be applied." };
+    }
+  }
+  const patched = next as unknown as MatchState;
+  if (getStateChecksum(patched) !== patch.checksum) {
+    return { state, error: "State checksum mismatch." };
+  }
+  return { state: patched };
+};
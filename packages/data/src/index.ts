@@ -4,6 +4,7 @@ import statusEffectsRaw from "./status-effects.json";
 import termsRaw from "./terms.json";
 import cardTypesRaw from "./card-types.json";
 import rolesRaw from "./roles.json";
+import { applyDataOverlays } from "./overlays";
 import type {
   CardType,
   Character,
@@ -13,28 +14,49 @@ import type {
   Term,
 } from "./types";
 
+export { effectOverlays, spendAmountOverlays, statusHookOverlays } from "./overlays";
+export {
+  formatDataIssue,
+  validateCharacters,
+  type DataIssue,
+  type DataReference,
+} from "./validate";
+
 export type {
+  AmountScaling,
   Card,
+  CardCriteria,
   CardType,
   CardTransform,
   Character,
+  ConditionSubject,
   Effect,
   EffectAmount,
   EffectCondition,
   EffectScalar,
   EffectTarget,
   EffectTiming,
+  EffectZone,
   Innate,
   Keyword,
   Role,
   StatusEffect,
   StatusEffectDefinition,
+  StatusPowerModifier,
   StatusRule,
+  StatusTrigger,
   StatusValueStat,
   Term,
+  TriggerActionType,
+  TriggerAmount,
+  TriggerCondition,
+  TriggerEffect,
+  TriggerEvent,
 } from "./types";
 
-export const characters = (charactersRaw as { characters: Character[] }).characters;
+export const characters = applyDataOverlays(
+  (charactersRaw as { characters: Character[] }).characters
+);
 export const keywords = (keywordsRaw as { keywords: Keyword[] }).keywords;
 export const statusEffects = (statusEffectsRaw as {
   statusEffects: StatusEffectDefinition[];
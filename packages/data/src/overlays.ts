@@ -0,0 +1,192 @@
+import type { Card, Character, Effect, EffectAmount, StatusEffect } from "./types";
+
+type StatusHooks = Pick<StatusEffect, "persistent" | "powerModifiers" | "triggers">;
+
+type SpendAmountOverlay = {
+  characterId: string;
+  slot: string;
+  status: string;
+  amount: EffectAmount;
+};
+
+type EffectOverlay = {
+  characterId: string;
+  slot: string;
+  effect: Effect;
+};
+
+// The docs export only carries status text, so engine hooks for these unique statuses live here,
+// keyed by normalized status name. Hooks present in the export take precedence.
+export const statusHookOverlays: Record<string, StatusHooks> = {
+  kaioken: {
+    triggers: [
+      {
+        id: "kaioken-drain",
+        event: "turn_end",
+        effects: [
+          { type: "adjust_status", stat: "count", amount: { kind: "flat", value: -1 } },
+          { type: "status_damage", amount: { kind: "hp_percent", percent: 10, stat: "potency" } },
+        ],
+      },
+    ],
+  },
+  zenkai: { powerModifiers: [{ actionTypes: ["attack", "defense"], stat: "value", percent: 5 }] },
+  "bankai: tensa zangetsu": {
+    triggers: [
+      {
+        id: "bankai-first-hit",
+        event: "attack_hit",
+        oncePerTurn: true,
+        effects: [{ type: "gain_status", status: "Reiatsu", amount: { kind: "flat", value: 1 } }],
+        log: "{name} gains 1 Reiatsu from Bankai.",
+      },
+    ],
+  },
+  "death by death note": {
+    persistent: true,
+    triggers: [
+      {
+        id: "death-note-countdown",
+        event: "turn_end",
+        effects: [{ type: "adjust_status", stat: "value", amount: { kind: "flat", value: -1 } }],
+      },
+      {
+        id: "death-note-defeat",
+        event: "turn_end",
+        conditions: [{ kind: "status_max", stat: "value", max: 0 }],
+        effects: [{ type: "defeat" }],
+        log: "{name} succumbs to Death by Death Note.",
+      },
+    ],
+  },
+  "kyuubi chakra": {
+    triggers: [
+      {
+        id: "kyuubi-shadow-clones",
+        event: "card_played",
+        oncePerTurn: true,
+        conditions: [{ kind: "card_name", name: "Shadow Clone Jutsu" }],
+        effects: [
+          {
+            type: "gain_status",
+            status: "Shadow Clones",
+            amount: { kind: "status", stat: "potency" },
+          },
+        ],
+      },
+      {
+        id: "kyuubi-drain",
+        event: "turn_end",
+        effects: [
+          { type: "adjust_status", stat: "count", amount: { kind: "flat", value: -1 } },
+          { type: "status_damage", amount: { kind: "hp_percent", percent: 5, stat: "potency" } },
+        ],
+      },
+    ],
+  },
+  "summoned: gamabunta": {
+    triggers: [
+      {
+        id: "gamabunta-toad-smash",
+        event: "card_played",
+        oncePerTurn: true,
+        conditions: [
+          { kind: "action_type", actionType: "attack" },
+          { kind: "energy_spent", min: 2 },
+          { kind: "targets_enemy" },
+        ],
+        effects: [{ type: "create_card", cardName: "Gamabunta: Toad Smash", count: 1 }],
+      },
+    ],
+  },
+};
+
+// Fixed spends the export still emits as `x`; each applies only while the exported amount is `x`.
+export const spendAmountOverlays: SpendAmountOverlay[] = [
+  {
+    characterId: "naruto-uzumaki-pre-timeskip",
+    slot: "2",
+    status: "Shadow Clones",
+    amount: { kind: "flat", value: 1 },
+  },
+];
+
+// Effect lines the export has no structured effect for; each applies only while the exported card
+// has no effect of the same type, timing and status.
+export const effectOverlays: EffectOverlay[] = [
+  {
+    characterId: "dio-brando-part-3",
+    slot: "ultimate",
+    effect: {
+      timing: "after_use",
+      type: "set_status",
+      status: "The World: Time Stop",
+      stat: "count",
+      amount: { kind: "flat", value: 0 },
+    },
+  },
+  {
+    characterId: "naruto-uzumaki-pre-timeskip",
+    slot: "ultimate-2",
+    effect: {
+      timing: "after_use",
+      type: "reduce_status",
+      status: "Kyuubi Chakra",
+      stat: "count",
+      amount: { kind: "flat", value: 2 },
+    },
+  },
+];
+
+const normalizeStatusName = (value: string) => value.trim().toLowerCase();
+
+const applyStatusHooks = (status: StatusEffect): StatusEffect => {
+  const hooks = statusHookOverlays[normalizeStatusName(status.name)];
+  return hooks ? { ...hooks, ...status } : status;
+};
+
+const applySpendAmounts = (characterId: string, card: Card): Card => {
+  const overlays = spendAmountOverlays.filter(
+    (overlay) => overlay.characterId === characterId && overlay.slot === card.slot
+  );
+  if (!overlays.length || !card.effects) return card;
+  return {
+    ...card,
+    effects: card.effects.map((effect) => {
+      if (effect.type !== "spend_status" || effect.amount.kind !== "x") return effect;
+      const overlay = overlays.find((entry) => entry.status === effect.status);
+      return overlay ? { ...effect, amount: overlay.amount } : effect;
+    }),
+  };
+};
+
+const getEffectStatus = (effect: Effect) => ("status" in effect ? effect.status : undefined);
+
+export const hasMatchingEffect = (card: Card, effect: Effect) =>
+  Boolean(
+    card.effects?.some(
+      (entry) =>
+        entry.type === effect.type &&
+        entry.timing === effect.timing &&
+        getEffectStatus(entry) === getEffectStatus(effect)
+    )
+  );
+
+const applyEffects = (characterId: string, card: Card): Card => {
+  const effects = effectOverlays
+    .filter((overlay) => overlay.characterId === characterId && overlay.slot === card.slot)
+    .map((overlay) => overlay.effect)
+    .filter((effect) => !hasMatchingEffect(card, effect));
+  return effects.length ? { ...card, effects: [...(card.effects ?? []), ...effects] } : card;
+};
+
+export const applyDataOverlays = (list: Character[]): Character[] =>
+  list.map((character) => ({
+    ...character,
+    cards: character.cards.map((card) =>
+      applyEffects(character.id, applySpendAmounts(character.id, card))
+    ),
+    ...(character.statusEffects
+      ? { statusEffects: character.statusEffects.map(applyStatusHooks) }
+      : {}),
+  }));
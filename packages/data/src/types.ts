@@ -6,6 +6,9 @@ export type Innate = {
 export type StatusEffect = {
   name: string;
   lines: string[];
+  persistent?: boolean;
+  powerModifiers?: StatusPowerModifier[];
+  triggers?: StatusTrigger[];
 };
 
 export type Keyword = {
@@ -64,13 +67,41 @@ export type EffectTiming =
 
 export type StatusValueStat = "potency" | "count" | "stack" | "value";
 
-export type EffectTarget = "self" | "target" | "opponent";
+export type EffectTarget =
+  | "self"
+  | "target"
+  | "opponent"
+  | "all_enemies"
+  | "all_allies"
+  | "adjacent_to_target"
+  | "random_enemy"
+  | "lowest_hp_ally"
+  | "opposed_enemy";
+
+export type RedirectTo = "self" | "target" | "ally" | "enemy";
+
+export type ConditionSubject = "self" | "target";
+
+export type EffectZone = "fast" | "normal" | "slow";
 
 export type EffectCondition =
   | { kind: "self_has_status"; status: string; min?: number }
   | { kind: "self_missing_status"; status: string }
   | { kind: "target_has_status"; status: string; min?: number }
-  | { kind: "target_missing_status"; status: string };
+  | { kind: "target_missing_status"; status: string }
+  | { kind: "hp_below" | "hp_at_least"; percent: number; subject?: ConditionSubject }
+  | { kind: "has_shield"; min?: number; subject?: ConditionSubject }
+  | { kind: "target_opposed" | "target_adjacent" }
+  | { kind: "distance"; min?: number; max?: number }
+  | {
+      kind: "allies_defeated" | "hand_size" | "deck_size" | "energy" | "ultimate";
+      min?: number;
+      max?: number;
+      subject?: ConditionSubject;
+    }
+  | { kind: "zone"; zone: EffectZone }
+  | { kind: "and" | "or"; conditions: EffectCondition[] }
+  | { kind: "not"; condition: EffectCondition };
 
 export type EffectScalar =
   | number
@@ -79,6 +110,13 @@ export type EffectScalar =
   | { kind: "x_minus"; value: number }
   | { kind: "x_times"; value: number };
 
+export type AmountScaling = {
+  value?: number;
+  per?: number;
+  min?: number;
+  max?: number;
+};
+
 export type EffectAmount =
   | { kind: "flat"; value: number }
   | { kind: "power" }
@@ -86,7 +124,17 @@ export type EffectAmount =
   | { kind: "x" }
   | { kind: "x_plus"; value: number }
   | { kind: "x_minus"; value: number }
-  | { kind: "x_times"; value: number };
+  | { kind: "x_times"; value: number }
+  | (AmountScaling & {
+      kind: "status_stat";
+      status: string;
+      stat?: StatusValueStat;
+      subject?: ConditionSubject;
+    })
+  | (AmountScaling & { kind: "missing_hp"; subject?: ConditionSubject })
+  | (AmountScaling & { kind: "allies_alive" | "enemies_alive" })
+  | (AmountScaling & { kind: "hand_size" | "discard_size"; subject?: ConditionSubject })
+  | (AmountScaling & { kind: "energy_spent" });
 
 export type CardTransform = {
   condition: EffectCondition;
@@ -124,22 +172,34 @@ export type UseRestriction =
       raw?: string;
     };
 
+export type CardCriteria = {
+  name?: string;
+  types?: string[];
+};
+
 export type Effect =
-  | (EffectBase & { type: "deal_damage"; amount: EffectAmount; hits?: EffectScalar })
-  | (EffectBase & { type: "gain_shield"; amount: EffectAmount })
-  | (EffectBase & { type: "heal"; amount: EffectAmount })
+  | (EffectBase & {
+      type: "deal_damage";
+      amount: EffectAmount;
+      hits?: EffectScalar;
+      target?: EffectTarget;
+    })
+  | (EffectBase & { type: "gain_shield"; amount: EffectAmount; target?: EffectTarget })
+  | (EffectBase & { type: "heal"; amount: EffectAmount; target?: EffectTarget })
   | (EffectBase & { type: "gain_ultimate"; amount: EffectAmount })
   | (EffectBase & {
       type: "gain_status";
       status: string;
       amount: EffectAmount;
       stat?: StatusValueStat;
+      target?: EffectTarget;
     })
   | (EffectBase & {
       type: "inflict_status";
       status: string;
       amount: EffectAmount;
       stat?: StatusValueStat;
+      target?: EffectTarget;
     })
   | (EffectBase & {
       type: "gain_status_per_spent";
@@ -147,6 +207,7 @@ export type Effect =
       resource: string;
       amount: EffectAmount;
       stat?: StatusValueStat;
+      target?: EffectTarget;
     })
   | (EffectBase & {
       type: "inflict_status_per_spent";
@@ -154,6 +215,7 @@ export type Effect =
       resource: string;
       amount: EffectAmount;
       stat?: StatusValueStat;
+      target?: EffectTarget;
     })
   | (EffectBase & {
       type: "set_status";
@@ -179,7 +241,12 @@ export type Effect =
       gateAll?: boolean;
       gateDamage?: boolean;
     })
-  | (EffectBase & { type: "deal_damage_per_spent"; status: string; amount: EffectAmount })
+  | (EffectBase & {
+      type: "deal_damage_per_spent";
+      status: string;
+      amount: EffectAmount;
+      target?: EffectTarget;
+    })
   | (EffectBase & { type: "draw_cards"; amount: EffectAmount; target?: EffectTarget })
   | (EffectBase & {
       type: "create_card";
@@ -196,7 +263,60 @@ export type Effect =
   | (EffectBase & { type: "switch_equip"; status: string })
   | (EffectBase & { type: "choose"; options: EffectOption[] })
   | (EffectBase & { type: "grant_keyword"; keyword: string; resource?: string; minSpent?: number })
-  | (EffectBase & { type: "retain" });
+  | (EffectBase & { type: "retain" })
+  | (EffectBase & { type: "scry"; count: EffectScalar })
+  | (EffectBase & { type: "seek"; count: EffectScalar; criteria: CardCriteria; take?: number })
+  | (EffectBase & { type: "search"; criteria: CardCriteria })
+  | (EffectBase & { type: "push"; amount: EffectScalar })
+  | (EffectBase & { type: "pull"; amount: EffectScalar })
+  | (EffectBase & { type: "swap" })
+  | (EffectBase & {
+      type: "cleanse" | "dispel" | "purge";
+      status?: string;
+      amount?: number;
+      target?: EffectTarget;
+    })
+  | (EffectBase & { type: "redirect"; to: RedirectTo })
+  | (EffectBase & { type: "bounce"; count: number });
+
+export type TriggerEvent = "card_played" | "attack_hit" | "turn_end";
+
+export type TriggerActionType = "attack" | "defense" | "special";
+
+export type TriggerCondition =
+  | { kind: "card_name"; name: string }
+  | { kind: "action_type"; actionType: TriggerActionType }
+  | { kind: "energy_spent"; min: number }
+  | { kind: "targets_enemy" }
+  | { kind: "status_min"; stat: StatusValueStat; min: number }
+  | { kind: "status_max"; stat: StatusValueStat; max: number };
+
+export type TriggerAmount =
+  | { kind: "flat"; value: number }
+  | { kind: "status"; stat: StatusValueStat }
+  | { kind: "hp_percent"; percent: number; stat: StatusValueStat };
+
+export type TriggerEffect =
+  | { type: "gain_status"; status: string; amount: TriggerAmount; stat?: StatusValueStat }
+  | { type: "adjust_status"; stat: StatusValueStat; amount: TriggerAmount }
+  | { type: "status_damage"; amount: TriggerAmount }
+  | { type: "create_card"; cardName: string; count: number }
+  | { type: "defeat" };
+
+export type StatusTrigger = {
+  id: string;
+  event: TriggerEvent;
+  conditions?: TriggerCondition[];
+  oncePerTurn?: boolean;
+  effects: TriggerEffect[];
+  log?: string;
+};
+
+export type StatusPowerModifier = {
+  actionTypes: TriggerActionType[];
+  stat: StatusValueStat;
+  percent: number;
+};
 
 export type Card = {
   slot: string;
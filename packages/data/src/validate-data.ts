@@ -0,0 +1,67 @@
+import charactersRaw from "./characters.json";
+import {
+  characters,
+  effectOverlays,
+  formatDataIssue,
+  keywords,
+  spendAmountOverlays,
+  statusEffects,
+  statusHookOverlays,
+  validateCharacters,
+  type Character,
+} from "./index";
+import { hasMatchingEffect } from "./overlays";
+
+const exported = (charactersRaw as { characters: Character[] }).characters;
+
+const statusNames = new Set(
+  characters.flatMap((character) =>
+    (character.statusEffects ?? []).map((status) => status.name.trim().toLowerCase())
+  )
+);
+
+const issues = [
+  ...validateCharacters(characters, { statusEffects, keywords }),
+  ...Object.keys(statusHookOverlays)
+    .filter((name) => !statusNames.has(name))
+    .map((name) => ({
+      path: `statusHookOverlays["${name}"]`,
+      message: "No exported status has this name, so its hooks are never applied.",
+    })),
+  ...spendAmountOverlays
+    .filter(
+      (overlay) =>
+        !exported
+          .find((character) => character.id === overlay.characterId)
+          ?.cards.find((card) => card.slot === overlay.slot)
+          ?.effects?.some(
+            (effect) =>
+              effect.type === "spend_status" &&
+              effect.status === overlay.status &&
+              effect.amount.kind === "x"
+          )
+    )
+    .map((overlay) => ({
+      path: `spendAmountOverlays (${overlay.characterId} slot ${overlay.slot})`,
+      message: `No exported X spend of "${overlay.status}" matches; remove the overlay.`,
+    })),
+  ...effectOverlays
+    .filter((overlay) => {
+      const card = exported
+        .find((character) => character.id === overlay.characterId)
+        ?.cards.find((entry) => entry.slot === overlay.slot);
+      return !card || hasMatchingEffect(card, overlay.effect);
+    })
+    .map((overlay) => ({
+      path: `effectOverlays (${overlay.characterId} slot ${overlay.slot})`,
+      message: `No exported card lacks this ${overlay.effect.type} effect; remove the overlay.`,
+    })),
+];
+
+if (issues.length) {
+  issues.forEach((issue) => console.error(formatDataIssue(issue)));
+  console.error(`${issues.length} data issue(s) found.`);
+  process.exitCode = 1;
+} else {
+  console.log("Character data is valid.");
+}
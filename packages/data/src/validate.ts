@@ -0,0 +1,645 @@
+import type {
+  EffectAmount,
+  EffectCondition,
+  Effect,
+  Keyword,
+  StatusEffectDefinition,
+  TriggerAmount,
+  TriggerCondition,
+  TriggerEffect,
+  UseRestriction,
+} from "./types";
+
+export type DataIssue = {
+  path: string;
+  message: string;
+  characterId?: string;
+};
+
+export type DataReference = {
+  statusEffects: StatusEffectDefinition[];
+  keywords: Keyword[];
+};
+
+type FieldKind =
+  | "string"
+  | "number"
+  | "boolean"
+  | "status"
+  | "amount"
+  | "scalar"
+  | "condition"
+  | "stat"
+  | "target"
+  | "cardName"
+  | "criteria"
+  | "keyword"
+  | "options"
+  | "duration"
+  | "redirect"
+  | "subject"
+  | "zone"
+  | "conditions"
+  | "actionType"
+  | "triggerAmount";
+
+type FieldSpec = Record<string, FieldKind | `${FieldKind}?`>;
+
+type JsonRecord = Record<string, unknown>;
+
+type CharacterContext = {
+  characterId?: string;
+  statuses: Set<string>;
+  keywords: Set<string>;
+  createdCardNames: Set<string>;
+  issues: DataIssue[];
+};
+
+const effectTimings = [
+  "on_play",
+  "before_clash",
+  "after_clash",
+  "before_use",
+  "on_use",
+  "on_hit",
+  "after_use",
+  "always",
+];
+const statusStats = ["potency", "count", "stack", "value"];
+const effectTargets = [
+  "self",
+  "target",
+  "opponent",
+  "all_enemies",
+  "all_allies",
+  "adjacent_to_target",
+  "random_enemy",
+  "lowest_hp_ally",
+  "opposed_enemy",
+];
+const redirectTargets = ["self", "target", "ally", "enemy"];
+const conditionSubjects = ["self", "target"];
+const effectZones = ["fast", "normal", "slow"];
+const triggerEvents = ["card_played", "attack_hit", "turn_end"];
+const actionTypes = ["attack", "defense", "special"];
+const restrictionWindows = ["assist_attack", "follow_up", "after_use"];
+const statusHooks = ["triggers", "powerModifiers", "persistent"] as const;
+const requiredStatusHooks: Record<string, (typeof statusHooks)[number][]> = {
+  kaioken: ["triggers"],
+  zenkai: ["powerModifiers"],
+  "bankai: tensa zangetsu": ["triggers"],
+  "death by death note": ["triggers", "persistent"],
+  "kyuubi chakra": ["triggers"],
+  "summoned: gamabunta": ["triggers"],
+};
+
+const effectFields: Record<Effect["type"], FieldSpec> = {
+  deal_damage: { amount: "amount", hits: "scalar?", target: "target?" },
+  gain_shield: { amount: "amount", target: "target?" },
+  heal: { amount: "amount", target: "target?" },
+  gain_ultimate: { amount: "amount" },
+  gain_status: { status: "status", amount: "amount", stat: "stat?", target: "target?" },
+  inflict_status: { status: "status", amount: "amount", stat: "stat?", target: "target?" },
+  gain_status_per_spent: {
+    status: "status",
+    resource: "status",
+    amount: "amount",
+    stat: "stat?",
+    target: "target?",
+  },
+  inflict_status_per_spent: {
+    status: "status",
+    resource: "status",
+    amount: "amount",
+    stat: "stat?",
+    target: "target?",
+  },
+  set_status: { status: "status", amount: "amount", stat: "stat?", target: "target?" },
+  reduce_status: {
+    status: "status",
+    amount: "amount",
+    stat: "stat?",
+    target: "target?",
+    minValue: "number?",
+    maxAmount: "number?",
+  },
+  spend_status: {
+    status: "status",
+    amount: "amount",
+    allowPartial: "boolean?",
+    gateAll: "boolean?",
+    gateDamage: "boolean?",
+  },
+  deal_damage_per_spent: { status: "status", amount: "amount", target: "target?" },
+  draw_cards: { amount: "amount", target: "target?" },
+  create_card: { cardName: "cardName", count: "amount", target: "target?" },
+  block_play: { target: "target?", duration: "duration" },
+  reload_equipped: {},
+  switch_equip: { status: "status" },
+  choose: { options: "options" },
+  grant_keyword: { keyword: "keyword", resource: "status?", minSpent: "number?" },
+  retain: {},
+  scry: { count: "scalar" },
+  seek: { count: "scalar", criteria: "criteria", take: "number?" },
+  search: { criteria: "criteria" },
+  push: { amount: "scalar" },
+  pull: { amount: "scalar" },
+  swap: {},
+  cleanse: { status: "status?", amount: "number?", target: "target?" },
+  dispel: { status: "status?", amount: "number?", target: "target?" },
+  purge: { status: "status?", amount: "number?", target: "target?" },
+  redirect: { to: "redirect" },
+  bounce: { count: "number" },
+};
+
+const scalingFields: FieldSpec = {
+  value: "number?",
+  per: "number?",
+  min: "number?",
+  max: "number?",
+};
+
+const amountFields: Record<EffectAmount["kind"], FieldSpec> = {
+  flat: { value: "number" },
+  power: {},
+  power_div: { divisor: "scalar" },
+  x: {},
+  x_plus: { value: "number" },
+  x_minus: { value: "number" },
+  x_times: { value: "number" },
+  status_stat: { ...scalingFields, status: "status", stat: "stat?", subject: "subject?" },
+  missing_hp: { ...scalingFields, subject: "subject?" },
+  allies_alive: scalingFields,
+  enemies_alive: scalingFields,
+  hand_size: { ...scalingFields, subject: "subject?" },
+  discard_size: { ...scalingFields, subject: "subject?" },
+  energy_spent: scalingFields,
+};
+
+const scalarKinds = ["x", "x_plus", "x_minus", "x_times"];
+
+const conditionFields: Record<EffectCondition["kind"], FieldSpec> = {
+  self_has_status: { status: "status", min: "number?" },
+  self_missing_status: { status: "status" },
+  target_has_status: { status: "status", min: "number?" },
+  target_missing_status: { status: "status" },
+  hp_below: { percent: "number", subject: "subject?" },
+  hp_at_least: { percent: "number", subject: "subject?" },
+  has_shield: { min: "number?", subject: "subject?" },
+  target_opposed: {},
+  target_adjacent: {},
+  distance: { min: "number?", max: "number?" },
+  allies_defeated: { min: "number?", max: "number?", subject: "subject?" },
+  hand_size: { min: "number?", max: "number?", subject: "subject?" },
+  deck_size: { min: "number?", max: "number?", subject: "subject?" },
+  energy: { min: "number?", max: "number?", subject: "subject?" },
+  ultimate: { min: "number?", max: "number?", subject: "subject?" },
+  zone: { zone: "zone" },
+  and: { conditions: "conditions" },
+  or: { conditions: "conditions" },
+  not: { condition: "condition" },
+};
+
+const triggerEffectFields: Record<TriggerEffect["type"], FieldSpec> = {
+  gain_status: { status: "status", amount: "triggerAmount", stat: "stat?" },
+  adjust_status: { stat: "stat", amount: "triggerAmount" },
+  status_damage: { amount: "triggerAmount" },
+  create_card: { cardName: "cardName", count: "number" },
+  defeat: {},
+};
+
+const triggerConditionFields: Record<TriggerCondition["kind"], FieldSpec> = {
+  card_name: { name: "string" },
+  action_type: { actionType: "actionType" },
+  energy_spent: { min: "number" },
+  targets_enemy: {},
+  status_min: { stat: "stat", min: "number" },
+  status_max: { stat: "stat", max: "number" },
+};
+
+const triggerAmountFields: Record<TriggerAmount["kind"], FieldSpec> = {
+  flat: { value: "number" },
+  status: { stat: "stat" },
+  hp_percent: { percent: "number", stat: "stat" },
+};
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const normalizeName = (value: string) => value.trim().toLowerCase();
+
+const describe = (value: unknown) =>
+  value === undefined ? "missing" : `${JSON.stringify(value)}`;
+
+const report = (context: CharacterContext, path: string, message: string) => {
+  context.issues.push({ path, message, characterId: context.characterId });
+};
+
+const checkOneOf = (
+  context: CharacterContext,
+  value: unknown,
+  options: string[],
+  path: string,
+  label: string
+) => {
+  if (typeof value === "string" && options.includes(value)) return true;
+  report(context, path, `Unknown ${label} ${describe(value)}; expected one of ${options.join(", ")}.`);
+  return false;
+};
+
+const checkStringList = (context: CharacterContext, value: unknown, path: string) => {
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+    report(context, path, "Expected a list of strings.");
+  }
+};
+
+const checkRecord = (
+  context: CharacterContext,
+  value: unknown,
+  path: string
+): value is JsonRecord => {
+  if (isRecord(value)) return true;
+  report(context, path, `Expected an object, got ${describe(value)}.`);
+  return false;
+};
+
+const checkScalar = (context: CharacterContext, value: unknown, path: string) => {
+  if (typeof value === "number") return;
+  if (!checkRecord(context, value, path)) return;
+  if (!checkOneOf(context, value.kind, scalarKinds, `${path}.kind`, "scalar kind")) return;
+  if (value.kind !== "x") checkField(context, value.value, "number", `${path}.value`);
+};
+
+const checkSpec = (context: CharacterContext, value: JsonRecord, spec: FieldSpec, path: string) => {
+  Object.entries(spec).forEach(([key, kind]) => {
+    const optional = kind.endsWith("?");
+    const fieldValue = value[key];
+    if (fieldValue === undefined) {
+      if (!optional) report(context, `${path}.${key}`, "Missing required field.");
+      return;
+    }
+    checkField(context, fieldValue, kind.replace("?", "") as FieldKind, `${path}.${key}`);
+  });
+};
+
+const checkAmount = (context: CharacterContext, value: unknown, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  const kinds = Object.keys(amountFields);
+  if (!checkOneOf(context, value.kind, kinds, `${path}.kind`, "amount kind")) return;
+  checkSpec(context, value, amountFields[value.kind as EffectAmount["kind"]], path);
+};
+
+const checkTriggerAmount = (context: CharacterContext, value: unknown, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  const kinds = Object.keys(triggerAmountFields);
+  if (!checkOneOf(context, value.kind, kinds, `${path}.kind`, "trigger amount kind")) return;
+  checkSpec(context, value, triggerAmountFields[value.kind as TriggerAmount["kind"]], path);
+};
+
+const checkCondition = (context: CharacterContext, value: unknown, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  const kinds = Object.keys(conditionFields);
+  if (!checkOneOf(context, value.kind, kinds, `${path}.kind`, "condition kind")) return;
+  checkSpec(context, value, conditionFields[value.kind as EffectCondition["kind"]], path);
+};
+
+const checkField = (
+  context: CharacterContext,
+  value: unknown,
+  kind: FieldKind,
+  path: string
+): void => {
+  if (kind === "string" || kind === "number" || kind === "boolean") {
+    if (typeof value !== kind) report(context, path, `Expected a ${kind}, got ${describe(value)}.`);
+    return;
+  }
+  if (kind === "status") {
+    if (typeof value !== "string") {
+      report(context, path, `Expected a status name, got ${describe(value)}.`);
+    } else if (!context.statuses.has(normalizeName(value))) {
+      report(context, path, `Unknown status "${value}".`);
+    }
+    return;
+  }
+  if (kind === "cardName") {
+    if (typeof value !== "string") {
+      report(context, path, `Expected a card name, got ${describe(value)}.`);
+    } else if (!context.createdCardNames.has(normalizeName(value))) {
+      report(context, path, `Created card "${value}" is not listed in createdCards.`);
+    }
+    return;
+  }
+  if (kind === "criteria") {
+    if (!checkRecord(context, value, path)) return;
+    if (value.name !== undefined) checkField(context, value.name, "string", `${path}.name`);
+    if (value.types !== undefined) checkStringList(context, value.types, `${path}.types`);
+    return;
+  }
+  if (kind === "keyword") {
+    if (typeof value !== "string" || !context.keywords.has(normalizeName(value))) {
+      report(context, path, `Unknown keyword ${describe(value)}.`);
+    }
+    return;
+  }
+  if (kind === "amount") return checkAmount(context, value, path);
+  if (kind === "scalar") return checkScalar(context, value, path);
+  if (kind === "condition") return checkCondition(context, value, path);
+  if (kind === "triggerAmount") return checkTriggerAmount(context, value, path);
+  if (kind === "stat") return void checkOneOf(context, value, statusStats, path, "status stat");
+  if (kind === "target") return void checkOneOf(context, value, effectTargets, path, "effect target");
+  if (kind === "actionType") return void checkOneOf(context, value, actionTypes, path, "action type");
+  if (kind === "duration") return void checkOneOf(context, value, ["combat_round"], path, "duration");
+  if (kind === "redirect") {
+    return void checkOneOf(context, value, redirectTargets, path, "redirect target");
+  }
+  if (kind === "subject") {
+    return void checkOneOf(context, value, conditionSubjects, path, "condition subject");
+  }
+  if (kind === "zone") return void checkOneOf(context, value, effectZones, path, "zone");
+  if (kind === "conditions") {
+    if (!Array.isArray(value) || !value.length) {
+      report(context, path, "Expected a non-empty list of conditions.");
+      return;
+    }
+    value.forEach((condition, index) => checkCondition(context, condition, `${path}[${index}]`));
+    return;
+  }
+  if (!Array.isArray(value)) {
+    report(context, path, "Expected a list of options.");
+    return;
+  }
+  value.forEach((option, index) => {
+    const optionPath = `${path}[${index}]`;
+    if (!checkRecord(context, option, optionPath)) return;
+    if (option.label !== undefined) checkField(context, option.label, "string", `${optionPath}.label`);
+    checkEffects(context, option.effects, `${optionPath}.effects`);
+  });
+};
+
+const checkEffect = (context: CharacterContext, value: unknown, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  checkOneOf(context, value.timing, effectTimings, `${path}.timing`, "timing");
+  if (value.condition !== undefined) checkCondition(context, value.condition, `${path}.condition`);
+  const types = Object.keys(effectFields);
+  if (!checkOneOf(context, value.type, types, `${path}.type`, "effect type")) return;
+  checkSpec(context, value, effectFields[value.type as Effect["type"]], path);
+};
+
+const checkEffects = (context: CharacterContext, value: unknown, path: string) => {
+  if (!Array.isArray(value)) {
+    report(context, path, "Expected a list of effects.");
+    return;
+  }
+  value.forEach((effect, index) => checkEffect(context, effect, `${path}[${index}]`));
+};
+
+const checkRestriction = (context: CharacterContext, value: unknown, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  const kinds: UseRestriction["kind"][] = ["require", "forbid", "require_window", "forbid_window"];
+  if (!checkOneOf(context, value.kind, kinds, `${path}.kind`, "restriction kind")) return;
+  if (value.raw !== undefined) checkField(context, value.raw, "string", `${path}.raw`);
+  if (value.kind === "require_window" || value.kind === "forbid_window") {
+    checkOneOf(context, value.window, restrictionWindows, `${path}.window`, "restriction window");
+    return;
+  }
+  checkOneOf(context, value.subject, ["self", "target"], `${path}.subject`, "restriction subject");
+  checkOneOf(context, value.mode, ["any", "all"], `${path}.mode`, "restriction mode");
+  if (!Array.isArray(value.statuses) || !value.statuses.length) {
+    report(context, `${path}.statuses`, "Expected a non-empty list of statuses.");
+    return;
+  }
+  value.statuses.forEach((status, index) => {
+    const statusPath = `${path}.statuses[${index}]`;
+    if (!checkRecord(context, status, statusPath)) return;
+    checkSpec(context, status, { name: "status", min: "number?" }, statusPath);
+  });
+};
+
+const checkTransform = (
+  context: CharacterContext,
+  value: unknown,
+  slots: Set<string>,
+  path: string
+) => {
+  if (!checkRecord(context, value, path)) return;
+  checkCondition(context, value.condition, `${path}.condition`);
+  if (typeof value.cardSlot !== "string") {
+    report(context, `${path}.cardSlot`, `Expected a card slot, got ${describe(value.cardSlot)}.`);
+  } else if (!slots.has(value.cardSlot)) {
+    report(context, `${path}.cardSlot`, `Transform slot "${value.cardSlot}" does not exist.`);
+  }
+};
+
+const checkCard = (context: CharacterContext, value: unknown, slots: Set<string>, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  checkSpec(
+    context,
+    value,
+    { slot: "string", name: "string", cost: "string", power: "string", target: "string", speed: "string" },
+    path
+  );
+  checkStringList(context, value.types, `${path}.types`);
+  checkStringList(context, value.effect, `${path}.effect`);
+  if (value.effects !== undefined) checkEffects(context, value.effects, `${path}.effects`);
+  if (value.restrictions !== undefined) {
+    if (!Array.isArray(value.restrictions)) {
+      report(context, `${path}.restrictions`, "Expected a list of restrictions.");
+    } else {
+      value.restrictions.forEach((restriction, index) =>
+        checkRestriction(context, restriction, `${path}.restrictions[${index}]`)
+      );
+    }
+  }
+  if (value.transforms !== undefined) {
+    if (!Array.isArray(value.transforms)) {
+      report(context, `${path}.transforms`, "Expected a list of transforms.");
+    } else {
+      value.transforms.forEach((transform, index) =>
+        checkTransform(context, transform, slots, `${path}.transforms[${index}]`)
+      );
+    }
+  }
+};
+
+const checkTriggerEffect = (context: CharacterContext, value: unknown, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  const types = Object.keys(triggerEffectFields);
+  if (!checkOneOf(context, value.type, types, `${path}.type`, "trigger effect type")) return;
+  checkSpec(context, value, triggerEffectFields[value.type as TriggerEffect["type"]], path);
+};
+
+const checkStatusEffect = (context: CharacterContext, value: unknown, path: string) => {
+  if (!checkRecord(context, value, path)) return;
+  checkField(context, value.name, "string", `${path}.name`);
+  checkStringList(context, value.lines, `${path}.lines`);
+  const name = typeof value.name === "string" ? normalizeName(value.name) : "";
+  (requiredStatusHooks[name] ?? []).forEach((hook) => {
+    const present =
+      hook === "persistent" ? value.persistent === true : getList(value[hook]).length > 0;
+    if (!present) {
+      report(
+        context,
+        `${path}.${hook}`,
+        `Status "${value.name}" needs ${hook}; add it to the export or to statusHookOverlays.`
+      );
+    }
+  });
+  if (value.triggers === undefined) return;
+  if (!Array.isArray(value.triggers)) {
+    report(context, `${path}.triggers`, "Expected a list of triggers.");
+    return;
+  }
+  value.triggers.forEach((trigger, index) => {
+    const triggerPath = `${path}.triggers[${index}]`;
+    if (!checkRecord(context, trigger, triggerPath)) return;
+    checkOneOf(context, trigger.event, triggerEvents, `${triggerPath}.event`, "trigger event");
+    getList(trigger.conditions).forEach((condition, conditionIndex) => {
+      const conditionPath = `${triggerPath}.conditions[${conditionIndex}]`;
+      if (!checkRecord(context, condition, conditionPath)) return;
+      const kinds = Object.keys(triggerConditionFields);
+      if (!checkOneOf(context, condition.kind, kinds, `${conditionPath}.kind`, "trigger condition")) {
+        return;
+      }
+      checkSpec(
+        context,
+        condition,
+        triggerConditionFields[condition.kind as TriggerCondition["kind"]],
+        conditionPath
+      );
+    });
+    if (!Array.isArray(trigger.effects)) {
+      report(context, `${triggerPath}.effects`, "Expected a list of trigger effects.");
+      return;
+    }
+    trigger.effects.forEach((effect, effectIndex) =>
+      checkTriggerEffect(context, effect, `${triggerPath}.effects[${effectIndex}]`)
+    );
+  });
+};
+
+const getInnateResourceNames = (innates: unknown) => {
+  if (!Array.isArray(innates)) return [];
+  return innates.flatMap((innate) => {
+    const text = isRecord(innate) && typeof innate.text === "string" ? innate.text.trim() : "";
+    const startMatch = text.match(/starts with\s+(.+)$/i);
+    if (!startMatch) return [];
+    return startMatch[1]
+      .split(/,| and /i)
+      .map((part) => part.trim().replace(/\.$/, ""))
+      .filter(Boolean)
+      .map((part) => part.replace(/\s+at\s+\d+$/i, "").replace(/^\d+\s+/, ""));
+  });
+};
+
+const getList = (value: unknown) => (Array.isArray(value) ? value : []);
+
+const getCardField = (card: unknown, key: "slot" | "name") =>
+  isRecord(card) && typeof card[key] === "string" ? (card[key] as string) : null;
+
+const checkCharacter = (
+  value: unknown,
+  path: string,
+  reference: DataReference,
+  issues: DataIssue[]
+) => {
+  const baseContext: CharacterContext = {
+    statuses: new Set(),
+    keywords: new Set(),
+    createdCardNames: new Set(),
+    issues,
+  };
+  if (!checkRecord(baseContext, value, path)) return;
+  const ownStatuses = Array.isArray(value.statusEffects)
+    ? value.statusEffects.flatMap((status) =>
+        isRecord(status) && typeof status.name === "string" ? [status.name] : []
+      )
+    : [];
+  const statusNames = [
+    ...reference.statusEffects.map((status) => status.name),
+    ...ownStatuses,
+    ...getInnateResourceNames(value.innates),
+  ];
+  const keywordNames = reference.keywords.map((keyword) =>
+    keyword.name.replace(/\s+(X|\(.+\))$/, "")
+  );
+  const cards = getList(value.cards);
+  const createdCards = getList(value.createdCards);
+  const context: CharacterContext = {
+    characterId: typeof value.id === "string" ? value.id : undefined,
+    statuses: new Set(statusNames.map(normalizeName)),
+    keywords: new Set(keywordNames.map(normalizeName)),
+    createdCardNames: new Set(
+      createdCards.flatMap((card) => getCardField(card, "name") ?? []).map(normalizeName)
+    ),
+    issues,
+  };
+
+  checkSpec(
+    context,
+    value,
+    { id: "string", name: "string", version: "string", origin: "string", art: "string" },
+    path
+  );
+  checkStringList(context, value.roles, `${path}.roles`);
+  if (!Array.isArray(value.innates)) {
+    report(context, `${path}.innates`, "Expected a list of innates.");
+  } else {
+    value.innates.forEach((innate, index) => {
+      const innatePath = `${path}.innates[${index}]`;
+      if (checkRecord(context, innate, innatePath)) {
+        checkSpec(context, innate, { name: "string", text: "string" }, innatePath);
+      }
+    });
+  }
+  if (value.statusEffects !== undefined) {
+    getList(value.statusEffects).forEach((status, index) =>
+      checkStatusEffect(context, status, `${path}.statusEffects[${index}]`)
+    );
+  }
+
+  if (!Array.isArray(value.cards)) {
+    report(context, `${path}.cards`, "Expected a list of cards.");
+  }
+  if (value.createdCards !== undefined && !Array.isArray(value.createdCards)) {
+    report(context, `${path}.createdCards`, "Expected a list of cards.");
+  }
+  const slots = new Set<string>();
+  const checkSlots = (list: unknown[], listPath: string) => {
+    list.forEach((card, index) => {
+      const slot = getCardField(card, "slot");
+      if (slot === null) return;
+      if (slots.has(slot)) {
+        report(context, `${listPath}[${index}].slot`, `Duplicate card slot "${slot}".`);
+      }
+      slots.add(slot);
+    });
+  };
+  checkSlots(cards, `${path}.cards`);
+  checkSlots(createdCards, `${path}.createdCards`);
+  cards.forEach((card, index) => checkCard(context, card, slots, `${path}.cards[${index}]`));
+  createdCards.forEach((card, index) =>
+    checkCard(context, card, slots, `${path}.createdCards[${index}]`)
+  );
+};
+
+export const validateCharacters = (value: unknown, reference: DataReference): DataIssue[] => {
+  const issues: DataIssue[] = [];
+  if (!Array.isArray(value)) {
+    return [{ path: "characters", message: "Expected a list of characters." }];
+  }
+  const ids = new Set<string>();
+  value.forEach((character, index) => {
+    const path = `characters[${index}]`;
+    checkCharacter(character, path, reference, issues);
+    const id = isRecord(character) && typeof character.id === "string" ? character.id : null;
+    if (!id) return;
+    if (ids.has(id)) {
+      issues.push({ path: `${path}.id`, message: `Duplicate character id "${id}".`, characterId: id });
+    }
+    ids.add(id);
+  });
+  return issues;
+};
+
+export const formatDataIssue = (issue: DataIssue) =>
+  `${issue.path}${issue.characterId ? ` (${issue.characterId})` : ""}: ${issue.message}`;
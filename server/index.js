@@ -1,8 +1,22 @@
 ﻿const http = require("http");
+const { randomBytes, randomUUID } = require("crypto");
 const { WebSocketServer, WebSocket } = require("ws");
 
 const PORT = Number(process.env.PORT) || 8787;
 const MAX_PLAYERS = Number(process.env.MAX_PLAYERS) || 2;
+const MAX_SPECTATORS = Number(process.env.MAX_SPECTATORS) || 8;
+const RECONNECT_GRACE_MS = Number(process.env.RECONNECT_GRACE_MS) || 30000;
+const AUTHORITATIVE =
+  process.env.AUTHORITATIVE === "1" || process.argv.includes("--authoritative");
+const SEATS = ["p1", "p2"];
+const AUDIENCES = ["players", "spectators"];
+const SPECTATOR_BLOCKED_EVENTS = [
+  "action_request",
+  "selection_request",
+  "selection_update",
+  "state_update",
+  "state_patch",
+];
 
 const server = http.createServer((req, res) => {
   res.writeHead(200, { "Content-Type": "text/plain" });
@@ -11,25 +25,49 @@ const server = http.createServer((req, res) => {
 
 const wss = new WebSocketServer({ server });
 const lobbies = new Map();
+let core = null;
+
+const loadCore = async () => {
+  const [engine, data] = await Promise.all([
+    import("../packages/core/src/index.ts"),
+    import("../packages/data/src/index.ts"),
+  ]);
+  return {
+    applyAction: engine.applyAction,
+    createMatchState: engine.createMatchState,
+    createStatePatch: engine.createStatePatch,
+    projectMatchState: engine.projectMatchState,
+    roster: data.characters,
+  };
+};
 
 const send = (ws, payload) => {
-  if (ws.readyState === WebSocket.OPEN) {
+  if (ws && ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(payload));
   }
 };
 
-const broadcast = (lobby, payload) => {
+const broadcast = (lobby, payload, audience) => {
   lobby.players.forEach((player) => {
+    if (audience === "players" && player.spectator) return;
+    if (audience === "spectators" && !player.spectator) return;
     send(player.ws, payload);
   });
 };
 
+const countMembers = (lobby, spectator) =>
+  Array.from(lobby.players.values()).filter((player) => player.spectator === spectator).length;
+
 const lobbySnapshot = (lobby) => ({
   code: lobby.code,
   hostId: lobby.hostId,
+  authoritative: lobby.authoritative,
+  seats: lobby.seats,
   players: Array.from(lobby.players.values()).map((player) => ({
     id: player.id,
     name: player.name,
+    connected: player.connected,
+    spectator: player.spectator,
   })),
 });
 
@@ -46,16 +84,142 @@ const createLobbyCode = () => {
   return code;
 };
 
+const getSeat = (lobby, clientId) =>
+  SEATS.find((seat) => lobby.seats[seat] === clientId) ?? null;
+
+const sendMatchState = (lobby, player) => {
+  const sendTo = (target) => {
+    if (!target.connected) return;
+    const view = core.projectMatchState(lobby.match, getSeat(lobby, target.id));
+    const previous = lobby.views.get(target.id);
+    lobby.views.set(target.id, view);
+    if (previous && !player) {
+      send(target.ws, {
+        type: "game_event",
+        event: "state_patch",
+        data: { patch: core.createStatePatch(previous, view) },
+        from: "server",
+      });
+      return;
+    }
+    send(target.ws, {
+      type: "game_event",
+      event: "state_update",
+      data: {
+        state: view,
+        selection: lobby.setup?.selection,
+        names: lobby.setup?.names,
+      },
+      from: "server",
+    });
+  };
+  if (player) {
+    sendTo(player);
+    return;
+  }
+  lobby.players.forEach(sendTo);
+};
+
+const sendActionError = (ws, message) => {
+  send(ws, { type: "game_event", event: "action_error", data: { message }, from: "server" });
+};
+
+const handleAuthoritativeEvent = (lobby, client, ws, message) => {
+  const data = message.data ?? {};
+
+  if (message.event === "state_update" || message.event === "state_patch") {
+    send(ws, { type: "error", message: "The relay owns the match state." });
+    return true;
+  }
+
+  if (message.type === "lobby_event") {
+    if (message.event === "return_to_lobby") {
+      lobby.match = null;
+      lobby.setup = null;
+      lobby.views.clear();
+      releaseReservedSeats(lobby);
+    }
+    if (message.event !== "start_match") return false;
+    const selection = data.selection ?? {};
+    const names = data.names ?? {};
+    try {
+      lobby.match = core.createMatchState(core.roster, [
+        { id: "p1", name: names.p1 || "Player 1", characterIds: selection.p1 ?? [] },
+        { id: "p2", name: names.p2 || "Player 2", characterIds: selection.p2 ?? [] },
+      ]);
+    } catch (error) {
+      send(ws, {
+        type: "error",
+        message: error instanceof Error ? error.message : "Failed to start match.",
+      });
+      return true;
+    }
+    lobby.setup = { selection, names };
+    lobby.views.clear();
+    sendMatchState(lobby);
+    return true;
+  }
+
+  if (message.event === "action_request") {
+    const seat = getSeat(lobby, client.id);
+    if (!seat) {
+      sendActionError(ws, "You do not hold a seat in this match.");
+      return true;
+    }
+    if (!lobby.match) {
+      sendActionError(ws, "Match is not running.");
+      return true;
+    }
+    const action = data.action;
+    if (!action || action.playerId !== seat) {
+      sendActionError(ws, "Not your team.");
+      return true;
+    }
+    const result = core.applyAction(lobby.match, action, core.roster);
+    if (result.error) {
+      sendActionError(ws, result.error);
+      return true;
+    }
+    lobby.match = result.state;
+    sendMatchState(lobby);
+    return true;
+  }
+
+  if (message.event === "sync_request" && lobby.match) {
+    sendMatchState(lobby, lobby.players.get(client.id));
+    return true;
+  }
+
+  return false;
+};
+
 const closeLobby = (lobby, reason) => {
   broadcast(lobby, { type: "lobby_closed", reason });
   lobby.players.forEach((player) => {
-    if (player.ws.uaClient) {
+    clearTimeout(player.graceTimer);
+    if (player.ws?.uaClient) {
       player.ws.uaClient.lobbyCode = null;
     }
   });
   lobbies.delete(lobby.code);
 };
 
+const freeSeat = (lobby, playerId) => {
+  SEATS.forEach((seat) => {
+    if (lobby.seats[seat] === playerId) {
+      lobby.seats[seat] = null;
+    }
+  });
+};
+
+const releaseReservedSeats = (lobby) => {
+  lobby.players.forEach((player) => {
+    if (!player.reserved) return;
+    lobby.players.delete(player.id);
+    freeSeat(lobby, player.id);
+  });
+};
+
 const leaveLobby = (client) => {
   const code = client.lobbyCode;
   if (!code) return;
@@ -66,22 +230,94 @@ const leaveLobby = (client) => {
     return;
   }
 
-  lobby.players.delete(client.id);
+  const player = lobby.players.get(client.id);
+  clearTimeout(player?.graceTimer);
+  lobby.views.delete(client.id);
   client.lobbyCode = null;
+  // A seat in a running authoritative match stays reserved for its reconnect token.
+  if (player && lobby.authoritative && lobby.match && getSeat(lobby, client.id)) {
+    player.graceTimer = null;
+    player.ws = null;
+    player.connected = false;
+    player.reserved = true;
+  } else {
+    lobby.players.delete(client.id);
+    freeSeat(lobby, client.id);
+  }
 
-  if (!lobby.players.size) {
+  const present = Array.from(lobby.players.values()).filter((entry) => !entry.reserved);
+  if (!present.length) {
     lobbies.delete(code);
     return;
   }
 
   if (lobby.hostId === client.id) {
-    closeLobby(lobby, "Host left the lobby.");
-    return;
+    const nextHost = present.find((entry) => !entry.spectator);
+    if (!lobby.authoritative || !nextHost) {
+      closeLobby(lobby, "Host left the lobby.");
+      return;
+    }
+    lobby.hostId = nextHost.id;
   }
 
   sendSnapshot(lobby);
 };
 
+const holdSeat = (client, ws) => {
+  const lobby = lobbies.get(client.lobbyCode);
+  const player = lobby?.players.get(client.id);
+  if (!lobby || !player) {
+    leaveLobby(client);
+    return;
+  }
+  if (player.ws !== ws) return;
+  player.ws = null;
+  player.connected = false;
+  player.graceTimer = setTimeout(() => {
+    player.graceTimer = null;
+    leaveLobby(client);
+  }, RECONNECT_GRACE_MS);
+  sendSnapshot(lobby);
+};
+
+const createReconnectToken = () => randomBytes(24).toString("hex");
+
+const sendReconnectToken = (player) => {
+  player.reconnectToken = createReconnectToken();
+  send(player.ws, { type: "reconnect_token", token: player.reconnectToken });
+};
+
+const reclaimSeat = (client, ws, token) => {
+  if (typeof token !== "string" || !token) return null;
+  for (const lobby of lobbies.values()) {
+    const player = Array.from(lobby.players.values()).find(
+      (entry) => entry.reconnectToken === token
+    );
+    if (!player || player.connected) continue;
+    clearTimeout(player.graceTimer);
+    player.graceTimer = null;
+    player.ws = ws;
+    player.connected = true;
+    player.reserved = false;
+    player.name = client.name;
+    client.id = player.id;
+    client.lobbyCode = lobby.code;
+    return lobby;
+  }
+  return null;
+};
+
+const createPlayer = (client, ws, spectator = false) => ({
+  id: client.id,
+  name: client.name,
+  ws,
+  connected: true,
+  spectator,
+  graceTimer: null,
+  reconnectToken: null,
+  reserved: false,
+});
+
 wss.on("connection", (ws) => {
   const client = {
     id: null,
@@ -103,13 +339,27 @@ wss.on("connection", (ws) => {
     if (!message?.type) return;
 
     if (message.type === "hello") {
-      if (!message.clientId || !message.name) {
-        send(ws, { type: "error", message: "Missing clientId or name." });
+      if (!message.name) {
+        send(ws, { type: "error", message: "Missing name." });
         return;
       }
-      client.id = message.clientId;
       client.name = message.name.toString().slice(0, 20);
-      send(ws, { type: "hello_ack", id: client.id });
+      if (client.lobbyCode) {
+        send(ws, { type: "hello_ack", id: client.id, lobbyCode: client.lobbyCode });
+        return;
+      }
+      const lobby = reclaimSeat(client, ws, message.reconnectToken);
+      if (!lobby) {
+        client.id = randomUUID();
+      }
+      send(ws, { type: "hello_ack", id: client.id, lobbyCode: lobby?.code ?? null });
+      if (lobby) {
+        sendReconnectToken(lobby.players.get(client.id));
+        sendSnapshot(lobby);
+        if (lobby.authoritative && lobby.match) {
+          sendMatchState(lobby, lobby.players.get(client.id));
+        }
+      }
       return;
     }
 
@@ -130,11 +380,17 @@ wss.on("connection", (ws) => {
       const lobby = {
         code,
         hostId: client.id,
+        authoritative: AUTHORITATIVE,
+        seats: { p1: client.id, p2: null },
         players: new Map(),
+        match: null,
+        setup: null,
+        views: new Map(),
       };
-      lobby.players.set(client.id, { id: client.id, name: client.name, ws });
+      lobby.players.set(client.id, createPlayer(client, ws));
       client.lobbyCode = code;
       lobbies.set(code, lobby);
+      sendReconnectToken(lobby.players.get(client.id));
       sendSnapshot(lobby);
       return;
     }
@@ -150,12 +406,33 @@ wss.on("connection", (ws) => {
         send(ws, { type: "error", message: "Lobby not found." });
         return;
       }
-      if (lobby.players.size >= MAX_PLAYERS) {
+      if (message.spectate) {
+        if (countMembers(lobby, true) >= MAX_SPECTATORS) {
+          send(ws, { type: "error", message: "Lobby has no spectator slots left." });
+          return;
+        }
+        lobby.players.set(client.id, createPlayer(client, ws, true));
+        client.lobbyCode = code;
+        sendReconnectToken(lobby.players.get(client.id));
+        sendSnapshot(lobby);
+        if (lobby.authoritative && lobby.match) {
+          sendMatchState(lobby, lobby.players.get(client.id));
+        }
+        return;
+      }
+      if (lobby.authoritative && lobby.match) {
+        send(ws, { type: "error", message: "Match in progress. Join as a spectator." });
+        return;
+      }
+      const seat = SEATS.find((entry) => !lobby.seats[entry]);
+      if (countMembers(lobby, false) >= MAX_PLAYERS || !seat) {
         send(ws, { type: "error", message: "Lobby is full." });
         return;
       }
-      lobby.players.set(client.id, { id: client.id, name: client.name, ws });
+      lobby.players.set(client.id, createPlayer(client, ws));
+      lobby.seats[seat] = client.id;
       client.lobbyCode = code;
+      sendReconnectToken(lobby.players.get(client.id));
       sendSnapshot(lobby);
       return;
     }
@@ -172,6 +449,14 @@ wss.on("connection", (ws) => {
         return;
       }
 
+      if (
+        lobby.players.get(client.id)?.spectator &&
+        SPECTATOR_BLOCKED_EVENTS.includes(message.event)
+      ) {
+        send(ws, { type: "error", message: "Spectators cannot control the match." });
+        return;
+      }
+
       if (
         message.type === "lobby_event" &&
         ["start_match", "return_to_lobby"].includes(message.event) &&
@@ -181,29 +466,48 @@ wss.on("connection", (ws) => {
         return;
       }
 
+      if (lobby.authoritative && handleAuthoritativeEvent(lobby, client, ws, message)) {
+        return;
+      }
+
       if (
         message.type === "game_event" &&
-        ["state_update", "selection_update"].includes(message.event) &&
+        ["state_update", "state_patch", "selection_update"].includes(message.event) &&
         lobby.hostId !== client.id
       ) {
         send(ws, { type: "error", message: "Only the host can update the match state." });
         return;
       }
 
-      broadcast(lobby, {
-        type: message.type,
-        event: message.event,
-        data: message.data ?? {},
-        from: client.id,
-      });
+      broadcast(
+        lobby,
+        {
+          type: message.type,
+          event: message.event,
+          data: message.data ?? {},
+          from: client.id,
+        },
+        AUDIENCES.includes(message.audience) ? message.audience : undefined
+      );
     }
   });
 
   ws.on("close", () => {
-    leaveLobby(client);
+    holdSeat(client, ws);
   });
 });
 
-server.listen(PORT, () => {
-  console.log(`Universal Arena relay server listening on :${PORT}`);
+const start = async () => {
+  if (AUTHORITATIVE) {
+    core = await loadCore();
+  }
+  server.listen(PORT, () => {
+    const mode = AUTHORITATIVE ? " (authoritative)" : "";
+    console.log(`Universal Arena relay server listening on :${PORT}${mode}`);
+  });
+};
+
+start().catch((error) => {
+  console.error("Failed to start relay server.", error);
+  process.exit(1);
 });